@@ -1,38 +1,64 @@
 import { ref } from 'vue'
 import type { ProgrammingLanguage } from '@/types/chat'
 import { APP_CONFIG } from '@/constants'
+import {
+  defaultIngestionOptions,
+  detectLanguage,
+  ingestFiles,
+  toBundledContext,
+  type SourceFile,
+} from '@/utils/fileIngestion'
+import { documentKind, extractDocument, joinSections } from '@/utils/documentExtraction'
+import type { ExtractedDocument } from '@/utils/documentExtraction'
+import { readZip } from '@/utils/zip'
+
+const isZip = (file: File) => /\.zip$/i.test(file.name) || file.type === 'application/zip'
+
+const readBytes = async (file: File) => new Uint8Array(await file.arrayBuffer())
+
+// Files picked from a folder know their path inside it. Zips are opened in place, their
+// entries go into a folder named after the zip so that several zips don't mix.
+async function toSourceFiles(file: File, path: string): Promise<SourceFile[]> {
+  if (isZip(file)) {
+    const folder = path.replace(/\.zip$/i, '')
+    return readZip(await readBytes(file)).map((entry) => ({
+      ...entry,
+      path: `${folder}/${entry.path}`,
+    }))
+  }
+  return [{ path, size: file.size, read: () => readBytes(file) }]
+}
+
+const fileOf = (entry: FileSystemFileEntry) =>
+  new Promise<File>((resolve, reject) => entry.file(resolve, reject))
+
+// readEntries hands out a directory in batches until it returns an empty one
+async function readDirectory(entry: FileSystemDirectoryEntry): Promise<FileSystemEntry[]> {
+  const reader = entry.createReader()
+  const entries: FileSystemEntry[] = []
+  for (;;) {
+    const batch = await new Promise<FileSystemEntry[]>((resolve, reject) =>
+      reader.readEntries(resolve, reject),
+    )
+    if (batch.length === 0) return entries
+    entries.push(...batch)
+  }
+}
+
+async function walkEntry(entry: FileSystemEntry): Promise<SourceFile[]> {
+  if (entry.isFile) {
+    return toSourceFiles(await fileOf(entry as FileSystemFileEntry), entry.fullPath)
+  }
+  const children = await readDirectory(entry as FileSystemDirectoryEntry)
+  return (await Promise.all(children.map(walkEntry))).flat()
+}
 
 export function useFileUpload() {
   const isUploading = ref(false)
   const fileInput = ref<HTMLInputElement | null>(null)
 
-  const detectLanguageFromFilename = (filename: string): ProgrammingLanguage => {
-    const ext = filename.split('.').pop()?.toLowerCase()
-
-    const extensionMap: Record<string, ProgrammingLanguage> = {
-      js: 'javascript',
-      ts: 'typescript',
-      py: 'python',
-      vue: 'vue',
-      html: 'html',
-      htm: 'html',
-      css: 'css',
-      json: 'json',
-      sh: 'bash',
-      bash: 'bash',
-      sql: 'sql',
-      md: 'markdown',
-      java: 'java',
-      cpp: 'cpp',
-      cc: 'cpp',
-      cxx: 'cpp',
-      cs: 'csharp',
-      go: 'go',
-      rs: 'rust',
-    }
-
-    return extensionMap[ext || ''] || 'text'
-  }
+  const detectLanguageFromFilename = (filename: string): ProgrammingLanguage =>
+    detectLanguage(filename) ?? ('text' as ProgrammingLanguage)
 
   const readFileContent = (file: File): Promise<string> => {
     return new Promise((resolve, reject) => {
@@ -57,7 +83,12 @@ export function useFileUpload() {
 
   const handleFileUpload = async (
     event: Event,
-    onSuccess: (content: string, language: ProgrammingLanguage, filename: string) => void,
+    onSuccess: (
+      content: string,
+      language: ProgrammingLanguage,
+      filename: string,
+      document?: ExtractedDocument,
+    ) => void,
   ) => {
     const target = event.target as HTMLInputElement
     const file = target.files?.[0]
@@ -75,10 +106,16 @@ export function useFileUpload() {
     isUploading.value = true
 
     try {
-      const fileContent = await readFileContent(file)
-      const detectedLanguage = detectLanguageFromFilename(file.name)
-
-      onSuccess(fileContent, detectedLanguage, file.name)
+      // Documents come back as markdown, split into pages or sheets to choose from
+      if (documentKind(file.name)) {
+        const document = await extractDocument(file.name, await readBytes(file))
+        onSuccess(joinSections(document), 'markdown', file.name, document)
+      } else {
+        const fileContent = await readFileContent(file)
+        const detectedLanguage = detectLanguageFromFilename(file.name)
+
+        onSuccess(fileContent, detectedLanguage, file.name)
+      }
 
       // Clear the file input
       if (fileInput.value) {
@@ -86,7 +123,11 @@ export function useFileUpload() {
       }
     } catch (error) {
       console.error('Error reading file:', error)
-      alert('Error reading file. Please try again.')
+      alert(
+        documentKind(file.name) && error instanceof Error
+          ? `Could not read ${file.name}: ${error.message}`
+          : 'Error reading file. Please try again.',
+      )
     } finally {
       isUploading.value = false
     }
@@ -96,20 +137,70 @@ export function useFileUpload() {
     event.preventDefault()
   }
 
-  const handleDrop = (
+  // A single file is uploaded as if it was picked. Several files, a folder or a zip are
+  // read like an import and come back as one bundled context.
+  const handleDrop = async (
     event: DragEvent,
-    onSuccess: (content: string, language: ProgrammingLanguage, filename: string) => void,
+    onSuccess: (
+      content: string,
+      language: ProgrammingLanguage,
+      filename: string,
+      document?: ExtractedDocument,
+    ) => void,
   ) => {
     event.preventDefault()
-    const files = event.dataTransfer?.files
-    if (files && files.length > 0) {
-      const file = files[0]
+    const dataTransfer = event.dataTransfer
+    const dropped = Array.from(dataTransfer?.files ?? [])
+    if (!dataTransfer || dropped.length === 0) return
+
+    const isFolder = Array.from(dataTransfer.items ?? []).some(
+      (item) => item.webkitGetAsEntry?.()?.isDirectory,
+    )
+    if (dropped.length === 1 && !isFolder && !isZip(dropped[0])) {
       // Create a fake event to reuse the existing handler
       const fakeEvent = {
-        target: { files: [file] },
+        target: { files: [dropped[0]] },
       } as unknown as Event
-      handleFileUpload(fakeEvent, onSuccess)
+      return handleFileUpload(fakeEvent, onSuccess)
     }
+
+    isUploading.value = true
+    try {
+      const { files } = await ingestFiles(
+        await collectDroppedFiles(dataTransfer),
+        defaultIngestionOptions(),
+      )
+      if (files.length === 0) {
+        alert('None of the dropped files could be read as text.')
+        return
+      }
+      const name = dropped.length === 1 ? dropped[0].name.replace(/\.zip$/i, '') : 'Dropped files'
+      const context = toBundledContext(files, name)
+      onSuccess(context.content, 'markdown', context.title)
+    } catch (error) {
+      console.error('Error reading dropped files:', error)
+      alert('Error reading the dropped files. Please try again.')
+    } finally {
+      isUploading.value = false
+    }
+  }
+
+  // Every file of a pick, with folders and zips expanded
+  const collectFiles = async (files: FileList | File[]): Promise<SourceFile[]> => {
+    const collected = await Promise.all(
+      Array.from(files).map((file) => toSourceFiles(file, file.webkitRelativePath || file.name)),
+    )
+    return collected.flat()
+  }
+
+  // Every file of a drop. Dropped folders are only reachable as entries, not as files.
+  const collectDroppedFiles = async (dataTransfer: DataTransfer): Promise<SourceFile[]> => {
+    const entries = Array.from(dataTransfer.items)
+      .map((item) => item.webkitGetAsEntry?.())
+      .filter((entry): entry is FileSystemEntry => !!entry)
+    if (entries.length === 0) return collectFiles(dataTransfer.files)
+
+    return (await Promise.all(entries.map(walkEntry))).flat()
   }
 
   const triggerFileUpload = () => {
@@ -124,5 +215,7 @@ export function useFileUpload() {
     handleDrop,
     triggerFileUpload,
     detectLanguageFromFilename,
+    collectFiles,
+    collectDroppedFiles,
   }
 }
@@ -5,9 +5,16 @@ export const APP_CONFIG = {
   API_ENDPOINTS: {
     CHAT_COMPLETIONS: '/chat/completions',
     MODELS: '/models',
+    EMBEDDINGS: '/embeddings',
+  },
+  OLLAMA_API_ENDPOINTS: {
+    CHAT: '/api/chat',
+    TAGS: '/api/tags',
+    EMBED: '/api/embed',
   },
   MESSAGE_LIMITS: {
     MAX_CONTEXT_PREVIEW: 100,
+    MAX_CONVERSATION_TITLE: 48,
     MAX_MESSAGES_PER_SESSION: 1000,
     MAX_FILE_SIZE: 5 * 1024 * 1024, // 5MB
   },
@@ -15,9 +22,200 @@ export const APP_CONFIG = {
     MESSAGE_MAX_WIDTH: '70%',
     CONTAINER_MAX_WIDTH: '720px',
     TYPING_INDICATOR_DELAY: 1000,
+    SEARCH_HIGHLIGHT_DURATION: 4000,
+  },
+} as const
+
+// Chat servers offered on the landing page. LM Studio serves the OpenAI API under /v1,
+// Ollama's native API lives at the root. apiPath is only added when the address the user
+// typed has no path of its own. prefill says whether the server continues a trailing
+// assistant message rather than answering it with a new one.
+export const CHAT_PROVIDERS = [
+  {
+    value: 'lmstudio',
+    label: 'LM Studio',
+    defaultHost: '127.0.0.1:1234',
+    apiPath: '/v1',
+    prefill: false,
+  },
+  {
+    value: 'ollama',
+    label: 'Ollama',
+    defaultHost: '127.0.0.1:11434',
+    apiPath: '',
+    prefill: true,
   },
+  // llama.cpp server, vLLM, LocalAI, text-generation-webui and the like
+  {
+    value: 'openai',
+    label: 'OpenAI-compatible',
+    defaultHost: '127.0.0.1:8080',
+    apiPath: '/v1',
+    prefill: false,
+  },
+] as const
+
+// Backoff between retries of a failed request, doubled each time up to the maximum.
+// A Retry-After longer than MAX_RETRY_AFTER_MS means the server won't be back soon enough.
+export const RETRY_CONFIG = {
+  BASE_DELAY_MS: 500,
+  MAX_DELAY_MS: 8000,
+  MAX_RETRY_AFTER_MS: 30000,
+} as const
+
+// Arena: how many models one round compares and the Elo settings for the leaderboard
+export const ARENA_CONFIG = {
+  MIN_CONTESTANTS: 2,
+  MAX_CONTESTANTS: 4,
+  INITIAL_RATING: 1000,
+  K_FACTOR: 32,
+} as const
+
+// Tool calling: rounds of calls before the model has to answer, and how much a tool may
+// send back so one result can't crowd out the conversation
+export const TOOL_CONFIG = {
+  MAX_ITERATIONS: 5,
+  MAX_RESULT_CHARS: 4000,
+  CONTEXT_SEARCH_RESULTS: 3,
+} as const
+
+// Image attachments are downscaled to fit MAX_DIMENSION before they are stored or sent.
+// Vision models tokenize an image into a few hundred tokens whatever its size.
+export const IMAGE_CONFIG = {
+  MAX_DIMENSION: 1024,
+  JPEG_QUALITY: 0.85,
+  MAX_PER_MESSAGE: 4,
+  TOKEN_ESTIMATE: 768,
+} as const
+
+// Limits for turning many files, a folder or a zip into contexts, and what is left out
+// unless the exclude rules are changed. Rules use .gitignore syntax.
+export const INGESTION_CONFIG = {
+  MAX_FILE_BYTES: 256 * 1024,
+  MAX_TOTAL_BYTES: 2 * 1024 * 1024,
+  MAX_FILES: 200,
+  DEFAULT_EXCLUDE: [
+    '.git/',
+    'node_modules/',
+    'dist/',
+    'build/',
+    'coverage/',
+    '.venv/',
+    '__pycache__/',
+    'target/',
+    '*.lock',
+    'package-lock.json',
+    '*.min.js',
+    '*.map',
+    '.DS_Store',
+  ],
+} as const
+
+// How uploaded documents are turned into text. Tables show a preview of their first rows
+// after a schema inferred from rows sampled across the whole table.
+export const DOCUMENT_CONFIG = {
+  TABLE_PREVIEW_ROWS: 50,
+  SCHEMA_SAMPLE_ROWS: 200,
+  SCHEMA_EXAMPLES: 3,
+  NOTEBOOK_OUTPUT_CHARS: 2000,
+} as const
+
+// Retrieval over active contexts. Chunks overlap so a passage cut at a boundary is still
+// found whole in one of them, and passages scoring under MIN_SCORE are never sent.
+export const RETRIEVAL_CONFIG = {
+  CHUNK_CHARS: 1200,
+  CHUNK_OVERLAP: 200,
+  TOP_K: 4,
+  MAX_TOP_K: 20,
+  MIN_SCORE: 0.2,
+  EMBED_BATCH_SIZE: 32,
+} as const
+
+// Semantic search over past conversations. New messages are embedded INDEX_DELAY ms after
+// they settle, and only their first MESSAGE_CHARS characters since embedding models take
+// short inputs. A conversation is represented by the mean of its message vectors.
+export const SEMANTIC_SEARCH_CONFIG = {
+  MESSAGE_CHARS: 2000,
+  INDEX_DELAY: 2000,
+  MAX_RESULTS: 20,
+  MIN_SCORE: 0.3,
+  SIMILAR_CONVERSATIONS: 5,
+} as const
+
+// Used for any parameter neither the conversation nor the model preset sets
+export const DEFAULT_GENERATION_PARAMS = {
+  temperature: 0.7,
+  max_tokens: 2048,
 } as const
 
+// Context length assumed for models the table below does not know
+export const DEFAULT_CONTEXT_WINDOW = 4096
+
+// Native context lengths by model family, first match wins so specific patterns go first.
+// LM Studio may load a model with a smaller context, set a per-model override in that case.
+export const MODEL_CONTEXT_WINDOWS = [
+  { pattern: /llama-?3\.[1-3]/i, tokens: 131072 },
+  { pattern: /llama-?3/i, tokens: 8192 },
+  { pattern: /qwen-?(2\.5|3)/i, tokens: 32768 },
+  { pattern: /mistral-nemo|mistral-small/i, tokens: 131072 },
+  { pattern: /mistral|mixtral/i, tokens: 32768 },
+  { pattern: /gemma-?3/i, tokens: 131072 },
+  { pattern: /gemma/i, tokens: 8192 },
+  { pattern: /phi-?4/i, tokens: 16384 },
+  { pattern: /phi-?3.*128k/i, tokens: 131072 },
+  { pattern: /deepseek-r1|gpt-oss/i, tokens: 131072 },
+] as const
+
+// Longest rolling summary the model is asked to write
+export const SUMMARY_MAX_TOKENS = 512
+
+// Sent after a cut-off reply on servers that can't continue it from a prefill
+export const CONTINUE_INSTRUCTION =
+  'Continue your previous reply exactly where it stopped. Do not repeat anything or add a preamble.'
+
+export const GENERATION_PARAM_FIELDS = [
+  { key: 'temperature', label: 'Temperature', min: 0, max: 2, step: 0.05 },
+  { key: 'top_p', label: 'Top P', min: 0, max: 1, step: 0.01 },
+  { key: 'top_k', label: 'Top K', min: 0, max: 500, step: 1, integer: true },
+  { key: 'max_tokens', label: 'Max tokens', min: 1, max: 131072, step: 1, integer: true },
+  { key: 'presence_penalty', label: 'Presence penalty', min: -2, max: 2, step: 0.05 },
+  { key: 'frequency_penalty', label: 'Frequency penalty', min: -2, max: 2, step: 0.05 },
+  { key: 'repeat_penalty', label: 'Repeat penalty', min: 0, max: 2, step: 0.05 },
+  { key: 'seed', label: 'Seed', min: 0, max: Number.MAX_SAFE_INTEGER, step: 1, integer: true },
+] as const
+
+// Formats a conversation can be downloaded in, see utils/exporters
+export const EXPORT_FORMATS = [
+  {
+    value: 'markdown',
+    label: 'Markdown',
+    description: 'Readable transcript of the visible branch',
+    extension: 'md',
+    mimeType: 'text/markdown',
+  },
+  {
+    value: 'html',
+    label: 'HTML',
+    description: 'Standalone page with rendered markdown',
+    extension: 'html',
+    mimeType: 'text/html',
+  },
+  {
+    value: 'json',
+    label: 'JSON',
+    description: 'Every message and branch with timestamps, model and parameters',
+    extension: 'json',
+    mimeType: 'application/json',
+  },
+  {
+    value: 'jsonl',
+    label: 'Fine-tuning JSONL',
+    description: 'One {"messages": [...]} line per conversation',
+    extension: 'jsonl',
+    mimeType: 'application/jsonl',
+  },
+] as const
+
 export const PROGRAMMING_LANGUAGES = [
   { value: 'javascript', label: 'JavaScript' },
   { value: 'typescript', label: 'TypeScript' },
@@ -49,6 +247,8 @@ Start by typing a message below, or choose a model to begin.
 - Basic Markdown is supported (bold, code blocks, lists)
 - Use the gear icon to add or load contexts`
 
+export const DEFAULT_CONVERSATION_TITLE = 'New conversation'
+
 export const ERROR_MESSAGES = {
   LMSTUDIO_CONNECTION: '⚠️ Error connecting to LM Studio',
   INVALID_INPUT: 'Please enter a valid message',
@@ -4,6 +4,8 @@ export class ApiError extends Error {
   public readonly status?: number
   public readonly provider: string
   public readonly originalError?: Error
+  // How long the server asked us to wait before trying again, from Retry-After
+  public retryAfterMs?: number
 
   constructor(
     message: string,
@@ -115,7 +117,30 @@ export class ErrorFactory {
     return new ApiError(error.message, 'UNKNOWN_ERROR', provider, undefined, error)
   }
 
-  static fromHttpResponse(status: number, message: string, provider: string): ApiError {
+  // fetch itself rejects with a TypeError whenever the server can't be reached, the message
+  // differs between browsers. A TypeError from anywhere else is a bug, not a connection issue.
+  static fromFetchRejection(error: unknown, provider: string): ApiError {
+    if (error instanceof TypeError) {
+      return new ConnectionError(provider, error)
+    }
+    return ErrorFactory.fromFetchError(
+      error instanceof Error ? error : new Error(String(error)),
+      provider,
+    )
+  }
+
+  static fromHttpResponse(
+    status: number,
+    message: string,
+    provider: string,
+    retryAfterMs?: number,
+  ): ApiError {
+    const error = ErrorFactory.fromStatus(status, provider)
+    error.retryAfterMs = retryAfterMs
+    return error
+  }
+
+  private static fromStatus(status: number, provider: string): ApiError {
     switch (status) {
       case 404:
         return new ModelNotFoundError('', provider)
@@ -130,7 +155,9 @@ export class ErrorFactory {
       case 504:
         return new ApiError('Server error', 'SERVER_ERROR', provider, status)
       default:
-        return new NetworkError(provider, status)
+        return status >= 500
+          ? new ApiError('Server error', 'SERVER_ERROR', provider, status)
+          : new NetworkError(provider, status)
     }
   }
 }
@@ -4,10 +4,14 @@ import { createPinia } from 'pinia'
 import './assets/main.css'
 import App from './App.vue'
 import router from './router'
+import { StatePersistence } from './utils/persistence'
 
-const app = createApp(App)
+// Persisted state must be loaded from IndexedDB before the router guard and stores read it
+StatePersistence.initialize().finally(() => {
+  const app = createApp(App)
 
-app.use(createPinia())
-app.use(router)
+  app.use(createPinia())
+  app.use(router)
 
-app.mount('#app')
+  app.mount('#app')
+})
@@ -1,6 +1,7 @@
 import { createRouter, createWebHistory } from 'vue-router'
 import { defineAsyncComponent } from 'vue'
 import { useModelsStore } from '@/stores/models'
+import { useProfilesStore } from '@/stores/profiles'
 
 // Lazy load components for better performance
 const LandingPage = defineAsyncComponent({
@@ -60,7 +61,7 @@ const router = createRouter({
   ],
 })
 
-// Navigation guard: require valid LM Studio base URL for protected routes
+// Navigation guard: require a valid server base URL for protected routes
 router.beforeEach((to, _from, next) => {
   // Check if user is trying to access protected routes without a valid base URL
   if (to.name === 'chat' || to.name === 'models') {
@@ -71,9 +72,18 @@ router.beforeEach((to, _from, next) => {
       modelsStore.loadLMStudioBaseUrlFromStorage()
     }
 
+    // Fall back to the last used server profile
+    if (!modelsStore.isBaseUrlValid()) {
+      const profilesStore = useProfilesStore()
+      profilesStore.loadProfilesFromStorage()
+      if (profilesStore.activeProfileId) {
+        profilesStore.activateProfile(profilesStore.activeProfileId)
+      }
+    }
+
     // Check if base URL is valid
     if (!modelsStore.isBaseUrlValid()) {
-      console.warn('No valid LM Studio base URL found, redirecting to landing page')
+      console.warn('No valid server base URL found, redirecting to landing page')
       return next({ name: 'landing' })
     }
   }
@@ -2,10 +2,17 @@ import type {
   ApiService,
   ApiRequest,
   ApiResponse,
+  ApiMessage,
   ApiModel,
+  EmbeddingRequest,
+  GenerationParams,
+  RetryEvent,
   ServiceConfig,
   StreamHandler,
+  StreamResult,
+  ToolDefinition,
 } from '@/types/api'
+import type { OllamaEmbedRequest, OllamaRequest } from '@/types/chat'
 import {
   ApiError,
   ConnectionError,
@@ -14,12 +21,22 @@ import {
   ErrorFactory,
 } from '@/errors/ApiError'
 import { RequestInterceptors, ResponseInterceptors, builtInInterceptors } from './interceptors'
+import { cachedFetch } from '@/utils/requestCache'
+import { parseRetryAfter, retryDelay, waitFor } from '@/utils/retry'
+import { readSseEvents } from '@/utils/sse'
+import { ThinkTagSplitter, type ReasoningParts } from '@/utils/reasoning'
+import { ToolCallAccumulator } from '@/utils/toolCalls'
 
 export abstract class BaseApiService implements ApiService {
   protected config: ServiceConfig
   protected requestInterceptors: RequestInterceptors
   protected responseInterceptors: ResponseInterceptors
 
+  onRetry?: (event: RetryEvent) => void
+
+  // Functions the model may call, sent with every chat request
+  tools?: ToolDefinition[]
+
   constructor(config: ServiceConfig) {
     this.config = config
     this.requestInterceptors = new RequestInterceptors()
@@ -45,25 +62,110 @@ export abstract class BaseApiService implements ApiService {
 
     // Add timeout
     this.requestInterceptors.add(builtInInterceptors.timeout(this.config.timeout || 30000))
+
+    // Add API key and custom headers
+    if (this.config.credentials) {
+      this.requestInterceptors.add(builtInInterceptors.credentials(this.config.credentials))
+    }
   }
 
-  abstract sendMessageStream(
+  // Sends message as the next user turn after the history and streams the reply
+  sendMessageStream(
     message: string,
     model: string,
     onChunk: (chunk: string) => void,
     onError?: (error: string) => void,
     abortController?: AbortController,
-    chatHistory?: Array<{ role: 'user' | 'assistant' | 'system' | 'developer'; content: string }>,
-  ): Promise<void>
+    chatHistory?: ApiMessage[],
+    params?: GenerationParams,
+    onReasoning?: (chunk: string) => void,
+  ): Promise<StreamResult> {
+    return this.streamChat(
+      [...(chatHistory ?? []), { role: 'user', content: message }],
+      model,
+      onChunk,
+      onError,
+      abortController,
+      params,
+      onReasoning,
+    )
+  }
+
+  // Streams the model's turn after messages. A trailing assistant message is a prefill the
+  // model carries on from, on servers that support it. Reasoning goes to onReasoning, or
+  // nowhere, and never into the answer.
+  abstract streamChat(
+    messages: ApiMessage[],
+    model: string,
+    onChunk: (chunk: string) => void,
+    onError?: (error: string) => void,
+    abortController?: AbortController,
+    params?: GenerationParams,
+    onReasoning?: (chunk: string) => void,
+  ): Promise<StreamResult>
+
+  // Single non-streaming completion, for background jobs such as summarizing old turns
+  abstract complete(
+    messages: ApiMessage[],
+    model: string,
+    params?: GenerationParams,
+    abortController?: AbortController,
+  ): Promise<string>
+
+  // One vector per text in the same order, from an embedding model on the same server
+  abstract embed(
+    texts: string[],
+    model: string,
+    abortController?: AbortController,
+  ): Promise<number[][]>
 
   abstract getAvailableModels(): Promise<string[]>
   abstract testConnection(): Promise<boolean>
   abstract testChat(modelId: string): Promise<boolean>
   abstract getModelInfo(modelId: string): Promise<ApiModel | null>
 
+  // Sends a POST, trying again with backoff while the server is unreachable, rate limiting
+  // or failing with a 5xx. Once retries run out the last response is returned, or the last
+  // error thrown, for the caller to handle as usual.
   protected async makeRequest(
     endpoint: string,
-    request: ApiRequest,
+    request: ApiRequest | OllamaRequest | EmbeddingRequest | OllamaEmbedRequest,
+    abortController?: AbortController,
+    retries: number = this.config.retries ?? 0,
+  ): Promise<Response> {
+    for (let attempt = 0; ; attempt++) {
+      let response: Response | undefined
+      let failure: unknown
+      try {
+        response = await this.sendRequest(endpoint, request, abortController)
+        if (response.ok) return response
+        failure = this.httpError(response)
+      } catch (error) {
+        failure = error
+      }
+
+      const canRetry = attempt < retries && !abortController?.signal.aborted
+      const delayMs = canRetry ? retryDelay(failure, attempt) : null
+      if (delayMs === null) {
+        if (response) return response
+        throw failure
+      }
+
+      this.onRetry?.({
+        attempt: attempt + 1,
+        delayMs,
+        error: failure instanceof Error ? failure : new Error(String(failure)),
+      })
+      await waitFor(delayMs, abortController?.signal)
+      if (abortController?.signal.aborted) {
+        throw new DOMException('The request was stopped', 'AbortError')
+      }
+    }
+  }
+
+  private async sendRequest(
+    endpoint: string,
+    request: ApiRequest | OllamaRequest | EmbeddingRequest | OllamaEmbedRequest,
     abortController?: AbortController,
   ): Promise<Response> {
     const url = `${this.config.baseUrl}${endpoint}`
@@ -90,6 +192,8 @@ export abstract class BaseApiService implements ApiService {
         headers: processedConfig.headers,
         body: processedConfig.body,
         signal: processedConfig.signal,
+      }).catch((error: unknown) => {
+        throw ErrorFactory.fromFetchRejection(error, this.config.provider)
       })
 
       const processedResponse = await this.responseInterceptors.process(
@@ -130,6 +234,8 @@ export abstract class BaseApiService implements ApiService {
       const response = await fetch(processedConfig.url, {
         method: processedConfig.method,
         headers: processedConfig.headers,
+      }).catch((error: unknown) => {
+        throw ErrorFactory.fromFetchRejection(error, this.config.provider)
       })
 
       const processedResponse = await this.responseInterceptors.process(
@@ -150,56 +256,84 @@ export abstract class BaseApiService implements ApiService {
     }
   }
 
+  // Cached GET that still goes through the request interceptors, so model listings
+  // carry the same auth headers as chat requests
+  protected async cachedGet<T>(
+    endpoint: string,
+    cacheConfig: { ttl?: number; maxSize?: number },
+  ): Promise<T> {
+    const { url, method, headers } = await this.requestInterceptors.process(
+      {
+        url: `${this.config.baseUrl}${endpoint}`,
+        method: 'GET',
+        headers: { Accept: 'application/json' },
+      },
+      this.config.provider,
+    )
+
+    return cachedFetch<T>(url, { method, headers }, cacheConfig)
+  }
+
+  // OpenAI-style chat completion chunks, one per server-sent event until [DONE]. The finish
+  // reason comes with the last content chunk and the usage, when asked for, after it.
   protected async processStream(
     stream: ReadableStream<Uint8Array>,
     handler: StreamHandler,
     abortController?: AbortController,
-  ): Promise<void> {
-    const reader = stream.getReader()
-    const decoder = new TextDecoder()
+  ): Promise<StreamResult> {
+    const result: StreamResult = {}
+    const route = this.routeReasoning(handler)
+    const toolCalls = new ToolCallAccumulator()
+    const finish = () => {
+      route.flush()
+      const calls = toolCalls.finish()
+      if (calls.length > 0) result.toolCalls = calls
+      return result
+    }
 
     try {
-      while (true) {
-        if (abortController?.signal.aborted) {
-          break
+      for await (const event of readSseEvents(stream, abortController?.signal)) {
+        if (event.data === '[DONE]') {
+          handler.onComplete?.()
+          return finish()
+        }
+
+        let parsed: ApiResponse
+        try {
+          parsed = JSON.parse(event.data)
+        } catch {
+          console.debug('Ignoring malformed event data:', event.data)
+          continue
+        }
+
+        if (parsed.error || event.event === 'error') {
+          const errorMessage = parsed.error?.message || 'Unknown error'
+          handler.onError?.(errorMessage)
+          throw new StreamError(this.config.provider, new Error(errorMessage))
         }
 
-        const { done, value } = await reader.read()
-        if (done) break
-
-        const chunk = decoder.decode(value, { stream: true })
-        const lines = chunk.split('\n').filter((line) => line.trim() !== '')
-
-        for (const line of lines) {
-          try {
-            if (line.startsWith('data: ')) {
-              const data = line.slice(6)
-              if (data === '[DONE]') {
-                handler.onComplete?.()
-                return
-              }
-
-              const parsed: ApiResponse = JSON.parse(data)
-
-              if (parsed.error) {
-                const errorMessage = parsed.error.message || 'Unknown error'
-                if (handler.onError) {
-                  handler.onError(errorMessage)
-                }
-                throw new StreamError(this.config.provider)
-              }
-
-              if (parsed.choices?.[0]?.delta?.content) {
-                console.log('Streaming chunk:', parsed.choices[0].delta.content)
-                handler.onChunk(parsed.choices[0].delta.content)
-              }
-            }
-          } catch (parseError) {
-            // Ignore malformed JSON lines (keepalive, etc.)
-            console.debug('Ignoring malformed JSON:', line)
+        const choice = parsed.choices?.[0]
+        const reasoning = choice?.delta?.reasoning_content ?? choice?.delta?.reasoning
+        if (reasoning) {
+          route.reasoning(reasoning)
+        }
+        if (choice?.delta?.content) {
+          route.content(choice.delta.content)
+        }
+        if (choice?.delta?.tool_calls) {
+          toolCalls.push(choice.delta.tool_calls)
+        }
+        if (choice?.finish_reason) {
+          result.finishReason = choice.finish_reason
+        }
+        if (parsed.usage) {
+          result.usage = {
+            promptTokens: parsed.usage.prompt_tokens,
+            completionTokens: parsed.usage.completion_tokens,
           }
         }
       }
+      return finish()
     } catch (error) {
       if (error instanceof StreamError) {
         throw error
@@ -209,13 +343,35 @@ export abstract class BaseApiService implements ApiService {
         this.config.provider,
         error instanceof Error ? error : new Error(String(error)),
       )
-    } finally {
-      reader.releaseLock()
+    }
+  }
+
+  // Answer text goes to onChunk, reasoning fields and inline <think> blocks to onReasoning
+  protected routeReasoning(handler: StreamHandler) {
+    const splitter = new ThinkTagSplitter()
+    const emit = ({ content, reasoning }: ReasoningParts) => {
+      if (reasoning) handler.onReasoning?.(reasoning)
+      if (content) handler.onChunk(content)
+    }
+
+    return {
+      content: (text: string) => emit(splitter.push(text)),
+      reasoning: (text: string) => handler.onReasoning?.(text),
+      flush: () => emit(splitter.flush()),
     }
   }
 
   protected handleHttpError(response: Response): never {
-    throw ErrorFactory.fromHttpResponse(response.status, response.statusText, this.config.provider)
+    throw this.httpError(response)
+  }
+
+  private httpError(response: Response): ApiError {
+    return ErrorFactory.fromHttpResponse(
+      response.status,
+      response.statusText,
+      this.config.provider,
+      parseRetryAfter(response.headers?.get('Retry-After') ?? null),
+    )
   }
 
   protected handleStreamError(error: unknown): string {
@@ -0,0 +1,20 @@
+import type { ChatProvider, ServerCredentials } from '@/types/api'
+import type { BaseApiService } from './BaseApiService'
+import { createLMStudioService } from './lmstudio'
+import { createOllamaService } from './ollama'
+
+// The chat service for the server the user connected to on the landing page
+export function createApiService(
+  provider: ChatProvider,
+  baseUrl: string,
+  credentials?: ServerCredentials,
+): BaseApiService {
+  switch (provider) {
+    case 'ollama':
+      return createOllamaService(baseUrl, credentials)
+    case 'openai':
+      return createLMStudioService(baseUrl, { provider: 'openai', credentials })
+    default:
+      return createLMStudioService(baseUrl, { credentials })
+  }
+}
@@ -1,4 +1,9 @@
-import type { RequestInterceptor, ResponseInterceptor, RequestConfig } from '@/types/api'
+import type {
+  RequestInterceptor,
+  ResponseInterceptor,
+  RequestConfig,
+  ServerCredentials,
+} from '@/types/api'
 import { ApiError, ErrorFactory } from '@/errors/ApiError'
 
 // Request Interceptors
@@ -104,19 +109,6 @@ export const builtInInterceptors = {
     },
   }),
 
-  // Retry interceptor
-  retry: (maxRetries: number = 3, delay: number = 1000): RequestInterceptor => ({
-    onRequest: async (config) => {
-      // Add retry metadata to config
-      return {
-        ...config,
-        retryCount: 0,
-        maxRetries,
-        retryDelay: delay,
-      }
-    },
-  }),
-
   // Timeout interceptor
   timeout: (timeoutMs: number = 30000): RequestInterceptor => ({
     onRequest: (config) => {
@@ -147,6 +139,21 @@ export const builtInInterceptors = {
     },
   }),
 
+  // Bearer API key plus any extra headers the server or a proxy in front of it expects
+  credentials: (credentials: ServerCredentials): RequestInterceptor => ({
+    onRequest: (config) => {
+      const apiKey = credentials.apiKey?.trim()
+      return {
+        ...config,
+        headers: {
+          ...config.headers,
+          ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+          ...credentials.headers,
+        },
+      }
+    },
+  }),
+
   // Accept header interceptor
   accept: (acceptType: string = 'application/json'): RequestInterceptor => ({
     onRequest: (config) => {
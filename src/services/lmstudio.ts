@@ -1,60 +1,84 @@
-import type { ApiRequest, ApiModel, ServiceConfig } from '@/types/api'
+import type {
+  ApiRequest,
+  ApiMessage,
+  ApiRequestMessage,
+  ApiModel,
+  ApiResponse,
+  EmbeddingRequest,
+  EmbeddingResponse,
+  GenerationParams,
+  ServerCredentials,
+  ServiceConfig,
+  StreamResult,
+} from '@/types/api'
 import { BaseApiService } from './BaseApiService'
-import { APP_CONFIG } from '@/constants'
-import { cachedFetch, cacheConfigs } from '@/utils/requestCache'
+import { APP_CONFIG, DEFAULT_GENERATION_PARAMS } from '@/constants'
+import { resolveGenerationParams } from '@/utils/generationParams'
+import { cacheConfigs } from '@/utils/requestCache'
+import { stripReasoning } from '@/utils/reasoning'
 
+// The OpenAI API has no developer role, context goes in as system messages. Images go in
+// as image_url content parts after the text.
+const toRequestMessages = (messages: ApiMessage[]): ApiRequestMessage[] =>
+  messages.map(({ images, ...msg }) => ({
+    ...msg,
+    role: msg.role === 'developer' ? 'system' : msg.role,
+    content: images?.length
+      ? [
+          { type: 'text', text: msg.content },
+          ...images.map((url) => ({ type: 'image_url' as const, image_url: { url } })),
+        ]
+      : msg.content,
+  }))
+
+export interface LMStudioServiceOptions {
+  provider?: 'lmstudio' | 'openai'
+  credentials?: ServerCredentials
+}
+
+// Speaks the OpenAI chat completions API, so it also serves llama.cpp, vLLM, LocalAI and
+// text-generation-webui under the 'openai' provider
 export class LMStudioService extends BaseApiService {
-  constructor(baseUrl: string = '') {
+  constructor(baseUrl: string = '', options: LMStudioServiceOptions = {}) {
     const config: ServiceConfig = {
       baseUrl,
-      provider: 'lmstudio',
+      provider: options.provider ?? 'lmstudio',
       timeout: 30000,
       retries: 3,
+      credentials: options.credentials,
     }
     super(config)
   }
 
-  async sendMessageStream(
-    message: string,
+  async streamChat(
+    chatMessages: ApiMessage[],
     model: string,
     onChunk: (chunk: string) => void,
     onError?: (error: string) => void,
     abortController?: AbortController,
-    chatHistory?: Array<{ role: 'user' | 'assistant' | 'system' | 'developer'; content: string }>,
-  ): Promise<void> {
+    params?: GenerationParams,
+    onReasoning?: (chunk: string) => void,
+  ): Promise<StreamResult> {
     try {
-      // Build messages array with chat history
-      const messages: Array<{ role: 'user' | 'assistant' | 'system'; content: string }> = []
-
-      // Add chat history if provided
-      if (chatHistory && chatHistory.length > 0) {
-        messages.push(
-          ...chatHistory.map((msg) => ({
-            role:
-              msg.role === 'developer' ? 'system' : (msg.role as 'user' | 'assistant' | 'system'),
-            content: msg.content,
-          })),
-        )
-      }
-
-      // Add current user message
-      messages.push({
-        role: 'user',
-        content: message,
-      })
+      const messages = toRequestMessages(chatMessages)
 
       const request: ApiRequest = {
+        ...resolveGenerationParams(DEFAULT_GENERATION_PARAMS, params),
         model,
         messages,
         stream: true,
-        temperature: 0.7,
-        max_tokens: 2048,
+        stream_options: { include_usage: true },
+      }
+      if (this.tools?.length) {
+        request.tools = this.tools
       }
 
       console.log('LMStudio service - sending request:', {
         model,
         messageCount: messages.length,
         stream: true,
+        temperature: request.temperature,
+        max_tokens: request.max_tokens,
       })
 
       const response = await this.makeRequest(
@@ -76,18 +100,19 @@ export class LMStudioService extends BaseApiService {
 
       console.log('LMStudio service - starting stream processing')
 
-      await this.processStream(
+      return await this.processStream(
         response.body,
         {
           onChunk,
           onError,
+          onReasoning,
         },
         abortController,
       )
     } catch (error) {
       // Don't treat abort as an error
       if (error instanceof Error && error.name === 'AbortError') {
-        return
+        return {}
       }
 
       const errorMessage = this.handleStreamError(error)
@@ -98,17 +123,72 @@ export class LMStudioService extends BaseApiService {
     }
   }
 
+  async complete(
+    messages: ApiMessage[],
+    model: string,
+    params?: GenerationParams,
+    abortController?: AbortController,
+  ): Promise<string> {
+    const request: ApiRequest = {
+      ...resolveGenerationParams(DEFAULT_GENERATION_PARAMS, params),
+      model,
+      messages: toRequestMessages(messages),
+      stream: false,
+    }
+
+    const response = await this.makeRequest(
+      APP_CONFIG.API_ENDPOINTS.CHAT_COMPLETIONS,
+      request,
+      abortController,
+    )
+
+    if (!response.ok) {
+      this.handleHttpError(response)
+    }
+
+    const data: ApiResponse = await response.json()
+    if (data.error) {
+      throw new Error(data.error.message)
+    }
+
+    return stripReasoning(data.choices?.[0]?.message?.content ?? '').trim()
+  }
+
+  async embed(
+    texts: string[],
+    model: string,
+    abortController?: AbortController,
+  ): Promise<number[][]> {
+    const request: EmbeddingRequest = { model, input: texts }
+    const response = await this.makeRequest(
+      APP_CONFIG.API_ENDPOINTS.EMBEDDINGS,
+      request,
+      abortController,
+    )
+
+    if (!response.ok) {
+      this.handleHttpError(response)
+    }
+
+    const data: EmbeddingResponse = await response.json()
+    if (data.error) {
+      throw new Error(data.error.message)
+    }
+    if (data.data?.length !== texts.length) {
+      throw new Error(
+        `${model} returned ${data.data?.length ?? 0} embeddings for ${texts.length} texts`,
+      )
+    }
+
+    // Servers may answer out of order, index says which input a vector belongs to
+    return [...data.data].sort((a, b) => a.index - b.index).map((item) => item.embedding)
+  }
+
   async getAvailableModels(): Promise<string[]> {
     try {
-      const url = `${this.config.baseUrl}${APP_CONFIG.API_ENDPOINTS.MODELS}`
-
       // Use cached fetch for better performance
-      const data: { data: ApiModel[] } = await cachedFetch(
-        url,
-        {
-          method: 'GET',
-          headers: { Accept: 'application/json' },
-        },
+      const data = await this.cachedGet<{ data: ApiModel[] }>(
+        APP_CONFIG.API_ENDPOINTS.MODELS,
         cacheConfigs.models,
       )
 
@@ -142,7 +222,13 @@ export class LMStudioService extends BaseApiService {
         temperature: 0,
         max_tokens: 1,
       }
-      const response = await this.makeRequest(APP_CONFIG.API_ENDPOINTS.CHAT_COMPLETIONS, request)
+      // A connection check should answer right away rather than wait out the retries
+      const response = await this.makeRequest(
+        APP_CONFIG.API_ENDPOINTS.CHAT_COMPLETIONS,
+        request,
+        undefined,
+        0,
+      )
       return response.ok
     } catch {
       return false
@@ -151,15 +237,9 @@ export class LMStudioService extends BaseApiService {
 
   async getModelInfo(modelId: string): Promise<ApiModel | null> {
     try {
-      const url = `${this.config.baseUrl}${APP_CONFIG.API_ENDPOINTS.MODELS}`
-
       // Use cached fetch for better performance
-      const data: { data: ApiModel[] } = await cachedFetch(
-        url,
-        {
-          method: 'GET',
-          headers: { Accept: 'application/json' },
-        },
+      const data = await this.cachedGet<{ data: ApiModel[] }>(
+        APP_CONFIG.API_ENDPOINTS.MODELS,
         cacheConfigs.modelInfo,
       )
 
@@ -172,8 +252,8 @@ export class LMStudioService extends BaseApiService {
 }
 
 // Factory to create a service instance with a custom base URL
-export function createLMStudioService(baseUrl: string) {
-  return new LMStudioService(baseUrl)
+export function createLMStudioService(baseUrl: string, options?: LMStudioServiceOptions) {
+  return new LMStudioService(baseUrl, options)
 }
 
 // Note: No longer exporting a singleton instance since base URL is now dynamic
@@ -0,0 +1,341 @@
+import type {
+  ApiMessage,
+  ApiModel,
+  GenerationParams,
+  ServerCredentials,
+  ServiceConfig,
+  StreamHandler,
+  StreamResult,
+} from '@/types/api'
+import type {
+  OllamaEmbedRequest,
+  OllamaEmbedResponse,
+  OllamaMessage,
+  OllamaOptions,
+  OllamaRequest,
+  OllamaResponse,
+  OllamaTagsResponse,
+} from '@/types/chat'
+import { BaseApiService } from './BaseApiService'
+import { StreamError } from '@/errors/ApiError'
+import { APP_CONFIG, DEFAULT_GENERATION_PARAMS } from '@/constants'
+import { resolveGenerationParams } from '@/utils/generationParams'
+import { cacheConfigs } from '@/utils/requestCache'
+import { readLines } from '@/utils/sse'
+import { stripReasoning } from '@/utils/reasoning'
+import { parseToolArguments } from '@/utils/toolCalls'
+import { dataUrlToBase64 } from '@/utils/images'
+
+// The call already failed when it ran, an empty object still lets the history go out
+const toolArgumentsForHistory = (text: string): Record<string, unknown> => {
+  try {
+    return parseToolArguments(text)
+  } catch {
+    return {}
+  }
+}
+
+// Ollama has no developer role, context goes in as system messages like for LM Studio.
+// Tool calls go back with their arguments as an object, the way Ollama sent them, and
+// images as plain base64.
+const toOllamaMessages = (messages: ApiMessage[]): OllamaMessage[] =>
+  messages.map((msg) => {
+    const message: OllamaMessage = {
+      role: msg.role === 'developer' ? 'system' : msg.role,
+      content: msg.content,
+    }
+    if (msg.images?.length) {
+      message.images = msg.images.map(dataUrlToBase64)
+    }
+    if (msg.tool_calls) {
+      message.tool_calls = msg.tool_calls.map((call) => ({
+        function: {
+          name: call.function.name,
+          arguments: toolArgumentsForHistory(call.function.arguments),
+        },
+      }))
+    }
+    return message
+  })
+
+// Ollama takes sampling settings as options and calls max_tokens num_predict
+export const toOllamaOptions = (params: GenerationParams): OllamaOptions => {
+  const { max_tokens, ...rest } = params
+  return max_tokens === undefined ? rest : { ...rest, num_predict: max_tokens }
+}
+
+export class OllamaService extends BaseApiService {
+  constructor(baseUrl: string = '', credentials?: ServerCredentials) {
+    const config: ServiceConfig = {
+      baseUrl,
+      provider: 'ollama',
+      timeout: 30000,
+      retries: 3,
+      credentials,
+    }
+    super(config)
+  }
+
+  async streamChat(
+    messages: ApiMessage[],
+    model: string,
+    onChunk: (chunk: string) => void,
+    onError?: (error: string) => void,
+    abortController?: AbortController,
+    params?: GenerationParams,
+    onReasoning?: (chunk: string) => void,
+  ): Promise<StreamResult> {
+    try {
+      const request: OllamaRequest = {
+        model,
+        messages: toOllamaMessages(messages),
+        stream: true,
+        options: toOllamaOptions(resolveGenerationParams(DEFAULT_GENERATION_PARAMS, params)),
+      }
+      if (this.tools?.length) {
+        request.tools = this.tools
+      }
+
+      const response = await this.makeRequest(
+        APP_CONFIG.OLLAMA_API_ENDPOINTS.CHAT,
+        request,
+        abortController,
+      )
+
+      if (!response.ok) {
+        this.handleHttpError(response)
+      }
+
+      if (!response.body) {
+        throw new Error('Response body is null')
+      }
+
+      return await this.processNdjsonStream(
+        response.body,
+        { onChunk, onError, onReasoning },
+        abortController,
+      )
+    } catch (error) {
+      // Don't treat abort as an error
+      if (error instanceof Error && error.name === 'AbortError') {
+        return {}
+      }
+
+      const errorMessage = this.handleStreamError(error)
+      if (onError) {
+        onError(errorMessage)
+      }
+      throw error
+    }
+  }
+
+  async complete(
+    messages: ApiMessage[],
+    model: string,
+    params?: GenerationParams,
+    abortController?: AbortController,
+  ): Promise<string> {
+    const request: OllamaRequest = {
+      model,
+      messages: toOllamaMessages(messages),
+      stream: false,
+      options: toOllamaOptions(resolveGenerationParams(DEFAULT_GENERATION_PARAMS, params)),
+    }
+
+    const response = await this.makeRequest(
+      APP_CONFIG.OLLAMA_API_ENDPOINTS.CHAT,
+      request,
+      abortController,
+    )
+
+    if (!response.ok) {
+      this.handleHttpError(response)
+    }
+
+    const data: OllamaResponse = await response.json()
+    if (data.error) {
+      throw new Error(data.error)
+    }
+
+    return stripReasoning(data.message?.content ?? '').trim()
+  }
+
+  async embed(
+    texts: string[],
+    model: string,
+    abortController?: AbortController,
+  ): Promise<number[][]> {
+    const request: OllamaEmbedRequest = { model, input: texts }
+    const response = await this.makeRequest(
+      APP_CONFIG.OLLAMA_API_ENDPOINTS.EMBED,
+      request,
+      abortController,
+    )
+
+    if (!response.ok) {
+      this.handleHttpError(response)
+    }
+
+    const data: OllamaEmbedResponse = await response.json()
+    if (data.error) {
+      throw new Error(data.error)
+    }
+    if (data.embeddings?.length !== texts.length) {
+      throw new Error(
+        `${model} returned ${data.embeddings?.length ?? 0} embeddings for ${texts.length} texts`,
+      )
+    }
+
+    return data.embeddings
+  }
+
+  async getAvailableModels(): Promise<string[]> {
+    try {
+      const data = await this.cachedGet<OllamaTagsResponse>(
+        APP_CONFIG.OLLAMA_API_ENDPOINTS.TAGS,
+        cacheConfigs.models,
+      )
+      return data?.models?.map((model) => model.name) || []
+    } catch (error) {
+      console.error('Failed to fetch models:', error)
+      return []
+    }
+  }
+
+  // A running server with nothing pulled yet still counts as connected
+  async testConnection(): Promise<boolean> {
+    try {
+      const response = await this.makeGetRequest(APP_CONFIG.OLLAMA_API_ENDPOINTS.TAGS)
+      return response.ok
+    } catch {
+      return false
+    }
+  }
+
+  async testChat(modelId: string): Promise<boolean> {
+    try {
+      const request: OllamaRequest = {
+        model: modelId,
+        messages: [{ role: 'user', content: 'ping' }],
+        stream: false,
+        options: { temperature: 0, num_predict: 1 },
+      }
+      // A connection check should answer right away rather than wait out the retries
+      const response = await this.makeRequest(
+        APP_CONFIG.OLLAMA_API_ENDPOINTS.CHAT,
+        request,
+        undefined,
+        0,
+      )
+      return response.ok
+    } catch {
+      return false
+    }
+  }
+
+  async getModelInfo(modelId: string): Promise<ApiModel | null> {
+    try {
+      const data = await this.cachedGet<OllamaTagsResponse>(
+        APP_CONFIG.OLLAMA_API_ENDPOINTS.TAGS,
+        cacheConfigs.modelInfo,
+      )
+      const model = data?.models?.find((m) => m.name === modelId)
+      if (!model) return null
+
+      return {
+        id: model.name,
+        object: 'model',
+        created: model.modified_at ? Math.floor(Date.parse(model.modified_at) / 1000) : 0,
+        owned_by: 'ollama',
+        permission: [],
+        root: model.model,
+      }
+    } catch (error) {
+      console.error('Failed to fetch model info:', error)
+      return null
+    }
+  }
+
+  // One JSON object per line, the last one says why the reply stopped and how many tokens
+  // it took
+  private async processNdjsonStream(
+    stream: ReadableStream<Uint8Array>,
+    handler: StreamHandler,
+    abortController?: AbortController,
+  ): Promise<StreamResult> {
+    const result: StreamResult = {}
+    const route = this.routeReasoning(handler)
+
+    // Returns true once the server reports the reply as done
+    const handleLine = (line: string): boolean => {
+      if (line.trim() === '') return false
+
+      let parsed: OllamaResponse
+      try {
+        parsed = JSON.parse(line)
+      } catch {
+        console.debug('Ignoring malformed JSON:', line)
+        return false
+      }
+
+      if (parsed.error) {
+        handler.onError?.(parsed.error)
+        throw new StreamError(this.config.provider, new Error(parsed.error))
+      }
+
+      if (parsed.message?.thinking) {
+        route.reasoning(parsed.message.thinking)
+      }
+      if (parsed.message?.content) {
+        route.content(parsed.message.content)
+      }
+      if (parsed.message?.tool_calls?.length) {
+        const earlier = result.toolCalls ?? []
+        result.toolCalls = [
+          ...earlier,
+          ...parsed.message.tool_calls.map((call, index) => ({
+            id: `call_${earlier.length + index}`,
+            type: 'function' as const,
+            function: {
+              name: call.function.name,
+              arguments: JSON.stringify(call.function.arguments ?? {}),
+            },
+          })),
+        ]
+      }
+
+      if (parsed.done) {
+        result.finishReason = parsed.done_reason
+        result.usage = {
+          promptTokens: parsed.prompt_eval_count,
+          completionTokens: parsed.eval_count,
+        }
+        handler.onComplete?.()
+        return true
+      }
+      return false
+    }
+
+    try {
+      for await (const line of readLines(stream, abortController?.signal)) {
+        if (handleLine(line)) break
+      }
+      route.flush()
+      return result
+    } catch (error) {
+      if (error instanceof StreamError) {
+        throw error
+      }
+
+      throw new StreamError(
+        this.config.provider,
+        error instanceof Error ? error : new Error(String(error)),
+      )
+    }
+  }
+}
+
+// Factory to create a service instance with a custom base URL
+export function createOllamaService(baseUrl: string, credentials?: ServerCredentials) {
+  return new OllamaService(baseUrl, credentials)
+}
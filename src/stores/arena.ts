@@ -0,0 +1,67 @@
+import { defineStore } from 'pinia'
+import { ref, computed } from 'vue'
+import type { ArenaVote } from '@/types/chat'
+import { StatePersistence } from '@/utils/persistence'
+import { computeLeaderboard } from '@/utils/arena'
+
+const generateVoteId = () => `vote-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`
+
+export const useArenaStore = defineStore('arena', () => {
+  // State
+  const votes = ref<ArenaVote[]>([])
+
+  // Getters
+  const leaderboard = computed(() => computeLeaderboard(votes.value))
+
+  // Actions
+  // Pass null as the winner for a tie
+  const recordVote = (models: string[], winner: string | null, prompt: string) => {
+    const vote: ArenaVote = {
+      id: generateVoteId(),
+      models: [...models],
+      winner,
+      prompt,
+      timestamp: new Date(),
+    }
+    votes.value = [...votes.value, vote]
+    saveVotesToStorage()
+    return vote
+  }
+
+  const clearVotes = () => {
+    votes.value = []
+    saveVotesToStorage()
+  }
+
+  // Persistence
+  const saveVotesToStorage = () => {
+    try {
+      StatePersistence.saveArenaVotes(votes.value)
+    } catch (error) {
+      console.warn('Failed to save arena votes to storage:', error)
+    }
+  }
+
+  const loadVotesFromStorage = () => {
+    try {
+      votes.value = StatePersistence.loadArenaVotes()
+    } catch (error) {
+      console.warn('Failed to load arena votes from storage:', error)
+    }
+  }
+
+  return {
+    // State
+    votes,
+
+    // Getters
+    leaderboard,
+
+    // Actions
+    recordVote,
+    clearVotes,
+
+    // Persistence
+    loadVotesFromStorage,
+  }
+})
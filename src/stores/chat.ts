@@ -1,15 +1,37 @@
 import { defineStore } from 'pinia'
 import { computed } from 'vue'
-import type { ChatState } from '@/types/chat'
+import type { ChatState, Citation } from '@/types/chat'
 import { useMessagesStore } from './messages'
 import { useContextsStore } from './contexts'
 import { useModelsStore } from './models'
+import { useConversationsStore } from './conversations'
+import { usePersonasStore } from './personas'
+import { useProfilesStore } from './profiles'
+import { useArenaStore } from './arena'
+import { useToolsStore } from './tools'
+import { useSearchStore } from './search'
+import { useRetrievalStore } from './retrieval'
+import type { ApiMessage } from '@/types/api'
+import { DEFAULT_GENERATION_PARAMS } from '@/constants'
+import { resolveGenerationParams } from '@/utils/generationParams'
+import { fitToContextWindow, resolveContextWindow } from '@/utils/tokenBudget'
+import { formatContextMessage } from '@/utils/string'
+import { summaryToMessage } from '@/utils/summary'
+import { stripReasoning } from '@/utils/reasoning'
+import { formatRetrievedContext } from '@/utils/retrieval'
 
 export const useChatStore = defineStore('chat', () => {
   // Import individual stores
   const messagesStore = useMessagesStore()
   const contextsStore = useContextsStore()
   const modelsStore = useModelsStore()
+  const conversationsStore = useConversationsStore()
+  const personasStore = usePersonasStore()
+  const profilesStore = useProfilesStore()
+  const arenaStore = useArenaStore()
+  const toolsStore = useToolsStore()
+  const searchStore = useSearchStore()
+  const retrievalStore = useRetrievalStore()
 
   // Computed state that combines all stores
   const chatState = computed<ChatState>(() => ({
@@ -20,6 +42,88 @@ export const useChatStore = defineStore('chat', () => {
     error: messagesStore.error,
   }))
 
+  // Parameters actually sent with the next request
+  const generationParams = computed(() =>
+    resolveGenerationParams(
+      DEFAULT_GENERATION_PARAMS,
+      profilesStore.activeProfile?.defaultParams,
+      modelsStore.modelPresets[modelsStore.currentModel],
+      conversationsStore.activeConversation?.params,
+    ),
+  )
+
+  // Always sent: the system prompt, then every active context unless only the passages
+  // retrieved from them go along. When retrieval failed the contexts go whole after all.
+  const pinnedMessages = computed<ApiMessage[]>(() => {
+    const systemPrompt = conversationsStore.activeConversation?.systemPrompt
+    const retrieving = retrievalStore.isEnabled && !retrievalStore.retrievalFailed
+    return [
+      ...(systemPrompt ? [{ role: 'system' as const, content: systemPrompt }] : []),
+      ...contextsStore.savedContexts
+        .filter((context) => !retrieving && contextsStore.activeContextIds.includes(context.id))
+        .map((context) => ({
+          role: 'developer' as const,
+          content: formatContextMessage(context),
+        })),
+    ]
+  })
+
+  // Passages of the active contexts relevant to prompt, for buildChatHistory
+  const retrieveCitations = (prompt: string, abortController?: AbortController) =>
+    retrievalStore.retrieve(prompt, contextsStore.getActiveContexts(), abortController)
+
+  // The rolling summary only stands in for its messages while they are still on the shown branch
+  const activeSummary = computed(() => {
+    const conversation = conversationsStore.activeConversation
+    const summary = conversation?.autoSummarize ? conversation.summary : undefined
+    return summary && messagesStore.messages.some((msg) => msg.id === summary.throughId)
+      ? summary
+      : undefined
+  })
+
+  // History for a request answering prompt, newest turns first until the model's context is full.
+  // Developer messages on the branch are skipped since active contexts are pinned instead, or
+  // stand in by the passages cited for the prompt.
+  const buildChatHistory = (
+    prompt: string,
+    excludeIds: number[] = [],
+    citations: Citation[] = [],
+  ) => {
+    const branch = messagesStore.messages.filter(
+      (msg) => msg.role !== 'developer' && !excludeIds.includes(msg.id),
+    )
+    const summary = activeSummary.value
+    const history = summary
+      ? branch.slice(branch.findIndex((msg) => msg.id === summary.throughId) + 1)
+      : branch
+
+    const pinned = [
+      ...pinnedMessages.value,
+      ...(citations.length > 0
+        ? [{ role: 'developer' as const, content: formatRetrievedContext(citations) }]
+        : []),
+      ...(summary ? [summaryToMessage(summary)] : []),
+    ]
+
+    const fitted = fitToContextWindow({
+      pinned,
+      // Thinking stays out of the history, also when an older reply still has it inline
+      history: history.map((msg) => ({
+        role: msg.role,
+        content: msg.role === 'assistant' ? stripReasoning(msg.content) : msg.content,
+        ...(msg.images?.length ? { images: msg.images.map((image) => image.dataUrl) } : {}),
+      })),
+      prompt,
+      contextWindow: resolveContextWindow(modelsStore.currentModel, modelsStore.contextWindows),
+      maxTokens: generationParams.value.max_tokens,
+    })
+
+    return { ...fitted, dropped: history.slice(0, fitted.budget.droppedCount) }
+  }
+
+  // What the next request would use, for the budget meter
+  const contextBudget = computed(() => buildChatHistory('').budget)
+
   // Force synchronization of current model
   const syncCurrentModel = () => {
     console.log('syncCurrentModel called')
@@ -47,16 +151,99 @@ export const useChatStore = defineStore('chat', () => {
     addMessage: messagesStore.addMessage,
     updateMessage: messagesStore.updateMessage,
     removeMessage: messagesStore.removeMessage,
-    clearMessages: messagesStore.clearMessages,
+    branchPositions: computed(() => messagesStore.branchPositions),
+    selectBranch: messagesStore.selectBranch,
+    switchBranch: messagesStore.switchBranch,
+    // Clearing starts a fresh conversation so the previous thread stays in history
+    clearMessages: () => conversationsStore.createConversation(),
     setTyping: messagesStore.setTyping,
     setStreaming: messagesStore.setStreaming,
     setAbortController: messagesStore.setAbortController,
     stopStreaming: messagesStore.stopStreaming,
     setError: messagesStore.setError,
     clearError: messagesStore.clearError,
+    nextMessageId: messagesStore.nextMessageId,
     createUserMessage: messagesStore.createUserMessage,
     createAssistantMessage: messagesStore.createAssistantMessage,
 
+    // Conversations - use computed to ensure reactivity
+    conversations: computed(() => conversationsStore.sortedConversations),
+    activeConversationId: computed(() => conversationsStore.activeConversationId),
+    activeConversation: computed(() => conversationsStore.activeConversation),
+    createConversation: conversationsStore.createConversation,
+    switchConversation: conversationsStore.switchConversation,
+    switchProfile: conversationsStore.switchProfile,
+    renameConversation: conversationsStore.renameConversation,
+    deleteConversation: conversationsStore.deleteConversation,
+    duplicateConversation: conversationsStore.duplicateConversation,
+    getConversationMessages: conversationsStore.getConversationMessages,
+    importConversations: conversationsStore.importConversations,
+    loadConversationsFromStorage: conversationsStore.loadConversationsFromStorage,
+    setConversationParams: conversationsStore.setConversationParams,
+    systemPrompt: computed(() => conversationsStore.activeConversation?.systemPrompt ?? ''),
+    setSystemPrompt: conversationsStore.setSystemPrompt,
+
+    // Personas - use computed to ensure reactivity
+    personas: computed(() => personasStore.personas),
+    getPersona: personasStore.getPersona,
+    savePersona: personasStore.savePersona,
+    deletePersona: personasStore.deletePersona,
+    loadPersonasFromStorage: personasStore.loadPersonasFromStorage,
+
+    // Server profiles - use computed to ensure reactivity
+    serverProfiles: computed(() => profilesStore.profiles),
+    activeProfileId: computed(() => profilesStore.activeProfileId),
+    activeProfile: computed(() => profilesStore.activeProfile),
+    failoverTarget: computed(() => profilesStore.failoverTarget),
+    profileHealth: computed(() => profilesStore.profileHealth),
+    getProfile: profilesStore.getProfile,
+    saveProfile: profilesStore.saveProfile,
+    deleteProfile: profilesStore.deleteProfile,
+    saveConnectionProfile: profilesStore.saveConnectionProfile,
+    checkProfileHealth: profilesStore.checkProfileHealth,
+    checkAllProfilesHealth: profilesStore.checkAllProfilesHealth,
+    loadProfilesFromStorage: profilesStore.loadProfilesFromStorage,
+
+    // Arena - use computed to ensure reactivity
+    arenaVotes: computed(() => arenaStore.votes),
+    arenaLeaderboard: computed(() => arenaStore.leaderboard),
+    recordArenaVote: arenaStore.recordVote,
+    clearArenaVotes: arenaStore.clearVotes,
+    loadArenaVotesFromStorage: arenaStore.loadVotesFromStorage,
+
+    // Tools - use computed to ensure reactivity
+    tools: computed(() => toolsStore.tools),
+    enabledTools: computed(() => toolsStore.enabledTools),
+    toolDefinitions: computed(() => toolsStore.toolDefinitions),
+    registerTool: toolsStore.registerTool,
+    setToolEnabled: toolsStore.setToolEnabled,
+    runToolCall: toolsStore.runToolCall,
+    loadEnabledToolsFromStorage: toolsStore.loadEnabledToolsFromStorage,
+
+    // Retrieval - use computed to ensure reactivity
+    retrievalSettings: computed(() => retrievalStore.settings),
+    isRetrievalEnabled: computed(() => retrievalStore.isEnabled),
+    indexingContextIds: computed(() => retrievalStore.indexingIds),
+    contextIndexErrors: computed(() => retrievalStore.indexErrors),
+    setRetrievalSettings: retrievalStore.setRetrievalSettings,
+    indexContexts: retrievalStore.indexContexts,
+    retrieveCitations,
+    loadRetrievalSettingsFromStorage: retrievalStore.loadRetrievalSettingsFromStorage,
+
+    // Search - use computed to ensure reactivity
+    searchQuery: computed(() => searchStore.query),
+    searchResults: computed(() => searchStore.results),
+    highlightedMessageId: computed(() => searchStore.highlightedMessageId),
+    semanticResults: computed(() => searchStore.semanticResults),
+    similarConversations: computed(() => searchStore.similar),
+    isEmbeddingMessages: computed(() => searchStore.isEmbedding),
+    semanticSearchError: computed(() => searchStore.semanticError),
+    search: searchStore.search,
+    searchByMeaning: searchStore.searchByMeaning,
+    findSimilarConversations: searchStore.findSimilarConversations,
+    clearSearch: searchStore.clearSearch,
+    revealMessage: searchStore.revealMessage,
+
     // Contexts - use computed to ensure reactivity
     savedContexts: computed(() => {
       console.log(
@@ -68,7 +255,11 @@ export const useChatStore = defineStore('chat', () => {
     selectedContextIds: computed(() => contextsStore.selectedContextIds),
     activeContextIds: computed(() => contextsStore.activeContextIds),
     saveContext: contextsStore.saveContext,
-    deleteContext: contextsStore.deleteContext,
+    // Its embeddings go with it
+    deleteContext: (id: string) => {
+      contextsStore.deleteContext(id)
+      void retrievalStore.forgetContext(id)
+    },
     toggleContextSelection: contextsStore.toggleContextSelection,
     getSelectedContexts: contextsStore.getSelectedContexts,
     getActiveContexts: contextsStore.getActiveContexts,
@@ -96,12 +287,33 @@ export const useChatStore = defineStore('chat', () => {
       )
       return modelsStore.lmStudioBaseUrl
     }),
+    provider: computed(() => modelsStore.provider),
     setCurrentModel: modelsStore.setCurrentModel,
     loadCurrentModelFromStorage: modelsStore.loadCurrentModelFromStorage,
     loadAvailableModels: modelsStore.loadAvailableModels,
     setLMStudioBaseUrl: modelsStore.setLMStudioBaseUrl,
     loadLMStudioBaseUrlFromStorage: modelsStore.loadLMStudioBaseUrlFromStorage,
+    setProvider: modelsStore.setProvider,
+    loadProviderFromStorage: modelsStore.loadProviderFromStorage,
+    serverCredentials: computed(() => modelsStore.serverCredentials),
+    getServerCredentials: modelsStore.getServerCredentials,
+    setServerCredentials: modelsStore.setServerCredentials,
+    loadServerCredentialsFromStorage: modelsStore.loadServerCredentialsFromStorage,
     refreshCurrentModel: modelsStore.refreshCurrentModel,
+    modelPresets: computed(() => modelsStore.modelPresets),
+    setModelPreset: modelsStore.setModelPreset,
+    clearModelPreset: modelsStore.clearModelPreset,
+    loadModelPresetsFromStorage: modelsStore.loadModelPresetsFromStorage,
+    generationParams,
+    contextWindows: computed(() => modelsStore.contextWindows),
+    getContextWindow: modelsStore.getContextWindow,
+    setContextWindow: modelsStore.setContextWindow,
+    loadContextWindowsFromStorage: modelsStore.loadContextWindowsFromStorage,
+    buildChatHistory,
+    contextBudget,
+    activeSummary,
+    setAutoSummarize: conversationsStore.setAutoSummarize,
+    setConversationSummary: conversationsStore.setConversationSummary,
     syncCurrentModel,
 
     // Combined state
@@ -69,22 +69,14 @@ export const useContextsStore = defineStore('contexts', () => {
 
   const setActiveContexts = (contextIds: string[]) => {
     activeContextIds.value = contextIds
-    // Persist active contexts to localStorage
-    try {
-      localStorage.setItem('yokai-chat-active-contexts', JSON.stringify(contextIds))
-    } catch (error) {
-      console.warn('Failed to save active contexts to localStorage:', error)
-    }
+    StatePersistence.saveActiveContexts(contextIds)
   }
 
   const loadActiveContextsFromStorage = () => {
     try {
-      const stored = localStorage.getItem('yokai-chat-active-contexts')
-      if (stored) {
-        activeContextIds.value = JSON.parse(stored)
-      }
+      activeContextIds.value = StatePersistence.loadActiveContexts()
     } catch (error) {
-      console.warn('Failed to load active contexts from localStorage:', error)
+      console.warn('Failed to load active contexts from storage:', error)
     }
   }
 
@@ -0,0 +1,398 @@
+import { defineStore } from 'pinia'
+import { ref, computed, watch } from 'vue'
+import type { Conversation, ConversationSummary, Message, Persona } from '@/types/chat'
+import type { GenerationParams } from '@/types/api'
+import { APP_CONFIG, DEFAULT_CONVERSATION_TITLE } from '@/constants'
+import { StatePersistence } from '@/utils/persistence'
+import { truncateText } from '@/utils/string'
+import { sanitizeGenerationParams } from '@/utils/generationParams'
+import { pathTo } from '@/utils/messageTree'
+import type { ImportedConversation } from '@/utils/importers'
+import { useMessagesStore } from './messages'
+import { useContextsStore } from './contexts'
+import { useModelsStore } from './models'
+import { useProfilesStore } from './profiles'
+
+const generateConversationId = () => `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`
+
+// Name a thread after its first user message
+const deriveTitle = (messages: Message[]): string => {
+  const firstUserMessage = messages.find((m) => m.role === 'user' && m.content.trim() !== '')
+  if (!firstUserMessage) return DEFAULT_CONVERSATION_TITLE
+
+  const firstLine = firstUserMessage.content.trim().split('\n')[0]
+  return truncateText(firstLine, APP_CONFIG.MESSAGE_LIMITS.MAX_CONVERSATION_TITLE)
+}
+
+export const useConversationsStore = defineStore('conversations', () => {
+  const messagesStore = useMessagesStore()
+  const contextsStore = useContextsStore()
+  const modelsStore = useModelsStore()
+  const profilesStore = useProfilesStore()
+
+  // State
+  const conversations = ref<Conversation[]>([])
+  const activeConversationId = ref<string>('')
+
+  // Getters
+  const activeConversation = computed(() =>
+    conversations.value.find((c) => c.id === activeConversationId.value),
+  )
+
+  // Most recently used first, for the sidebar
+  const sortedConversations = computed(() =>
+    [...conversations.value].sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime()),
+  )
+
+  // Actions
+  const updateConversation = (id: string, updates: Partial<Conversation>) => {
+    const index = conversations.value.findIndex((c) => c.id === id)
+    if (index === -1) return
+
+    const newConversations = [...conversations.value]
+    newConversations[index] = { ...newConversations[index], ...updates }
+    conversations.value = newConversations
+    saveConversationsToStorage()
+  }
+
+  const activateConversation = (conversation: Conversation) => {
+    activeConversationId.value = conversation.id
+    StatePersistence.saveActiveConversationId(conversation.id)
+
+    messagesStore.setConversationMessages(
+      conversation.id,
+      StatePersistence.loadConversationMessages(conversation.id),
+      conversation.activeLeafId,
+    )
+
+    // Go back to the server the conversation was using, before restoring its model
+    if (conversation.profileId && conversation.profileId !== profilesStore.activeProfileId) {
+      profilesStore.activateProfile(conversation.profileId)
+    }
+    if (conversation.model) {
+      modelsStore.setCurrentModel(conversation.model)
+    }
+    contextsStore.setActiveContexts([...conversation.activeContextIds])
+  }
+
+  // A persona seeds the new thread with its prompt, parameters and preferred model
+  const createConversation = (title: string = DEFAULT_CONVERSATION_TITLE, persona?: Persona) => {
+    const now = new Date()
+    const conversation: Conversation = {
+      id: generateConversationId(),
+      title,
+      model: persona?.model || modelsStore.currentModel,
+      activeContextIds: [],
+      params: persona?.params ? { ...persona.params } : undefined,
+      systemPrompt: persona?.systemPrompt.trim() || undefined,
+      personaId: persona?.id,
+      profileId: profilesStore.activeProfileId ?? undefined,
+      createdAt: now,
+      updatedAt: now,
+      messageCount: 0,
+    }
+
+    conversations.value = [...conversations.value, conversation]
+    saveConversationsToStorage()
+    activateConversation(conversation)
+
+    // Persist the welcome message so the new thread survives a reload
+    messagesStore.saveMessagesToStorage()
+    return conversation
+  }
+
+  const switchConversation = (id: string) => {
+    if (id === activeConversationId.value) return
+
+    const conversation = conversations.value.find((c) => c.id === id)
+    if (!conversation) {
+      console.warn('Conversation not found with id:', id)
+      return
+    }
+
+    activateConversation(conversation)
+  }
+
+  // Switching servers from the chat header moves the open conversation along
+  const switchProfile = (profileId: string) => {
+    profilesStore.activateProfile(profileId)
+
+    const conversation = activeConversation.value
+    if (conversation) {
+      updateConversation(conversation.id, { profileId, model: modelsStore.currentModel })
+    }
+  }
+
+  const renameConversation = (id: string, title: string) => {
+    const trimmed = title.trim()
+    if (!trimmed) return
+
+    updateConversation(id, { title: trimmed })
+  }
+
+  // Overrides for the active conversation, anything left unset falls back to the model preset
+  const setConversationParams = (params: GenerationParams) => {
+    const conversation = activeConversation.value
+    if (!conversation) return
+
+    const sanitized = sanitizeGenerationParams(params)
+    updateConversation(conversation.id, {
+      params: Object.keys(sanitized).length > 0 ? sanitized : undefined,
+    })
+  }
+
+  const setSystemPrompt = (prompt: string) => {
+    const conversation = activeConversation.value
+    if (!conversation) return
+
+    updateConversation(conversation.id, { systemPrompt: prompt.trim() || undefined })
+  }
+
+  const setAutoSummarize = (enabled: boolean) => {
+    const conversation = activeConversation.value
+    if (!conversation) return
+
+    updateConversation(conversation.id, { autoSummarize: enabled || undefined })
+  }
+
+  // Replaces the rolling summary, an empty summary removes it
+  const setConversationSummary = (summary?: ConversationSummary) => {
+    const conversation = activeConversation.value
+    if (!conversation) return
+
+    updateConversation(conversation.id, {
+      summary: summary?.content.trim()
+        ? { content: summary.content.trim(), throughId: summary.throughId }
+        : undefined,
+    })
+  }
+
+  const deleteConversation = (id: string) => {
+    const remaining = conversations.value.filter((c) => c.id !== id)
+    if (remaining.length === conversations.value.length) return
+
+    conversations.value = remaining
+    StatePersistence.deleteConversationMessages(id)
+    saveConversationsToStorage()
+
+    // Fall back to the most recent remaining thread, or start a fresh one
+    if (id === activeConversationId.value) {
+      const next = sortedConversations.value[0]
+      if (next) {
+        activateConversation(next)
+      } else {
+        createConversation()
+      }
+      messagesStore.forgetConversation(id)
+    }
+  }
+
+  const duplicateConversation = (id: string) => {
+    const source = conversations.value.find((c) => c.id === id)
+    if (!source) return undefined
+
+    // Copy every branch, not only the one on screen
+    const messages =
+      id === activeConversationId.value
+        ? messagesStore.allMessages
+        : StatePersistence.loadConversationMessages(id)
+
+    const now = new Date()
+    const copy: Conversation = {
+      ...source,
+      id: generateConversationId(),
+      title: `${source.title} (copy)`,
+      activeContextIds: [...source.activeContextIds],
+      createdAt: now,
+      updatedAt: now,
+      messageCount:
+        id === activeConversationId.value ? messagesStore.messages.length : source.messageCount,
+    }
+
+    StatePersistence.saveConversationMessages(copy.id, messages)
+    conversations.value = [...conversations.value, copy]
+    saveConversationsToStorage()
+    activateConversation(copy)
+    return copy
+  }
+
+  // Add conversations read from another tool next to the existing ones, skipping any
+  // that an earlier import already brought in
+  const importConversations = (imported: ImportedConversation[]): Conversation[] => {
+    const known = new Set(conversations.value.map((c) => c.importedFrom).filter(Boolean))
+
+    const added = imported
+      .filter((item) => !known.has(item.sourceId))
+      .map((item) => {
+        const conversation: Conversation = {
+          id: generateConversationId(),
+          title: item.title,
+          model: item.model,
+          activeContextIds: [],
+          params: item.params,
+          systemPrompt: item.systemPrompt,
+          activeLeafId: item.activeLeafId,
+          importedFrom: item.sourceId,
+          createdAt: item.createdAt,
+          updatedAt: item.updatedAt,
+          messageCount: pathTo(
+            item.messages,
+            item.activeLeafId ?? item.messages[item.messages.length - 1]?.id ?? null,
+          ).length,
+        }
+        StatePersistence.saveConversationMessages(conversation.id, item.messages)
+        return conversation
+      })
+
+    if (added.length > 0) {
+      conversations.value = [...conversations.value, ...added]
+      saveConversationsToStorage()
+    }
+    return added
+  }
+
+  // Every stored message of a conversation, the open one may not be flushed to storage yet
+  const getConversationMessages = (id: string): Message[] =>
+    id === messagesStore.conversationId
+      ? messagesStore.allMessages
+      : StatePersistence.loadConversationMessages(id)
+
+  // Keep the active conversation's metadata in step with what the user does
+  watch(
+    () => messagesStore.messages,
+    (messages) => {
+      const conversation = activeConversation.value
+      if (!conversation || messagesStore.conversationId !== conversation.id) return
+
+      // Streaming rewrites the array on every chunk, only react to new or removed messages
+      if (messages.length === conversation.messageCount) return
+
+      updateConversation(conversation.id, {
+        messageCount: messages.length,
+        updatedAt: new Date(),
+        title:
+          conversation.title === DEFAULT_CONVERSATION_TITLE
+            ? deriveTitle(messages)
+            : conversation.title,
+      })
+    },
+  )
+
+  // Remember which branch is shown so it comes back after a reload
+  watch(
+    () => messagesStore.activeLeafId,
+    (leafId) => {
+      const conversation = activeConversation.value
+      if (!conversation || messagesStore.conversationId !== conversation.id) return
+
+      const activeLeafId = leafId ?? undefined
+      if (conversation.activeLeafId !== activeLeafId) {
+        updateConversation(conversation.id, { activeLeafId })
+      }
+    },
+  )
+
+  watch(
+    () => modelsStore.currentModel,
+    (model) => {
+      const conversation = activeConversation.value
+      if (conversation && model && conversation.model !== model) {
+        updateConversation(conversation.id, { model })
+      }
+    },
+  )
+
+  watch(
+    () => [...contextsStore.activeContextIds],
+    (contextIds) => {
+      const conversation = activeConversation.value
+      if (!conversation) return
+
+      const unchanged =
+        contextIds.length === conversation.activeContextIds.length &&
+        contextIds.every((id) => conversation.activeContextIds.includes(id))
+      if (!unchanged) {
+        updateConversation(conversation.id, { activeContextIds: contextIds })
+      }
+    },
+  )
+
+  // Persistence
+  const saveConversationsToStorage = () => {
+    try {
+      StatePersistence.saveConversations(conversations.value)
+    } catch (error) {
+      console.warn('Failed to save conversations to storage:', error)
+    }
+  }
+
+  const loadConversationsFromStorage = () => {
+    try {
+      conversations.value = StatePersistence.loadConversations()
+
+      // Carry over the single message list kept before conversations existed
+      const legacyMessages = StatePersistence.loadMessages()
+      if (legacyMessages.length > 0) {
+        const now = new Date()
+        const imported: Conversation = {
+          id: generateConversationId(),
+          title: deriveTitle(legacyMessages),
+          model: modelsStore.currentModel,
+          activeContextIds: [...contextsStore.activeContextIds],
+          createdAt: legacyMessages[0].timestamp ?? now,
+          updatedAt: now,
+          messageCount: legacyMessages.length,
+        }
+        StatePersistence.saveConversationMessages(imported.id, legacyMessages)
+        StatePersistence.clearMessages()
+        conversations.value = [...conversations.value, imported]
+        saveConversationsToStorage()
+      }
+
+      const storedActiveId = StatePersistence.loadActiveConversationId()
+      const active =
+        conversations.value.find((c) => c.id === storedActiveId) ?? sortedConversations.value[0]
+
+      if (!active) {
+        createConversation()
+        return
+      }
+
+      // The model picked on the landing page wins over the one the thread last used
+      const model = modelsStore.currentModel || active.model
+      if (model !== active.model) {
+        updateConversation(active.id, { model })
+      }
+      activateConversation({ ...active, model })
+    } catch (error) {
+      console.warn('Failed to load conversations from storage:', error)
+    }
+  }
+
+  return {
+    // State
+    conversations,
+    activeConversationId,
+
+    // Getters
+    activeConversation,
+    sortedConversations,
+
+    // Actions
+    createConversation,
+    switchConversation,
+    switchProfile,
+    renameConversation,
+    deleteConversation,
+    duplicateConversation,
+    setConversationParams,
+    setSystemPrompt,
+    setAutoSummarize,
+    setConversationSummary,
+    importConversations,
+    getConversationMessages,
+
+    // Persistence
+    loadConversationsFromStorage,
+  }
+})
@@ -1,26 +1,63 @@
 import { defineStore } from 'pinia'
 import { ref, computed } from 'vue'
-import type { Message } from '@/types/chat'
+import type { BranchPosition, ContextItem, ImageAttachment, Message } from '@/types/chat'
 import { DEFAULT_WELCOME_MESSAGE, APP_CONFIG } from '@/constants'
 import { StatePersistence } from '@/utils/persistence'
+import { groupChildren, latestLeafFrom, linkMessages, pathTo } from '@/utils/messageTree'
 
 export const useMessagesStore = defineStore('messages', () => {
-  // State - Use regular ref for better reactivity
-  const messages = ref<Message[]>([
-    {
-      id: 1,
-      role: 'assistant',
-      content: DEFAULT_WELCOME_MESSAGE,
-      timestamp: new Date(),
-    },
-  ])
+  // Date.now() alone collides when several messages are created in the same tick,
+  // which breaks per-message persistence and updateMessage lookups
+  let lastMessageId = 0
+  const nextMessageId = () => {
+    lastMessageId = Math.max(Date.now(), lastMessageId + 1)
+    return lastMessageId
+  }
+
+  const createWelcomeMessage = (): Message => ({
+    id: nextMessageId(),
+    parentId: null,
+    role: 'assistant',
+    content: DEFAULT_WELCOME_MESSAGE,
+    timestamp: new Date(),
+  })
+
+  // State - every message of the conversation, including alternative branches
+  const welcomeMessage = createWelcomeMessage()
+  const allMessages = ref<Message[]>([welcomeMessage])
+  const activeLeafId = ref<number | null>(welcomeMessage.id) // Last message of the shown branch
+  const conversationId = ref<string>('') // Conversation the messages belong to
 
   const isTyping = ref(false)
   const isStreaming = ref(false)
   const error = ref<string | undefined>(undefined)
   const abortController = ref<AbortController | null>(null)
 
+  // The conversation switched away from while a reply streamed into it. The stopped reply
+  // still reports its last content and stats, those are saved there.
+  let detached: { conversationId: string; messages: Message[] } | null = null
+
   // Getters
+  const childrenByParent = computed(() => groupChildren(allMessages.value))
+
+  // The branch currently shown, this is what gets rendered and sent as history
+  const messages = computed(() => pathTo(allMessages.value, activeLeafId.value))
+
+  // Position among sibling versions, only for messages on the shown branch that have some
+  const branchPositions = computed(() => {
+    const positions: Record<number, BranchPosition> = {}
+    messages.value.forEach((message) => {
+      const siblings = childrenByParent.value.get(message.parentId ?? null) ?? []
+      if (siblings.length > 1) {
+        positions[message.id] = {
+          index: siblings.findIndex((m) => m.id === message.id),
+          count: siblings.length,
+        }
+      }
+    })
+    return positions
+  })
+
   const lastMessage = computed(() => {
     return messages.value[messages.value.length - 1]
   })
@@ -33,72 +70,139 @@ export const useMessagesStore = defineStore('messages', () => {
   }
 
   // Actions
+  // New messages reply to the end of the shown branch unless they name another parent
   const addMessage = (message: Message) => {
-    const newMessages = [...messages.value, message]
+    const node: Message = {
+      ...message,
+      parentId: message.parentId === undefined ? activeLeafId.value : message.parentId,
+    }
+    const newMessages = [...allMessages.value, node]
+    activeLeafId.value = node.id
 
     // Limit messages to prevent memory issues
     if (newMessages.length > APP_CONFIG.MESSAGE_LIMITS.MAX_MESSAGES_PER_SESSION) {
-      messages.value = newMessages.slice(-APP_CONFIG.MESSAGE_LIMITS.MAX_MESSAGES_PER_SESSION)
+      allMessages.value = newMessages.slice(-APP_CONFIG.MESSAGE_LIMITS.MAX_MESSAGES_PER_SESSION)
+      saveMessagesToStorage()
     } else {
-      messages.value = newMessages
+      allMessages.value = newMessages
+      saveMessageToStorage(node)
     }
-
-    // Persist to storage
-    saveMessagesToStorage()
+    return node
   }
 
   const updateMessage = (id: number, updates: Partial<Message>) => {
     console.log('updateMessage called with id:', id, 'updates:', updates)
     console.log(
       'Current messages:',
-      messages.value.map((m) => ({
+      allMessages.value.map((m) => ({
         id: m.id,
         role: m.role,
         content: m.content.substring(0, 50) + '...',
       })),
     )
 
-    const messageIndex = messages.value.findIndex((m) => m.id === id)
+    const messageIndex = allMessages.value.findIndex((m) => m.id === id)
     console.log('Message index found:', messageIndex)
 
     if (messageIndex !== -1) {
       // Create a new array with updated message
-      const newMessages = [...messages.value]
+      const newMessages = [...allMessages.value]
       const oldMessage = newMessages[messageIndex]
       newMessages[messageIndex] = { ...newMessages[messageIndex], ...updates }
 
       console.log('Old message content:', oldMessage.content)
       console.log('New message content:', newMessages[messageIndex].content)
 
-      messages.value = newMessages
-      saveMessagesToStorage()
+      allMessages.value = newMessages
+      saveMessageToStorage(newMessages[messageIndex])
 
       console.log('Message updated successfully')
+    } else if (detached?.messages.some((m) => m.id === id)) {
+      const conversation = detached
+      conversation.messages = conversation.messages.map((m) =>
+        m.id === id ? { ...m, ...updates } : m,
+      )
+      try {
+        const message = conversation.messages.find((m) => m.id === id)
+        if (message) StatePersistence.saveMessage(conversation.conversationId, message)
+      } catch (error) {
+        console.warn('Failed to save message to storage:', error)
+      }
     } else {
       console.log('Message not found with id:', id)
     }
   }
 
+  // Replies to a removed message move up to its parent so the rest of the thread stays reachable
   const removeMessage = (id: number) => {
-    const index = messages.value.findIndex((m) => m.id === id)
-    if (index > -1) {
-      const newMessages = messages.value.filter((_, i) => i !== index)
-      messages.value = newMessages
-      saveMessagesToStorage()
+    const removed = allMessages.value.find((m) => m.id === id)
+    if (!removed) return
+
+    const parentId = removed.parentId ?? null
+    const reparented: Message[] = []
+    allMessages.value = allMessages.value
+      .filter((m) => m.id !== id)
+      .map((m) => {
+        if (m.parentId !== id) return m
+        const moved = { ...m, parentId }
+        reparented.push(moved)
+        return moved
+      })
+
+    if (activeLeafId.value === id) {
+      activeLeafId.value = parentId ?? allMessages.value[allMessages.value.length - 1]?.id ?? null
+    }
+
+    removeMessageFromStorage(id)
+    reparented.forEach(saveMessageToStorage)
+  }
+
+  // Show the branch through this message, continuing along its newest replies
+  const selectBranch = (id: number) => {
+    if (!allMessages.value.some((m) => m.id === id)) return
+    activeLeafId.value = latestLeafFrom(childrenByParent.value, id)
+  }
+
+  // Move to the previous (-1) or next (+1) version of a message
+  const switchBranch = (id: number, offset: number) => {
+    const message = allMessages.value.find((m) => m.id === id)
+    if (!message) return
+
+    const siblings = childrenByParent.value.get(message.parentId ?? null) ?? []
+    const target = siblings[siblings.findIndex((m) => m.id === id) + offset]
+    if (target) {
+      selectBranch(target.id)
     }
   }
 
-  const clearMessages = () => {
-    messages.value = [
-      {
-        id: Date.now(),
-        role: 'assistant',
-        content: DEFAULT_WELCOME_MESSAGE,
-        timestamp: new Date(),
-      },
-    ]
+  // Swap in the messages of another conversation without touching the previous one
+  const setConversationMessages = (
+    id: string,
+    conversationMessages: Message[],
+    leafId?: number,
+  ) => {
+    // A reply can't go on without its conversation on screen, it stops where it is
+    if (isStreaming.value && conversationId.value && id !== conversationId.value) {
+      detached = { conversationId: conversationId.value, messages: allMessages.value }
+      stopStreaming()
+    }
+    conversationId.value = id
+
+    const linked = linkMessages(conversationMessages)
+    allMessages.value = linked.length > 0 ? linked : [createWelcomeMessage()]
+
+    const hasLeaf = leafId !== undefined && allMessages.value.some((m) => m.id === leafId)
+    activeLeafId.value = hasLeaf ? leafId : allMessages.value[allMessages.value.length - 1].id
+
+    // Store the parents given to messages saved before branching existed
+    if (linked.some((message, index) => message !== conversationMessages[index])) {
+      saveMessagesToStorage()
+    }
+  }
 
-    saveMessagesToStorage()
+  // A deleted conversation gets nothing more from a reply stopped in it
+  const forgetConversation = (id: string) => {
+    if (detached?.conversationId === id) detached = null
   }
 
   const setTyping = (typing: boolean) => {
@@ -131,44 +235,80 @@ export const useMessagesStore = defineStore('messages', () => {
   }
 
   // Helper methods
-  const createUserMessage = (content: string) => {
+  const createUserMessage = (
+    content: string,
+    context?: ContextItem[],
+    parentId?: number | null,
+    images?: ImageAttachment[],
+  ) => {
     const message: Message = {
-      id: Date.now(),
+      id: nextMessageId(),
+      parentId,
       role: 'user',
       content,
       timestamp: new Date(),
+      context: context && context.length > 0 ? context : undefined,
+      images: images && images.length > 0 ? images : undefined,
     }
-    addMessage(message)
-    return message
+    return addMessage(message)
   }
 
-  const createAssistantMessage = () => {
+  const createAssistantMessage = (parentId?: number | null) => {
     const message: Message = {
-      id: Date.now(),
+      id: nextMessageId(),
+      parentId,
       role: 'assistant',
       content: '',
       timestamp: new Date(),
     }
     console.log('createAssistantMessage - created message with id:', message.id)
-    addMessage(message)
+    const node = addMessage(message)
     console.log('createAssistantMessage - message added to store')
-    return message
+    return node
   }
 
   // Persistence methods
   const saveMessagesToStorage = () => {
     try {
-      StatePersistence.saveMessages(messages.value)
+      if (conversationId.value) {
+        StatePersistence.saveConversationMessages(conversationId.value, allMessages.value)
+      } else {
+        StatePersistence.saveMessages(allMessages.value)
+      }
     } catch (error) {
       console.warn('Failed to save messages to storage:', error)
     }
   }
 
+  // Incremental writes, only the touched message is serialized
+  const saveMessageToStorage = (message: Message) => {
+    if (!conversationId.value) {
+      saveMessagesToStorage()
+      return
+    }
+
+    try {
+      StatePersistence.saveMessage(conversationId.value, message)
+    } catch (error) {
+      console.warn('Failed to save message to storage:', error)
+    }
+  }
+
+  const removeMessageFromStorage = (id: number) => {
+    if (!conversationId.value) {
+      saveMessagesToStorage()
+      return
+    }
+
+    StatePersistence.deleteMessage(conversationId.value, id)
+  }
+
   const loadMessagesFromStorage = () => {
     try {
       const storedMessages = StatePersistence.loadMessages()
       if (storedMessages.length > 0) {
-        messages.value = storedMessages
+        allMessages.value = linkMessages(storedMessages)
+        activeLeafId.value = allMessages.value[allMessages.value.length - 1].id
       }
     } catch (error) {
       console.warn('Failed to load messages from storage:', error)
@@ -177,13 +317,17 @@ export const useMessagesStore = defineStore('messages', () => {
 
   return {
     // State
-    messages,
+    allMessages,
+    activeLeafId,
+    conversationId,
     isTyping,
     isStreaming,
     error,
     abortController,
 
     // Getters
+    messages,
+    branchPositions,
     lastMessage,
     messageCount,
     getLastMessages,
@@ -192,7 +336,10 @@ export const useMessagesStore = defineStore('messages', () => {
     addMessage,
     updateMessage,
     removeMessage,
-    clearMessages,
+    selectBranch,
+    switchBranch,
+    setConversationMessages,
+    forgetConversation,
     setTyping,
     setStreaming,
     setAbortController,
@@ -201,6 +348,7 @@ export const useMessagesStore = defineStore('messages', () => {
     clearError,
 
     // Helpers
+    nextMessageId,
     createUserMessage,
     createAssistantMessage,
 
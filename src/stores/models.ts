@@ -1,6 +1,9 @@
 import { defineStore } from 'pinia'
 import { ref } from 'vue'
+import type { ChatProvider, GenerationParams, ServerCredentials } from '@/types/api'
 import { StatePersistence } from '@/utils/persistence'
+import { sanitizeGenerationParams } from '@/utils/generationParams'
+import { resolveContextWindow } from '@/utils/tokenBudget'
 
 export const useModelsStore = defineStore('models', () => {
   // State
@@ -8,6 +11,10 @@ export const useModelsStore = defineStore('models', () => {
   const availableModels = ref<string[]>([])
   const isLoadingModels = ref(false)
   const lmStudioBaseUrl = ref<string>('') // Start with empty string, will be set by user
+  const provider = ref<ChatProvider>('lmstudio') // Kind of server behind lmStudioBaseUrl
+  const serverCredentials = ref<Record<string, ServerCredentials>>({}) // Keyed by base URL
+  const modelPresets = ref<Record<string, GenerationParams>>({}) // Generation params per model
+  const contextWindows = ref<Record<string, number>>({}) // User overrides of the context length
 
   // Actions
   const setCurrentModel = (model: string) => {
@@ -50,8 +57,12 @@ export const useModelsStore = defineStore('models', () => {
 
     isLoadingModels.value = true
     try {
-      const { createLMStudioService } = await import('@/services/lmstudio')
-      const service = createLMStudioService(lmStudioBaseUrl.value)
+      const { createApiService } = await import('@/services')
+      const service = createApiService(
+        provider.value,
+        lmStudioBaseUrl.value,
+        getServerCredentials(lmStudioBaseUrl.value),
+      )
       const models = await service.getAvailableModels()
       availableModels.value = models
     } catch (error) {
@@ -84,6 +95,44 @@ export const useModelsStore = defineStore('models', () => {
     }
   }
 
+  const setProvider = (value: ChatProvider) => {
+    provider.value = value
+    StatePersistence.saveProvider(value)
+  }
+
+  const loadProviderFromStorage = () => {
+    provider.value = StatePersistence.loadProvider()
+  }
+
+  const getServerCredentials = (url: string): ServerCredentials | undefined =>
+    serverCredentials.value[url]
+
+  // Empty credentials drop the entry so no blank Authorization header is sent
+  const setServerCredentials = (url: string, credentials: ServerCredentials) => {
+    if (!url) return
+
+    const apiKey = credentials.apiKey?.trim()
+    const headers = Object.fromEntries(
+      Object.entries(credentials.headers ?? {}).filter(([name]) => name.trim() !== ''),
+    )
+    const rest = Object.fromEntries(
+      Object.entries(serverCredentials.value).filter(([key]) => key !== url),
+    )
+    const hasHeaders = Object.keys(headers).length > 0
+    serverCredentials.value =
+      apiKey || hasHeaders
+        ? {
+            ...rest,
+            [url]: { ...(apiKey ? { apiKey } : {}), ...(hasHeaders ? { headers } : {}) },
+          }
+        : rest
+    StatePersistence.saveServerCredentials(serverCredentials.value)
+  }
+
+  const loadServerCredentialsFromStorage = () => {
+    serverCredentials.value = StatePersistence.loadServerCredentials()
+  }
+
   // Validate if the base URL is properly set
   const isBaseUrlValid = () => {
     if (!lmStudioBaseUrl.value || lmStudioBaseUrl.value === '') {
@@ -104,6 +153,51 @@ export const useModelsStore = defineStore('models', () => {
     StatePersistence.saveLMStudioBaseUrl('')
   }
 
+  const setModelPreset = (model: string, params: GenerationParams) => {
+    if (!model) return
+
+    modelPresets.value = { ...modelPresets.value, [model]: sanitizeGenerationParams(params) }
+    StatePersistence.saveModelPresets(modelPresets.value)
+  }
+
+  const clearModelPreset = (model: string) => {
+    if (!(model in modelPresets.value)) return
+
+    modelPresets.value = Object.fromEntries(
+      Object.entries(modelPresets.value).filter(([key]) => key !== model),
+    )
+    StatePersistence.saveModelPresets(modelPresets.value)
+  }
+
+  const loadModelPresetsFromStorage = () => {
+    try {
+      modelPresets.value = StatePersistence.loadModelPresets()
+    } catch (error) {
+      console.warn('Failed to load model presets from storage:', error)
+    }
+  }
+
+  const getContextWindow = (model: string) => resolveContextWindow(model, contextWindows.value)
+
+  // Pass undefined to go back to the built-in estimate for this model
+  const setContextWindow = (model: string, tokens?: number) => {
+    if (!model) return
+
+    const rest = Object.fromEntries(
+      Object.entries(contextWindows.value).filter(([key]) => key !== model),
+    )
+    contextWindows.value = tokens && tokens > 0 ? { ...rest, [model]: Math.floor(tokens) } : rest
+    StatePersistence.saveContextWindows(contextWindows.value)
+  }
+
+  const loadContextWindowsFromStorage = () => {
+    try {
+      contextWindows.value = StatePersistence.loadContextWindows()
+    } catch (error) {
+      console.warn('Failed to load context windows from storage:', error)
+    }
+  }
+
   // Force refresh of current model from storage
   const refreshCurrentModel = () => {
     console.log('refreshCurrentModel called')
@@ -117,6 +211,10 @@ export const useModelsStore = defineStore('models', () => {
     availableModels,
     isLoadingModels,
     lmStudioBaseUrl,
+    provider,
+    serverCredentials,
+    modelPresets,
+    contextWindows,
 
     // Actions
     setCurrentModel,
@@ -124,8 +222,19 @@ export const useModelsStore = defineStore('models', () => {
     loadAvailableModels,
     setLMStudioBaseUrl,
     loadLMStudioBaseUrlFromStorage,
+    setProvider,
+    loadProviderFromStorage,
+    getServerCredentials,
+    setServerCredentials,
+    loadServerCredentialsFromStorage,
     isBaseUrlValid,
     clearBaseUrl,
     refreshCurrentModel,
+    setModelPreset,
+    clearModelPreset,
+    loadModelPresetsFromStorage,
+    getContextWindow,
+    setContextWindow,
+    loadContextWindowsFromStorage,
   }
 })
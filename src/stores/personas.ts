@@ -0,0 +1,71 @@
+import { defineStore } from 'pinia'
+import { ref } from 'vue'
+import type { Persona } from '@/types/chat'
+import { StatePersistence } from '@/utils/persistence'
+import { sanitizeGenerationParams } from '@/utils/generationParams'
+
+export const usePersonasStore = defineStore('personas', () => {
+  // State
+  const personas = ref<Persona[]>([])
+
+  // Actions
+  const getPersona = (id: string) => personas.value.find((p) => p.id === id)
+
+  const savePersona = (persona: Persona) => {
+    const params = persona.params ? sanitizeGenerationParams(persona.params) : {}
+    const normalized: Persona = {
+      ...persona,
+      name: persona.name.trim(),
+      params: Object.keys(params).length > 0 ? params : undefined,
+      model: persona.model || undefined,
+    }
+
+    const existingIndex = personas.value.findIndex((p) => p.id === persona.id)
+    if (existingIndex >= 0) {
+      const newPersonas = [...personas.value]
+      newPersonas[existingIndex] = normalized
+      personas.value = newPersonas
+    } else {
+      personas.value = [...personas.value, normalized]
+    }
+    savePersonasToStorage()
+  }
+
+  const deletePersona = (id: string) => {
+    const remaining = personas.value.filter((p) => p.id !== id)
+    if (remaining.length === personas.value.length) return
+
+    personas.value = remaining
+    savePersonasToStorage()
+  }
+
+  // Persistence
+  const savePersonasToStorage = () => {
+    try {
+      StatePersistence.savePersonas(personas.value)
+    } catch (error) {
+      console.warn('Failed to save personas to storage:', error)
+    }
+  }
+
+  const loadPersonasFromStorage = () => {
+    try {
+      personas.value = StatePersistence.loadPersonas()
+    } catch (error) {
+      console.warn('Failed to load personas from storage:', error)
+    }
+  }
+
+  return {
+    // State
+    personas,
+
+    // Actions
+    getPersona,
+    savePersona,
+    deletePersona,
+
+    // Persistence
+    loadPersonasFromStorage,
+  }
+})
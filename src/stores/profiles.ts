@@ -0,0 +1,205 @@
+import { defineStore } from 'pinia'
+import { ref, computed } from 'vue'
+import type { ChatProvider, ServerHealth, ServerProfile } from '@/types/api'
+import { CHAT_PROVIDERS } from '@/constants'
+import { StatePersistence } from '@/utils/persistence'
+import { sanitizeGenerationParams } from '@/utils/generationParams'
+import { useModelsStore } from './models'
+
+const generateProfileId = () => `profile-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`
+
+// "LM Studio (192.168.1.20:1234)" for profiles created from the landing page
+const defaultProfileName = (provider: ChatProvider, baseUrl: string) => {
+  const label = CHAT_PROVIDERS.find((p) => p.value === provider)?.label ?? provider
+  try {
+    return `${label} (${new URL(baseUrl).host})`
+  } catch {
+    return label
+  }
+}
+
+export const useProfilesStore = defineStore('profiles', () => {
+  const modelsStore = useModelsStore()
+
+  // State
+  const profiles = ref<ServerProfile[]>([])
+  const activeProfileId = ref<string | null>(null)
+  const profileHealth = ref<Record<string, ServerHealth>>({})
+
+  // Getters
+  const activeProfile = computed(() => profiles.value.find((p) => p.id === activeProfileId.value))
+
+  // Where chat requests go when the active profile's server is down
+  const failoverTarget = computed(() => {
+    const profile = activeProfile.value
+    const fallback = profile?.fallbackProfileId ? getProfile(profile.fallbackProfileId) : undefined
+    if (!profile || !fallback) return undefined
+
+    return {
+      provider: fallback.provider,
+      baseUrl: fallback.baseUrl,
+      model: profile.fallbackModel || modelsStore.currentModel,
+    }
+  })
+
+  // Actions
+  const getProfile = (id: string) => profiles.value.find((p) => p.id === id)
+
+  const saveProfile = (profile: ServerProfile) => {
+    const params = profile.defaultParams ? sanitizeGenerationParams(profile.defaultParams) : {}
+    const normalized: ServerProfile = {
+      ...profile,
+      name: profile.name.trim() || defaultProfileName(profile.provider, profile.baseUrl),
+      defaultModel: profile.defaultModel?.trim() || undefined,
+      defaultParams: Object.keys(params).length > 0 ? params : undefined,
+      fallbackProfileId:
+        profile.fallbackProfileId && profile.fallbackProfileId !== profile.id
+          ? profile.fallbackProfileId
+          : undefined,
+      fallbackModel: profile.fallbackModel?.trim() || undefined,
+    }
+
+    const existingIndex = profiles.value.findIndex((p) => p.id === profile.id)
+    if (existingIndex >= 0) {
+      const newProfiles = [...profiles.value]
+      newProfiles[existingIndex] = normalized
+      profiles.value = newProfiles
+    } else {
+      profiles.value = [...profiles.value, normalized]
+    }
+    saveProfilesToStorage()
+
+    // Edits to the active profile take effect right away
+    if (normalized.id === activeProfileId.value) {
+      modelsStore.setProvider(normalized.provider)
+      modelsStore.setLMStudioBaseUrl(normalized.baseUrl)
+    }
+    return normalized
+  }
+
+  const deleteProfile = (id: string) => {
+    const remaining = profiles.value.filter((p) => p.id !== id)
+    if (remaining.length === profiles.value.length) return
+
+    // Profiles that failed over to this one no longer have anywhere to go
+    profiles.value = remaining.map((p) =>
+      p.fallbackProfileId === id ? { ...p, fallbackProfileId: undefined } : p,
+    )
+    profileHealth.value = Object.fromEntries(
+      Object.entries(profileHealth.value).filter(([key]) => key !== id),
+    )
+    if (activeProfileId.value === id) {
+      activeProfileId.value = null
+      StatePersistence.saveActiveProfileId('')
+    }
+    saveProfilesToStorage()
+  }
+
+  // Point the chat at the profile's server, its default model replaces the current one
+  const activateProfile = (id: string) => {
+    const profile = getProfile(id)
+    if (!profile) return
+
+    activeProfileId.value = id
+    StatePersistence.saveActiveProfileId(id)
+    modelsStore.setProvider(profile.provider)
+    modelsStore.setLMStudioBaseUrl(profile.baseUrl)
+    if (profile.defaultModel) {
+      modelsStore.setCurrentModel(profile.defaultModel)
+    }
+  }
+
+  // The landing page connected to a server: reuse its profile or start one for it
+  const saveConnectionProfile = (provider: ChatProvider, baseUrl: string) => {
+    const existing = profiles.value.find((p) => p.provider === provider && p.baseUrl === baseUrl)
+    const profile =
+      existing ??
+      saveProfile({
+        id: generateProfileId(),
+        name: defaultProfileName(provider, baseUrl),
+        provider,
+        baseUrl,
+      })
+
+    activeProfileId.value = profile.id
+    StatePersistence.saveActiveProfileId(profile.id)
+    return profile
+  }
+
+  const checkProfileHealth = async (id: string) => {
+    const profile = getProfile(id)
+    if (!profile) return
+
+    profileHealth.value = { ...profileHealth.value, [id]: 'checking' }
+    let isOnline = false
+    try {
+      const { createApiService } = await import('@/services')
+      const service = createApiService(
+        profile.provider,
+        profile.baseUrl,
+        modelsStore.getServerCredentials(profile.baseUrl),
+      )
+      isOnline = await service.testConnection()
+    } catch (error) {
+      console.warn('Health check failed for profile', profile.name, error)
+    }
+
+    // The profile may have been deleted while the check was running
+    if (getProfile(id)) {
+      profileHealth.value = { ...profileHealth.value, [id]: isOnline ? 'online' : 'offline' }
+    }
+  }
+
+  const checkAllProfilesHealth = () =>
+    Promise.all(profiles.value.map((profile) => checkProfileHealth(profile.id)))
+
+  // Persistence
+  const saveProfilesToStorage = () => {
+    try {
+      StatePersistence.saveServerProfiles(profiles.value)
+    } catch (error) {
+      console.warn('Failed to save server profiles to storage:', error)
+    }
+  }
+
+  // Installs from before profiles existed get one for the server they were already using
+  const loadProfilesFromStorage = () => {
+    try {
+      profiles.value = StatePersistence.loadServerProfiles()
+      const storedActiveId = StatePersistence.loadActiveProfileId()
+      activeProfileId.value = profiles.value.some((p) => p.id === storedActiveId)
+        ? storedActiveId
+        : null
+
+      const baseUrl = StatePersistence.loadLMStudioBaseUrl()
+      if (profiles.value.length === 0 && baseUrl) {
+        saveConnectionProfile(StatePersistence.loadProvider(), baseUrl)
+      }
+    } catch (error) {
+      console.warn('Failed to load server profiles from storage:', error)
+    }
+  }
+
+  return {
+    // State
+    profiles,
+    activeProfileId,
+    profileHealth,
+
+    // Getters
+    activeProfile,
+    failoverTarget,
+
+    // Actions
+    getProfile,
+    saveProfile,
+    deleteProfile,
+    activateProfile,
+    saveConnectionProfile,
+    checkProfileHealth,
+    checkAllProfilesHealth,
+
+    // Persistence
+    loadProfilesFromStorage,
+  }
+})
@@ -0,0 +1,169 @@
+import { defineStore } from 'pinia'
+import { ref, computed } from 'vue'
+import type { Citation, ContextItem, RetrievalSettings } from '@/types/chat'
+import type { ApiService } from '@/types/api'
+import { RETRIEVAL_CONFIG } from '@/constants'
+import { StatePersistence } from '@/utils/persistence'
+import type { EmbeddingRecord } from '@/utils/database'
+import { chunkText, contextHash, embeddingInput, rankChunks } from '@/utils/retrieval'
+import { useModelsStore } from './models'
+
+export const useRetrievalStore = defineStore('retrieval', () => {
+  const modelsStore = useModelsStore()
+
+  // State
+  const settings = ref<RetrievalSettings>({
+    enabled: false,
+    embeddingModel: '',
+    topK: RETRIEVAL_CONFIG.TOP_K,
+  })
+  const indexingIds = ref<string[]>([]) // Contexts being embedded right now
+  const indexErrors = ref<Record<string, string>>({})
+  // Set when the last retrieval failed, active contexts are then sent whole again
+  const retrievalFailed = ref(false)
+
+  // Getters
+  const isEnabled = computed(() => settings.value.enabled && settings.value.embeddingModel !== '')
+
+  // Actions
+  const setRetrievalSettings = (patch: Partial<RetrievalSettings>) => {
+    settings.value = { ...settings.value, ...patch }
+    saveRetrievalSettingsToStorage()
+  }
+
+  const createService = async (): Promise<ApiService> => {
+    const { createApiService } = await import('@/services')
+    return createApiService(
+      modelsStore.provider,
+      modelsStore.lmStudioBaseUrl,
+      modelsStore.getServerCredentials(modelsStore.lmStudioBaseUrl),
+    )
+  }
+
+  // Vectors for the texts from the configured model, in batches the server accepts
+  const embedTexts = async (texts: string[], abortController?: AbortController) => {
+    const service = await createService()
+    const vectors: number[][] = []
+    for (let start = 0; start < texts.length; start += RETRIEVAL_CONFIG.EMBED_BATCH_SIZE) {
+      const batch = texts.slice(start, start + RETRIEVAL_CONFIG.EMBED_BATCH_SIZE)
+      vectors.push(...(await service.embed(batch, settings.value.embeddingModel, abortController)))
+    }
+    return vectors
+  }
+
+  // The context's chunks with their vectors, embedded again only when the context changed
+  const indexContext = async (
+    context: ContextItem,
+    abortController?: AbortController,
+  ): Promise<EmbeddingRecord> => {
+    const model = settings.value.embeddingModel
+    const hash = contextHash(context)
+    const stored = await StatePersistence.loadEmbeddings(context.id, model)
+    if (stored?.hash === hash) return stored
+
+    indexingIds.value = [...indexingIds.value, context.id]
+    try {
+      const chunks = chunkText(context.content)
+      const vectors = await embedTexts(
+        chunks.map((chunk) => embeddingInput(context, chunk)),
+        abortController,
+      )
+
+      const record: EmbeddingRecord = {
+        contextId: context.id,
+        model,
+        hash,
+        chunks: chunks.map((chunk, index) => ({
+          text: chunk.text,
+          start: chunk.start,
+          vector: Float32Array.from(vectors[index]),
+        })),
+      }
+      await StatePersistence.saveEmbeddings(record)
+      indexErrors.value = Object.fromEntries(
+        Object.entries(indexErrors.value).filter(([id]) => id !== context.id),
+      )
+      return record
+    } catch (error) {
+      indexErrors.value = {
+        ...indexErrors.value,
+        [context.id]: error instanceof Error ? error.message : String(error),
+      }
+      throw error
+    } finally {
+      indexingIds.value = indexingIds.value.filter((id) => id !== context.id)
+    }
+  }
+
+  // Embeds every context that is new or changed since it was last embedded
+  const indexContexts = async (contexts: ContextItem[], abortController?: AbortController) => {
+    const records: EmbeddingRecord[] = []
+    for (const context of contexts) {
+      records.push(await indexContext(context, abortController))
+    }
+    return records
+  }
+
+  // The passages of the contexts closest to the query, nothing when retrieval is off
+  const retrieve = async (
+    query: string,
+    contexts: ContextItem[],
+    abortController?: AbortController,
+  ): Promise<Citation[]> => {
+    retrievalFailed.value = false
+    if (!isEnabled.value || contexts.length === 0 || query.trim() === '') return []
+
+    try {
+      const records = await indexContexts(contexts, abortController)
+      const [queryVector] = await embedTexts([query], abortController)
+      const titles = Object.fromEntries(contexts.map((context) => [context.id, context.title]))
+      return rankChunks(queryVector, records, titles, settings.value.topK)
+    } catch (error) {
+      retrievalFailed.value = true
+      throw error
+    }
+  }
+
+  const forgetContext = async (contextId: string) => {
+    await StatePersistence.deleteEmbeddings(contextId)
+  }
+
+  // Persistence
+  const saveRetrievalSettingsToStorage = () => {
+    try {
+      StatePersistence.saveRetrievalSettings(settings.value)
+    } catch (error) {
+      console.warn('Failed to save retrieval settings to storage:', error)
+    }
+  }
+
+  const loadRetrievalSettingsFromStorage = () => {
+    try {
+      const stored = StatePersistence.loadRetrievalSettings()
+      if (stored) settings.value = stored
+    } catch (error) {
+      console.warn('Failed to load retrieval settings from storage:', error)
+    }
+  }
+
+  return {
+    // State
+    settings,
+    indexingIds,
+    indexErrors,
+    retrievalFailed,
+
+    // Getters
+    isEnabled,
+
+    // Actions
+    setRetrievalSettings,
+    indexContexts,
+    retrieve,
+    embedTexts,
+    forgetContext,
+
+    // Persistence
+    loadRetrievalSettingsFromStorage,
+  }
+})
@@ -0,0 +1,357 @@
+import { defineStore } from 'pinia'
+import { ref, watch } from 'vue'
+import type { ContextItem, Conversation, Message } from '@/types/chat'
+import { APP_CONFIG, SEMANTIC_SEARCH_CONFIG } from '@/constants'
+import {
+  SearchIndex,
+  buildSnippet,
+  parseSearchQuery,
+  type SearchDocument,
+  type SearchResult,
+} from '@/utils/searchIndex'
+import type { MessageEmbeddingRecord } from '@/utils/database'
+import { StatePersistence } from '@/utils/persistence'
+import { hashText } from '@/utils/retrieval'
+import { messageEmbeddingInput, rankMessages, similarConversations } from '@/utils/semanticSearch'
+import { useMessagesStore } from './messages'
+import { useContextsStore } from './contexts'
+import { useConversationsStore } from './conversations'
+import { useRetrievalStore } from './retrieval'
+
+const messageDocument = (conversation: Conversation, message: Message): SearchDocument => ({
+  id: `message:${conversation.id}:${message.id}`,
+  kind: 'message',
+  text: message.content,
+  source: conversation.title,
+  role: message.role,
+  // The model that wrote the reply, the conversation may have switched since
+  model: message.model ?? conversation.model,
+  timestamp: message.timestamp,
+  conversationId: conversation.id,
+  messageId: message.id,
+})
+
+const contextDocument = (context: ContextItem): SearchDocument => ({
+  id: `context:${context.id}`,
+  kind: 'context',
+  text: context.content,
+  title: context.title,
+  source: context.title,
+  contextId: context.id,
+})
+
+export const useSearchStore = defineStore('search', () => {
+  const messagesStore = useMessagesStore()
+  const contextsStore = useContextsStore()
+  const conversationsStore = useConversationsStore()
+  const retrievalStore = useRetrievalStore()
+
+  // The index lives outside reactivity, it is refreshed lazily before every search
+  const index = new SearchIndex()
+  const indexedModels = new Map<string, string>()
+  const staleConversationIds = new Set<string>()
+  let contextsStale = true
+
+  // State
+  const query = ref('')
+  const results = ref<SearchResult[]>([])
+  const highlightedMessageId = ref<number | null>(null)
+  let highlightTimer: ReturnType<typeof setTimeout> | undefined
+
+  // Message vectors of the embedding model in use, loaded on first use and kept up to date
+  // as messages are added. Keyed by conversation and message id.
+  const messageVectors = new Map<string, MessageEmbeddingRecord>()
+  let vectorsModel: string | null = null
+  const pendingMessages = new Map<string, { conversationId: string; messageId: number }>()
+  let pendingTimer: ReturnType<typeof setTimeout> | undefined
+
+  const semanticResults = ref<SearchResult[]>([])
+  const similar = ref<Array<{ conversation: Conversation; score: number }>>([])
+  const isEmbedding = ref(false)
+  // Why searching by meaning is unavailable, empty while it works
+  const semanticError = ref('')
+
+  watch(
+    () => messagesStore.allMessages,
+    () => staleConversationIds.add(messagesStore.conversationId),
+  )
+
+  watch(
+    () => contextsStore.savedContexts,
+    () => {
+      contextsStale = true
+    },
+  )
+
+  // Actions
+  const refreshIndex = () => {
+    const conversations = conversationsStore.conversations
+    const knownIds = new Set(conversations.map((c) => c.id))
+
+    indexedModels.forEach((_, id) => {
+      if (knownIds.has(id)) return
+      index.removeWhere((document) => document.conversationId === id)
+      indexedModels.delete(id)
+    })
+
+    conversations.forEach((conversation) => {
+      const upToDate =
+        indexedModels.get(conversation.id) === conversation.model &&
+        !staleConversationIds.has(conversation.id)
+      if (upToDate) return
+
+      index.removeWhere((document) => document.conversationId === conversation.id)
+      conversationsStore
+        .getConversationMessages(conversation.id)
+        .filter((message) => message.content.trim() !== '')
+        .forEach((message) => index.add(messageDocument(conversation, message)))
+      indexedModels.set(conversation.id, conversation.model)
+    })
+    staleConversationIds.clear()
+
+    if (contextsStale) {
+      index.removeWhere((document) => document.kind === 'context')
+      contextsStore.savedContexts.forEach((context) => index.add(contextDocument(context)))
+      contextsStale = false
+    }
+  }
+
+  const search = (input: string) => {
+    query.value = input
+    try {
+      refreshIndex()
+      results.value = index.search(parseSearchQuery(input))
+    } catch (error) {
+      console.warn('Search failed:', error)
+      results.value = []
+    }
+    return results.value
+  }
+
+  const vectorKey = (conversationId: string, messageId: number) => `${conversationId}\n${messageId}`
+
+  const embeddingModel = () => retrievalStore.settings.embeddingModel
+
+  const loadMessageVectors = async () => {
+    if (vectorsModel === embeddingModel()) return
+    messageVectors.clear()
+    vectorsModel = embeddingModel()
+    const records = await StatePersistence.loadMessageEmbeddings(vectorsModel)
+    records.forEach((record) =>
+      messageVectors.set(vectorKey(record.conversationId, record.messageId), record),
+    )
+  }
+
+  // Embeds the messages that have no vector yet or changed since they got one
+  const embedMessages = async (entries: Array<{ conversationId: string; message: Message }>) => {
+    const model = embeddingModel()
+    const stale = entries
+      .map(({ conversationId, message }) => {
+        const input = messageEmbeddingInput(message)
+        return { conversationId, messageId: message.id, input, hash: hashText(input) }
+      })
+      .filter(
+        (entry) =>
+          entry.input !== '' &&
+          messageVectors.get(vectorKey(entry.conversationId, entry.messageId))?.hash !== entry.hash,
+      )
+    if (stale.length === 0) return
+
+    isEmbedding.value = true
+    try {
+      const vectors = await retrievalStore.embedTexts(stale.map((entry) => entry.input))
+      const records = stale.map(({ conversationId, messageId, hash }, index) => ({
+        conversationId,
+        messageId,
+        model,
+        hash,
+        vector: Float32Array.from(vectors[index]),
+      }))
+      records.forEach((record) =>
+        messageVectors.set(vectorKey(record.conversationId, record.messageId), record),
+      )
+      await StatePersistence.saveMessageEmbeddings(records)
+    } finally {
+      isEmbedding.value = false
+    }
+  }
+
+  // Brings the vectors in line with every conversation, forgetting deleted ones
+  const refreshMessageVectors = async () => {
+    await loadMessageVectors()
+    const conversations = conversationsStore.conversations
+    const knownIds = new Set(conversations.map((c) => c.id))
+
+    const removed = new Set<string>()
+    messageVectors.forEach((record, key) => {
+      if (knownIds.has(record.conversationId)) return
+      messageVectors.delete(key)
+      removed.add(record.conversationId)
+    })
+    removed.forEach((id) => StatePersistence.deleteConversationEmbeddings(id))
+
+    await embedMessages(
+      conversations.flatMap((conversation) =>
+        conversationsStore
+          .getConversationMessages(conversation.id)
+          .map((message) => ({ conversationId: conversation.id, message })),
+      ),
+    )
+  }
+
+  const unavailableReason = (error: unknown) =>
+    `Search by meaning is unavailable, is ${embeddingModel()} loaded? ${
+      error instanceof Error ? error.message : String(error)
+    }`
+
+  // New messages are embedded once they settle, a streamed reply only when it is complete
+  const indexPendingMessages = async () => {
+    if (messagesStore.isStreaming) {
+      pendingTimer = setTimeout(indexPendingMessages, SEMANTIC_SEARCH_CONFIG.INDEX_DELAY)
+      return
+    }
+
+    const entries = [...pendingMessages.values()].flatMap(({ conversationId, messageId }) => {
+      const message = conversationsStore
+        .getConversationMessages(conversationId)
+        .find((msg) => msg.id === messageId)
+      return message ? [{ conversationId, message }] : []
+    })
+    pendingMessages.clear()
+
+    try {
+      await loadMessageVectors()
+      await embedMessages(entries)
+    } catch (error) {
+      // The next search by meaning picks up whatever was missed
+      console.warn('Failed to embed new messages:', error)
+    }
+  }
+
+  const queueMessageEmbedding = (conversationId: string, messageId: number) => {
+    if (!embeddingModel()) return
+    pendingMessages.set(vectorKey(conversationId, messageId), { conversationId, messageId })
+    clearTimeout(pendingTimer)
+    pendingTimer = setTimeout(indexPendingMessages, SEMANTIC_SEARCH_CONFIG.INDEX_DELAY)
+  }
+
+  // New and edited messages are embedded as they come, not only when a search runs. After
+  // switching conversations every message is queued, the ones already embedded are skipped.
+  watch(
+    () => [messagesStore.conversationId, messagesStore.allMessages] as const,
+    ([conversationId, messages], [previousId, previousMessages]) => {
+      const unchanged = new Set(conversationId === previousId ? previousMessages : [])
+      messages
+        .filter((message) => !unchanged.has(message))
+        .forEach((message) => queueMessageEmbedding(conversationId, message.id))
+    },
+  )
+
+  // Messages closest in meaning to the input. Without a working embedding model the keyword
+  // results stand in, and semanticError says why.
+  const searchByMeaning = async (input: string) => {
+    query.value = input
+    semanticResults.value = []
+    if (!embeddingModel()) {
+      semanticError.value = 'Pick an embedding model in Retrieval settings to search by meaning.'
+      return search(input)
+    }
+
+    try {
+      await refreshMessageVectors()
+      const [vector] = await retrievalStore.embedTexts([input])
+      const conversations = new Map(conversationsStore.conversations.map((c) => [c.id, c]))
+
+      semanticResults.value = rankMessages(vector, messageVectors.values()).flatMap(
+        ({ record, score }) => {
+          const conversation = conversations.get(record.conversationId)
+          const message = conversation
+            ? conversationsStore
+                .getConversationMessages(conversation.id)
+                .find((msg) => msg.id === record.messageId)
+            : undefined
+          if (!conversation || !message) return []
+          return [
+            {
+              document: messageDocument(conversation, message),
+              score,
+              snippet: buildSnippet(message.content, parseSearchQuery('')),
+            },
+          ]
+        },
+      )
+      semanticError.value = ''
+      return semanticResults.value
+    } catch (error) {
+      console.warn('Semantic search failed:', error)
+      semanticError.value = unavailableReason(error)
+      return search(input)
+    }
+  }
+
+  // Past conversations about the same things as the active one
+  const findSimilarConversations = async () => {
+    similar.value = []
+    if (!embeddingModel()) {
+      semanticError.value = 'Pick an embedding model in Retrieval settings to search by meaning.'
+      return similar.value
+    }
+
+    try {
+      await refreshMessageVectors()
+      const conversations = new Map(conversationsStore.conversations.map((c) => [c.id, c]))
+      similar.value = similarConversations(
+        conversationsStore.activeConversationId,
+        messageVectors.values(),
+      ).flatMap(({ conversationId, score }) => {
+        const conversation = conversations.get(conversationId)
+        return conversation ? [{ conversation, score }] : []
+      })
+      semanticError.value = ''
+    } catch (error) {
+      console.warn('Finding similar conversations failed:', error)
+      semanticError.value = unavailableReason(error)
+    }
+    return similar.value
+  }
+
+  const clearSearch = () => {
+    query.value = ''
+    results.value = []
+    semanticResults.value = []
+  }
+
+  // Open the conversation and branch holding the message and flash it in the list. Not while
+  // a reply streams, that would stop it or move it out of sight.
+  const revealMessage = (conversationId: string, messageId: number) => {
+    if (messagesStore.isStreaming) return
+    if (conversationsStore.activeConversationId !== conversationId) {
+      conversationsStore.switchConversation(conversationId)
+    }
+    messagesStore.selectBranch(messageId)
+
+    highlightedMessageId.value = messageId
+    clearTimeout(highlightTimer)
+    highlightTimer = setTimeout(() => {
+      highlightedMessageId.value = null
+    }, APP_CONFIG.UI.SEARCH_HIGHLIGHT_DURATION)
+  }
+
+  return {
+    // State
+    query,
+    results,
+    highlightedMessageId,
+    semanticResults,
+    similar,
+    isEmbedding,
+    semanticError,
+
+    // Actions
+    search,
+    searchByMeaning,
+    findSimilarConversations,
+    clearSearch,
+    revealMessage,
+  }
+})
@@ -0,0 +1,72 @@
+import { defineStore } from 'pinia'
+import { ref, computed, shallowRef } from 'vue'
+import type { ToolCall } from '@/types/api'
+import { StatePersistence } from '@/utils/persistence'
+import { ToolRegistry, createBuiltinTools, type LocalTool } from '@/utils/tools'
+import { useContextsStore } from './contexts'
+
+export const useToolsStore = defineStore('tools', () => {
+  const contextsStore = useContextsStore()
+  const registry = new ToolRegistry()
+  createBuiltinTools(() => contextsStore.savedContexts).forEach((tool) => registry.register(tool))
+
+  // State
+  const tools = shallowRef<LocalTool[]>(registry.list())
+  const enabledTools = ref<string[]>([])
+
+  // Getters
+  // What chat requests offer the model, nothing when no tool is switched on
+  const toolDefinitions = computed(() =>
+    registry.definitions(
+      enabledTools.value.filter((name) => tools.value.some((t) => t.name === name)),
+    ),
+  )
+
+  // Actions
+  const registerTool = (tool: LocalTool) => {
+    registry.register(tool)
+    tools.value = registry.list()
+  }
+
+  const setToolEnabled = (name: string, enabled: boolean) => {
+    const others = enabledTools.value.filter((n) => n !== name)
+    enabledTools.value = enabled ? [...others, name] : others
+    saveEnabledToolsToStorage()
+  }
+
+  const runToolCall = (call: ToolCall) => registry.run(call)
+
+  // Persistence
+  const saveEnabledToolsToStorage = () => {
+    try {
+      StatePersistence.saveEnabledTools(enabledTools.value)
+    } catch (error) {
+      console.warn('Failed to save enabled tools to storage:', error)
+    }
+  }
+
+  const loadEnabledToolsFromStorage = () => {
+    try {
+      enabledTools.value = StatePersistence.loadEnabledTools()
+    } catch (error) {
+      console.warn('Failed to load enabled tools from storage:', error)
+    }
+  }
+
+  return {
+    // State
+    tools,
+    enabledTools,
+
+    // Getters
+    toolDefinitions,
+
+    // Actions
+    registerTool,
+    setToolEnabled,
+    runToolCall,
+
+    // Persistence
+    loadEnabledToolsFromStorage,
+  }
+})
@@ -1,15 +1,77 @@
 // API Service Types
-export interface ApiRequest {
-  model: string
-  messages: ApiMessage[]
-  stream?: boolean
+
+// Sampling parameters, names follow the OpenAI-compatible request body
+export interface GenerationParams {
   temperature?: number
+  top_p?: number
+  top_k?: number
   max_tokens?: number
+  stop?: string[]
+  presence_penalty?: number
+  frequency_penalty?: number
+  repeat_penalty?: number
+  seed?: number
+}
+
+export interface ApiRequest extends GenerationParams {
+  model: string
+  messages: ApiRequestMessage[]
+  stream?: boolean
+  // Asks for a final chunk with the token counts, streamed replies have none otherwise
+  stream_options?: { include_usage: boolean }
+  tools?: ToolDefinition[]
 }
 
 export interface ApiMessage {
-  role: 'system' | 'user' | 'assistant' | 'developer'
+  role: 'system' | 'user' | 'assistant' | 'developer' | 'tool'
   content: string
+  // Calls the assistant asked for, each answered by a tool message with its id
+  tool_calls?: ToolCall[]
+  tool_call_id?: string
+  // Data URIs of images sent along with the text, for vision models
+  images?: string[]
+}
+
+// OpenAI-style content parts, how a message carries images next to its text
+export type ApiContentPart =
+  | { type: 'text'; text: string }
+  | { type: 'image_url'; image_url: { url: string } }
+
+// A message the way the chat completions endpoint takes it
+export interface ApiRequestMessage extends Omit<ApiMessage, 'content' | 'images'> {
+  content: string | ApiContentPart[]
+}
+
+// A function the model may call, its parameters described with JSON Schema
+export interface ToolDefinition {
+  type: 'function'
+  function: {
+    name: string
+    description: string
+    parameters: Record<string, unknown>
+  }
+}
+
+// A call the model asked for, arguments is the JSON text it wrote
+export interface ToolCall {
+  id: string
+  type: 'function'
+  function: {
+    name: string
+    arguments: string
+  }
+}
+
+// A piece of a streamed tool call. The first piece of a call has its id and name, the
+// arguments arrive spread over the ones after it, all with the same index.
+export interface ToolCallDelta {
+  index: number
+  id?: string
+  type?: 'function'
+  function?: {
+    name?: string
+    arguments?: string
+  }
 }
 
 export interface ApiResponse {
@@ -19,12 +81,40 @@ export interface ApiResponse {
   model?: string
   choices?: Array<{
     index: number
-    delta: {
+    delta?: {
       content?: string
       role?: string
+      // Thinking of reasoning models, servers disagree on the name
+      reasoning_content?: string
+      reasoning?: string
+      tool_calls?: ToolCallDelta[]
     }
-    finish_reason?: string
+    // Non-streaming responses carry the whole message instead of deltas
+    message?: {
+      content?: string
+      role?: string
+    }
+    finish_reason?: string | null
   }>
+  usage?: {
+    prompt_tokens?: number
+    completion_tokens?: number
+    total_tokens?: number
+  }
+  error?: {
+    message: string
+    type: string
+  }
+}
+
+// OpenAI-style /embeddings, one vector per input in input order
+export interface EmbeddingRequest {
+  model: string
+  input: string[]
+}
+
+export interface EmbeddingResponse {
+  data?: Array<{ index: number; embedding: number[] }>
   error?: {
     message: string
     type: string
@@ -42,13 +132,47 @@ export interface ApiModel {
 }
 
 // Service Provider Types
-export type ServiceProvider = 'lmstudio' | 'huggingface'
+export type ServiceProvider = 'lmstudio' | 'huggingface' | 'ollama' | 'openai'
+
+// Servers the chat can talk to, Hugging Face is only used to browse models
+export type ChatProvider = Exclude<ServiceProvider, 'huggingface'>
+
+// Secrets for a server, kept out of exported state
+export interface ServerCredentials {
+  apiKey?: string
+  headers?: Record<string, string>
+}
+
+// A named server to switch between, its API key stays in the server credentials
+export interface ServerProfile {
+  id: string
+  name: string
+  provider: ChatProvider
+  baseUrl: string
+  defaultModel?: string
+  defaultParams?: GenerationParams
+  // Where to send the chat when this server is down, the same model is used if none is set
+  fallbackProfileId?: string
+  fallbackModel?: string
+}
+
+// Result of the last connection check for a profile
+export type ServerHealth = 'unknown' | 'checking' | 'online' | 'offline'
 
 export interface ServiceConfig {
   baseUrl: string
   provider: ServiceProvider
   timeout?: number
+  // Extra attempts for a chat request that failed with a connection error, 429 or 5xx
   retries?: number
+  credentials?: ServerCredentials
+}
+
+// A chat request failed and is about to be sent again. attempt counts from 1.
+export interface RetryEvent {
+  attempt: number
+  delayMs: number
+  error: Error
 }
 
 // Request/Response Interceptor Types
@@ -71,8 +195,23 @@ export interface RequestConfig {
 }
 
 // Stream Handler Types
+// Token counts the server reported for one reply
+export interface TokenUsage {
+  promptTokens?: number
+  completionTokens?: number
+}
+
+// How a streamed reply ended, as far as the server told us
+export interface StreamResult {
+  finishReason?: string
+  usage?: TokenUsage
+  // Functions the model wants called before it answers
+  toolCalls?: ToolCall[]
+}
+
 export interface StreamHandler {
   onChunk: (chunk: string) => void
+  onReasoning?: (chunk: string) => void
   onError?: (error: string) => void
   onComplete?: () => void
 }
@@ -86,7 +225,28 @@ export interface ApiService {
     onError?: (error: string) => void,
     abortController?: AbortController,
     chatHistory?: ApiMessage[],
-  ): Promise<void>
+    params?: GenerationParams,
+    onReasoning?: (chunk: string) => void,
+  ): Promise<StreamResult>
+
+  streamChat(
+    messages: ApiMessage[],
+    model: string,
+    onChunk: (chunk: string) => void,
+    onError?: (error: string) => void,
+    abortController?: AbortController,
+    params?: GenerationParams,
+    onReasoning?: (chunk: string) => void,
+  ): Promise<StreamResult>
+
+  // Called before each retry of a failed chat request
+  onRetry?: (event: RetryEvent) => void
+
+  // Functions the model may call, sent with every chat request
+  tools?: ToolDefinition[]
+
+  // One vector per text, for retrieval over saved contexts
+  embed(texts: string[], model: string, abortController?: AbortController): Promise<number[][]>
 
   getAvailableModels(): Promise<string[]>
   testConnection(): Promise<boolean>
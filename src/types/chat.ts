@@ -1,9 +1,78 @@
+import type { ApiContentPart, GenerationParams, ToolDefinition } from './api'
+
 export interface Message {
   id: number
+  // Message this one replies to, null for a root. Messages saved before branching
+  // existed have no parent and follow the previous message in the list.
+  parentId?: number | null
   role: 'user' | 'assistant' | 'developer'
   content: string
   timestamp?: Date
   context?: ContextItem[]
+  // Model that wrote an assistant reply
+  model?: string
+  // What a reasoning model thought before answering, never sent back to it
+  reasoning?: string
+  reasoningMs?: number
+  // Tools the model called while writing the reply, in order
+  toolCalls?: ToolCallRecord[]
+  // Pictures attached to a user message, already downscaled
+  images?: ImageAttachment[]
+  // Passages of saved contexts the reply was given, numbered as the model saw them
+  citations?: Citation[]
+  // Where and how an assistant reply was generated
+  generation?: GenerationInfo
+  // Every request it took to get this reply, only kept when the first one failed
+  attempts?: RequestAttempt[]
+}
+
+// Recorded when a reply finishes. Token counts come from the server when it reports them.
+export interface GenerationInfo {
+  endpoint: string
+  params: GenerationParams
+  // stop, length, abort, error, or whatever else the server reported
+  finishReason?: string
+  promptTokens?: number
+  completionTokens?: number
+  timeToFirstTokenMs?: number
+  tokensPerSecond?: number
+}
+
+// One request for a reply: the server and model it went to and why it failed, if it did
+export interface RequestAttempt {
+  server: string
+  model: string
+  error?: string
+}
+
+// Where a message sits among the alternative versions that reply to the same parent
+export interface BranchPosition {
+  index: number
+  count: number
+}
+
+// A tool call the model asked for and what came of it. Pending calls wait for the user to
+// approve them, denied ones never ran.
+export interface ToolCallRecord {
+  name: string
+  arguments: string
+  status: 'pending' | 'denied' | 'done' | 'error'
+  result?: string
+}
+
+export interface ImageAttachment {
+  name: string
+  // data: URI of the downscaled image, sent as is to vision models
+  dataUrl: string
+  width: number
+  height: number
+}
+
+export interface Citation {
+  contextId: string
+  title: string
+  text: string
+  score: number
 }
 
 export interface ContextItem {
@@ -12,6 +81,50 @@ export interface ContextItem {
   title: string
   content: string
   language?: ProgrammingLanguage
+  // Name of the folder or archive the context was imported with
+  group?: string
+}
+
+export interface Conversation {
+  id: string
+  title: string
+  model: string
+  activeContextIds: string[]
+  params?: GenerationParams
+  systemPrompt?: string
+  personaId?: string
+  activeLeafId?: number
+  autoSummarize?: boolean
+  summary?: ConversationSummary
+  // Source and id in the tool the conversation was imported from
+  importedFrom?: string
+  // Server profile the conversation was last used with
+  profileId?: string
+  createdAt: Date
+  updatedAt: Date
+  messageCount: number
+}
+
+// Stands in for the start of the branch up to and including throughId once it no
+// longer fits the context window
+export interface ConversationSummary {
+  content: string
+  throughId: number
+}
+
+export interface Persona {
+  id: string
+  name: string
+  systemPrompt: string
+  params?: GenerationParams
+  model?: string
+}
+
+// Search active contexts for the passages relevant to each prompt instead of sending them whole
+export interface RetrievalSettings {
+  enabled: boolean
+  embeddingModel: string
+  topK: number
 }
 
 export type ContextType = 'code' | 'file' | 'text'
@@ -41,22 +154,88 @@ export interface ChatState {
   error?: string
 }
 
+// Ollama native API, /api/chat streams one of these per line (NDJSON)
+export interface OllamaMessage {
+  role: 'system' | 'user' | 'assistant' | 'tool'
+  content: string
+  // Reasoning of thinking models, kept apart from content when the request asks for it
+  thinking?: string
+  tool_calls?: OllamaToolCall[]
+  // Base64 image data without the data: prefix
+  images?: string[]
+}
+
+// Ollama sends tool calls whole, with the arguments already parsed and without an id
+export interface OllamaToolCall {
+  function: {
+    name: string
+    arguments: Record<string, unknown>
+  }
+}
+
 export interface OllamaResponse {
-  response?: string
+  model?: string
+  created_at?: string
+  message?: OllamaMessage
   done?: boolean
+  done_reason?: string
+  // Token counts, sent with the final done message
+  prompt_eval_count?: number
+  eval_count?: number
+  error?: string
+}
+
+// Sampling settings go in options, max_tokens is called num_predict
+export interface OllamaOptions {
+  temperature?: number
+  top_p?: number
+  top_k?: number
+  num_predict?: number
+  presence_penalty?: number
+  frequency_penalty?: number
+  repeat_penalty?: number
+  seed?: number
+  stop?: string[]
+}
+
+export interface OllamaEmbedRequest {
+  model: string
+  input: string[]
+}
+
+export interface OllamaEmbedResponse {
+  embeddings?: number[][]
   error?: string
 }
 
 export interface OllamaRequest {
   model: string
-  prompt: string
+  messages: OllamaMessage[]
   stream: boolean
+  options?: OllamaOptions
+  tools?: ToolDefinition[]
+}
+
+export interface OllamaModel {
+  name: string
+  model: string
+  size?: number
+  modified_at?: string
+  details?: {
+    family?: string
+    parameter_size?: string
+    quantization_level?: string
+  }
+}
+
+export interface OllamaTagsResponse {
+  models: OllamaModel[]
 }
 
 // LM Studio specific types
 export interface LMStudioMessage {
   role: 'system' | 'user' | 'assistant' | 'developer'
-  content: string
+  content: string | ApiContentPart[]
 }
 
 export interface LMStudioRequest {
@@ -95,3 +274,12 @@ export interface LMStudioModel {
   root: string
   parent?: string
 }
+
+// Outcome of one arena round. winner is null for a tie.
+export interface ArenaVote {
+  id: string
+  models: string[]
+  winner: string | null
+  prompt: string
+  timestamp: Date
+}
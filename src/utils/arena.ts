@@ -0,0 +1,61 @@
+import type { ArenaVote } from '@/types/chat'
+import { ARENA_CONFIG } from '@/constants'
+
+export interface LeaderboardEntry {
+  model: string
+  rating: number
+  wins: number
+  losses: number
+  ties: number
+  rounds: number
+}
+
+// Chance that a player rated a beats one rated b
+const expectedScore = (a: number, b: number) => 1 / (1 + 10 ** ((b - a) / 400))
+
+// Every vote counts as a match between each pair of models in the round: the winner beats
+// each of the others, the others don't play each other, and a tie is a draw for every
+// pair. Ratings are replayed oldest vote first, so the order of votes matters.
+export function computeLeaderboard(votes: ArenaVote[]): LeaderboardEntry[] {
+  const entries = new Map<string, LeaderboardEntry>()
+  const entryFor = (model: string) => {
+    let entry = entries.get(model)
+    if (!entry) {
+      entry = { model, rating: ARENA_CONFIG.INITIAL_RATING, wins: 0, losses: 0, ties: 0, rounds: 0 }
+      entries.set(model, entry)
+    }
+    return entry
+  }
+
+  const play = (a: LeaderboardEntry, b: LeaderboardEntry, scoreA: number) => {
+    const change = ARENA_CONFIG.K_FACTOR * (scoreA - expectedScore(a.rating, b.rating))
+    a.rating += change
+    b.rating -= change
+  }
+
+  ;[...votes]
+    .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime())
+    .forEach((vote) => {
+      const players = [...new Set(vote.models)].map(entryFor)
+      players.forEach((player) => player.rounds++)
+
+      if (vote.winner === null) {
+        players.forEach((player) => player.ties++)
+        players.forEach((a, i) => players.slice(i + 1).forEach((b) => play(a, b, 0.5)))
+        return
+      }
+
+      const winner = entryFor(vote.winner)
+      winner.wins++
+      players
+        .filter((player) => player !== winner)
+        .forEach((loser) => {
+          loser.losses++
+          play(winner, loser, 1)
+        })
+    })
+
+  return [...entries.values()]
+    .map((entry) => ({ ...entry, rating: Math.round(entry.rating) }))
+    .sort((a, b) => b.rating - a.rating || b.wins - a.wins)
+}
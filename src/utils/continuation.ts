@@ -0,0 +1,14 @@
+import type { ApiMessage, ChatProvider } from '@/types/api'
+import { CHAT_PROVIDERS, CONTINUE_INSTRUCTION } from '@/constants'
+
+// Messages that get the model to carry on with partial, a reply cut off by the token limit.
+// Servers that support it continue the text as a prefill, the rest are asked to go on.
+export function continuationMessages(
+  history: ApiMessage[],
+  partial: string,
+  provider: ChatProvider,
+): ApiMessage[] {
+  const prefill = CHAT_PROVIDERS.find((p) => p.value === provider)?.prefill ?? false
+  const messages: ApiMessage[] = [...history, { role: 'assistant', content: partial }]
+  return prefill ? messages : [...messages, { role: 'user', content: CONTINUE_INSTRUCTION }]
+}
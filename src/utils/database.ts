@@ -0,0 +1,118 @@
+import type { Message } from '@/types/chat'
+
+export const DB_NAME = 'yokai-chat'
+
+export const DB_STORES = {
+  SETTINGS: 'settings',
+  MESSAGES: 'messages',
+  EMBEDDINGS: 'embeddings',
+  MESSAGE_EMBEDDINGS: 'messageEmbeddings',
+} as const
+
+// One record per message so streaming updates only rewrite the message being streamed
+export interface MessageRecord {
+  conversationId: string
+  id: number
+  order: number
+  message: Message
+}
+
+// A context cut into chunks and embedded with one model. hash covers the context's text
+// and the chunking, so a record that no longer matches is embedded again.
+export interface EmbeddingRecord {
+  contextId: string
+  model: string
+  hash: string
+  chunks: Array<{ text: string; start: number; vector: Float32Array }>
+}
+
+// One message embedded with one model for semantic search. hash covers the text that was
+// embedded, so an edited message is embedded again.
+export interface MessageEmbeddingRecord {
+  conversationId: string
+  messageId: number
+  model: string
+  hash: string
+  vector: Float32Array
+}
+
+// Schema steps, indexed by the version they upgrade from. Never edit a step that has
+// shipped, append a new one instead so existing databases upgrade in order.
+type SchemaMigration = (db: IDBDatabase, transaction: IDBTransaction) => void
+
+const SCHEMA_MIGRATIONS: SchemaMigration[] = [
+  // v1: raw key/value settings plus per-conversation message records
+  (db) => {
+    db.createObjectStore(DB_STORES.SETTINGS)
+    const messages = db.createObjectStore(DB_STORES.MESSAGES, {
+      keyPath: ['conversationId', 'id'],
+    })
+    messages.createIndex('conversationId', 'conversationId')
+  },
+  // v2: embedded context chunks for retrieval, never loaded up front
+  (db) => {
+    const embeddings = db.createObjectStore(DB_STORES.EMBEDDINGS, {
+      keyPath: ['contextId', 'model'],
+    })
+    embeddings.createIndex('contextId', 'contextId')
+  },
+  // v3: embedded messages for semantic search, loaded per model
+  (db) => {
+    const embeddings = db.createObjectStore(DB_STORES.MESSAGE_EMBEDDINGS, {
+      keyPath: ['conversationId', 'messageId', 'model'],
+    })
+    embeddings.createIndex('model', 'model')
+  },
+]
+
+export const DB_VERSION = SCHEMA_MIGRATIONS.length
+
+export function isIndexedDbAvailable(): boolean {
+  try {
+    return typeof indexedDB !== 'undefined' && indexedDB !== null
+  } catch {
+    return false
+  }
+}
+
+export function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+export function transactionDone(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve()
+    transaction.onerror = () => reject(transaction.error)
+    transaction.onabort = () => reject(transaction.error ?? new Error('Transaction aborted'))
+  })
+}
+
+export function openDatabase(
+  onFirstCreate?: (transaction: IDBTransaction) => void,
+): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION)
+
+    request.onupgradeneeded = (event) => {
+      const db = request.result
+      const transaction = request.transaction
+      if (!transaction) return
+
+      for (let version = event.oldVersion; version < DB_VERSION; version++) {
+        SCHEMA_MIGRATIONS[version](db, transaction)
+      }
+
+      // Seeding happens inside the upgrade transaction so it runs exactly once
+      if (event.oldVersion === 0) {
+        onFirstCreate?.(transaction)
+      }
+    }
+
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+    request.onblocked = () => reject(new Error('Database upgrade blocked by another tab'))
+  })
+}
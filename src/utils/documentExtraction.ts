@@ -0,0 +1,309 @@
+// Turns uploaded documents into text a model can read. Reading them as text would give
+// binary noise for PDFs and Office files and bury the content of HTML and notebooks.
+import { DOCUMENT_CONFIG } from '@/constants'
+import { extractPdfPages } from './pdf'
+import { extractDocx, extractXlsxSheets } from './officeDocuments'
+import { describeTable, detectDelimiter, markdownTable, parseDelimited } from './tables'
+
+export type DocumentKind = 'pdf' | 'docx' | 'xlsx' | 'html' | 'csv' | 'ipynb'
+
+// A page of a PDF or a sheet of a workbook, the parts a user can pick from
+export interface DocumentSection {
+  title: string
+  content: string
+}
+
+export interface ExtractedDocument {
+  kind: DocumentKind
+  sections: DocumentSection[]
+}
+
+const DOCUMENT_EXTENSIONS: Record<string, DocumentKind> = {
+  pdf: 'pdf',
+  docx: 'docx',
+  xlsx: 'xlsx',
+  html: 'html',
+  htm: 'html',
+  xhtml: 'html',
+  csv: 'csv',
+  tsv: 'csv',
+  ipynb: 'ipynb',
+}
+
+// Undefined for files that are read as plain text
+export const documentKind = (filename: string): DocumentKind | undefined =>
+  DOCUMENT_EXTENSIONS[filename.split('.').pop()?.toLowerCase() ?? '']
+
+const SKIPPED_ELEMENTS = 'script, style, noscript, template, svg, iframe, canvas, form, nav'
+
+// Markdown for the element's children, text whitespace collapsed the way a browser would
+function childrenToMarkdown(element: Element): string {
+  return Array.from(element.childNodes).map(nodeToMarkdown).join('')
+}
+
+const block = (text: string) => (text.trim() ? `\n\n${text.trim()}\n\n` : '')
+
+function listToMarkdown(list: Element): string {
+  const ordered = list.localName === 'ol'
+  const items = Array.from(list.children)
+    .filter((child) => child.localName === 'li')
+    .map((item, index) => {
+      const marker = ordered ? `${index + 1}.` : '-'
+      // Nested lists and paragraphs inside an item stay indented under it
+      const content = childrenToMarkdown(item)
+        .trim()
+        .replace(/\n{2,}/g, '\n')
+        .replace(/\n/g, `\n${' '.repeat(marker.length + 1)}`)
+      return `${marker} ${content}`
+    })
+  return `\n\n${items.join('\n')}\n\n`
+}
+
+function tableToMarkdown(table: Element): string {
+  const rows = Array.from(table.querySelectorAll('tr')).map((row) =>
+    Array.from(row.children)
+      .filter((cell) => cell.localName === 'td' || cell.localName === 'th')
+      .map((cell) => (cell.textContent ?? '').replace(/\s+/g, ' ').trim()),
+  )
+  return block(markdownTable(rows.filter((row) => row.length > 0)))
+}
+
+function nodeToMarkdown(node: Node): string {
+  if (node.nodeType === Node.TEXT_NODE) return (node.textContent ?? '').replace(/\s+/g, ' ')
+  if (node.nodeType !== Node.ELEMENT_NODE) return ''
+
+  const element = node as Element
+  const name = element.localName
+  const heading = /^h([1-6])$/.exec(name)
+  if (heading) {
+    return block(`${'#'.repeat(Number(heading[1]))} ${childrenToMarkdown(element).trim()}`)
+  }
+
+  switch (name) {
+    case 'br':
+      return '\n'
+    case 'hr':
+      return '\n\n---\n\n'
+    case 'strong':
+    case 'b': {
+      const text = childrenToMarkdown(element).trim()
+      return text ? `**${text}**` : ''
+    }
+    case 'em':
+    case 'i': {
+      const text = childrenToMarkdown(element).trim()
+      return text ? `_${text}_` : ''
+    }
+    case 'code':
+      return `\`${element.textContent ?? ''}\``
+    case 'pre': {
+      const language = /language-(\w+)/.exec(element.querySelector('code')?.className ?? '')
+      return `\n\n\`\`\`${language?.[1] ?? ''}\n${(element.textContent ?? '').replace(/\n$/, '')}\n\`\`\`\n\n`
+    }
+    case 'a': {
+      const text = childrenToMarkdown(element).trim()
+      const href = element.getAttribute('href') ?? ''
+      return text && /^(https?:|mailto:|\/|#)/.test(href) && href !== '#'
+        ? `[${text}](${href})`
+        : text
+    }
+    case 'img': {
+      const alt = element.getAttribute('alt')
+      return alt ? `![${alt}](${element.getAttribute('src') ?? ''})` : ''
+    }
+    case 'ul':
+    case 'ol':
+      return listToMarkdown(element)
+    case 'blockquote':
+      return block(
+        childrenToMarkdown(element)
+          .trim()
+          .replace(/\n{3,}/g, '\n\n')
+          .replace(/^/gm, '> '),
+      )
+    case 'table':
+      return tableToMarkdown(element)
+    case 'p':
+    case 'div':
+    case 'section':
+    case 'article':
+    case 'header':
+    case 'footer':
+    case 'main':
+    case 'aside':
+    case 'figure':
+    case 'figcaption':
+    case 'li':
+    case 'dl':
+    case 'dt':
+    case 'dd':
+      return block(childrenToMarkdown(element))
+    default:
+      return childrenToMarkdown(element)
+  }
+}
+
+// Blank lines squeezed and the spaces collapsed text leaves at line starts removed,
+// except inside code blocks
+const tidyMarkdown = (markdown: string) =>
+  markdown
+    .split(/(^```[^\n]*\n[\s\S]*?\n```$)/m)
+    .map((part, index) =>
+      index % 2 === 1
+        ? part
+        : part
+            .replace(/[ \t]+$/gm, '')
+            .replace(/^ (?=\S)/gm, '')
+            .replace(/\n{3,}/g, '\n\n'),
+    )
+    .join('')
+    .trim()
+
+// The readable part of a page as markdown. Scripts, styles, navigation and forms are dropped,
+// and only the main content is kept when the page marks it.
+export function htmlToMarkdown(html: string): string {
+  const document = new DOMParser().parseFromString(html, 'text/html')
+  document.querySelectorAll(SKIPPED_ELEMENTS).forEach((element) => element.remove())
+
+  const root = document.querySelector('main, article') ?? document.body
+  const markdown = tidyMarkdown(childrenToMarkdown(root))
+  const title = document.title.trim()
+  return title && !markdown.startsWith('# ') ? `# ${title}\n\n${markdown}` : markdown
+}
+
+interface NotebookCell {
+  cell_type: string
+  source: string | string[]
+  outputs?: Array<{
+    output_type: string
+    text?: string | string[]
+    data?: Record<string, string | string[]>
+    ename?: string
+    evalue?: string
+  }>
+}
+
+const joinSource = (source: string | string[] | undefined) =>
+  Array.isArray(source) ? source.join('') : (source ?? '')
+
+const truncate = (text: string, limit: number) =>
+  text.length > limit ? `${text.slice(0, limit)}\n… (truncated)` : text
+
+// Markdown cells as they are, code cells fenced in the kernel's language with their text
+// output after them. Images and other rich outputs are left out.
+export function notebookToMarkdown(json: string): string {
+  let notebook: {
+    cells?: NotebookCell[]
+    metadata?: { language_info?: { name?: string }; kernelspec?: { language?: string } }
+  }
+  try {
+    notebook = JSON.parse(json)
+  } catch {
+    throw new Error('Not a valid notebook')
+  }
+  if (!Array.isArray(notebook.cells)) throw new Error('Not a valid notebook')
+
+  const language =
+    notebook.metadata?.language_info?.name ?? notebook.metadata?.kernelspec?.language ?? 'python'
+
+  return notebook.cells
+    .map((cell) => {
+      const source = joinSource(cell.source).trim()
+      if (cell.cell_type !== 'code') return source
+      if (source === '') return ''
+
+      const output = (cell.outputs ?? [])
+        .map((item) => {
+          if (item.output_type === 'stream') return joinSource(item.text)
+          if (item.output_type === 'error') return `${item.ename}: ${item.evalue}`
+          return joinSource(item.data?.['text/plain'])
+        })
+        .join('')
+        .trim()
+
+      const code = `\`\`\`${language}\n${source}\n\`\`\``
+      return output
+        ? `${code}\n\n\`\`\`text\n${truncate(output, DOCUMENT_CONFIG.NOTEBOOK_OUTPUT_CHARS)}\n\`\`\``
+        : code
+    })
+    .filter(Boolean)
+    .join('\n\n')
+}
+
+async function extractSections(
+  kind: DocumentKind,
+  filename: string,
+  data: Uint8Array,
+): Promise<DocumentSection[]> {
+  const text = () => new TextDecoder().decode(data)
+
+  switch (kind) {
+    case 'pdf':
+      return (await extractPdfPages(data)).map((content, index) => ({
+        title: `Page ${index + 1}`,
+        content,
+      }))
+    case 'xlsx':
+      return (await extractXlsxSheets(data)).map((sheet) => ({
+        title: sheet.name,
+        content: describeTable(sheet.rows),
+      }))
+    case 'docx':
+      return [{ title: filename, content: await extractDocx(data) }]
+    case 'html':
+      return [{ title: filename, content: htmlToMarkdown(text()) }]
+    case 'csv': {
+      const source = text()
+      const rows = parseDelimited(source, detectDelimiter(source, filename))
+      return [{ title: filename, content: describeTable(rows) }]
+    }
+    case 'ipynb':
+      return [{ title: filename, content: notebookToMarkdown(text()) }]
+  }
+}
+
+// The document's text, split into pages or sheets where it has them
+export async function extractDocument(
+  filename: string,
+  data: Uint8Array,
+): Promise<ExtractedDocument> {
+  const kind = documentKind(filename)
+  if (!kind) throw new Error(`${filename} is not a supported document`)
+
+  const sections = await extractSections(kind, filename, data)
+  if (sections.every((section) => section.content.trim() === '')) {
+    throw new Error(
+      kind === 'pdf'
+        ? `No text found in ${filename}. Scanned PDFs need OCR first.`
+        : `No text found in ${filename}`,
+    )
+  }
+  return { kind, sections }
+}
+
+// The chosen sections as one text, each under its title when there is more than one
+export function joinSections(document: ExtractedDocument, selected?: number[]): string {
+  if (document.sections.length === 1) return document.sections[0].content
+
+  return (selected ?? document.sections.map((_, index) => index))
+    .map((index) => document.sections[index])
+    .filter((section) => section && section.content.trim() !== '')
+    .map((section) => `## ${section.title}\n\n${section.content}`)
+    .join('\n\n')
+}
+
+// Zero-based indexes for a selection like "1-3, 5". Numbers outside 1..count are ignored
+// and an empty selection means everything.
+export function parseSectionSelection(selection: string, count: number): number[] {
+  if (selection.trim() === '') return Array.from({ length: count }, (_, index) => index)
+
+  const indexes = new Set<number>()
+  for (const part of selection.split(',')) {
+    const range = /^\s*(\d+)\s*(?:-\s*(\d+)\s*)?$/.exec(part)
+    if (!range) continue
+    const from = Math.max(Number(range[1]), 1)
+    const to = Math.min(Number(range[2] ?? range[1]), count)
+    for (let page = from; page <= to; page++) indexes.add(page - 1)
+  }
+  return [...indexes].sort((a, b) => a - b)
+}
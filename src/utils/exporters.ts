@@ -0,0 +1,245 @@
+import type { Conversation, Message } from '@/types/chat'
+import type { ApiMessage } from '@/types/api'
+import { APP_CONFIG, EXPORT_FORMATS } from '@/constants'
+import { EXPORT_VERSION } from './persistence'
+import { linkMessages, pathTo } from './messageTree'
+import { extractFilename, sanitizeFilename } from './string'
+import { describeGeneration } from './generationStats'
+
+export type ExportFormat = (typeof EXPORT_FORMATS)[number]['value']
+
+// A conversation together with all of its stored messages, every branch included
+export interface ConversationExport {
+  conversation: Conversation
+  messages: Message[]
+}
+
+export interface ExportFile {
+  filename: string
+  content: string
+  mimeType: string
+}
+
+const ROLE_HEADINGS: Record<Message['role'], string> = {
+  user: '🧑 User',
+  assistant: '🤖 Assistant',
+  developer: '📎 Context',
+}
+
+// The branch the user was looking at, or the newest message when none was recorded
+export const activeBranch = ({ conversation, messages }: ConversationExport): Message[] => {
+  const linked = linkMessages(messages)
+  const leafId = linked.some((m) => m.id === conversation.activeLeafId)
+    ? conversation.activeLeafId
+    : linked[linked.length - 1]?.id
+  return pathTo(linked, leafId ?? null)
+}
+
+const formatDate = (date?: Date) => (date ? date.toISOString().replace('T', ' ').slice(0, 16) : '')
+
+// Fence with more backticks than the content uses so embedded code blocks survive
+const fence = (content: string) => {
+  const longestRun = Math.max(0, ...(content.match(/`+/g) ?? []).map((run) => run.length))
+  const ticks = '`'.repeat(Math.max(3, longestRun + 1))
+  return `${ticks}\n${content}\n${ticks}`
+}
+
+const describeParams = (conversation: Conversation) =>
+  Object.entries(conversation.params ?? {})
+    .map(([key, value]) => `${key}=${Array.isArray(value) ? JSON.stringify(value) : value}`)
+    .join(', ')
+
+export const toMarkdown = (items: ConversationExport[]): string =>
+  items
+    .map((item) => {
+      const { conversation } = item
+      const params = describeParams(conversation)
+      const lines = [
+        `# ${conversation.title}`,
+        '',
+        `- Model: ${conversation.model || 'unknown'}`,
+        `- Created: ${formatDate(conversation.createdAt)}`,
+        `- Updated: ${formatDate(conversation.updatedAt)}`,
+        ...(params ? [`- Parameters: ${params}`] : []),
+      ]
+
+      if (conversation.systemPrompt) {
+        lines.push('', '## System prompt', '', fence(conversation.systemPrompt))
+      }
+
+      activeBranch(item).forEach((message) => {
+        const time = formatDate(message.timestamp)
+        lines.push('', `### ${ROLE_HEADINGS[message.role]}${time ? ` · ${time}` : ''}`, '')
+        lines.push(message.role === 'developer' ? fence(message.content) : message.content)
+
+        const generation = message.generation ? describeGeneration(message) : []
+        if (generation.length > 0) {
+          lines.push('', `_${generation.join(' · ')}_`)
+        }
+      })
+
+      return lines.join('\n')
+    })
+    .join('\n\n---\n\n')
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;')
+
+const HTML_STYLES = `
+  body { font-family: system-ui, sans-serif; max-width: 760px; margin: 2rem auto; padding: 0 1rem; color: #1f2328; line-height: 1.6; }
+  header { border-bottom: 1px solid #d0d7de; margin-bottom: 1.5rem; }
+  .meta { color: #59636e; font-size: 0.875rem; }
+  .message { border: 1px solid #d0d7de; border-radius: 8px; padding: 0.75rem 1rem; margin: 1rem 0; }
+  .message-user { background: #f6f8fa; }
+  .message-developer { font-size: 0.875rem; color: #59636e; }
+  .role { font-weight: 600; font-size: 0.875rem; }
+  .plain { white-space: pre-wrap; }
+  pre { background: #f6f8fa; padding: 0.75rem; border-radius: 6px; overflow-x: auto; }
+  code { font-family: ui-monospace, monospace; }
+  article + article { margin-top: 3rem; }
+`
+
+// Assistant replies are rendered as markdown like in the app, everything else stays plain text
+export const toHtml = (items: ConversationExport[], renderMarkdown: (md: string) => string) => {
+  const articles = items.map((item) => {
+    const { conversation } = item
+    const params = describeParams(conversation)
+    const meta = [
+      `Model: ${conversation.model || 'unknown'}`,
+      `Created: ${formatDate(conversation.createdAt)}`,
+      ...(params ? [`Parameters: ${params}`] : []),
+    ]
+
+    const messages = activeBranch(item).map((message) => {
+      const body =
+        message.role === 'assistant'
+          ? renderMarkdown(message.content)
+          : `<div class="plain">${escapeHtml(
+              message.role === 'developer' ? extractFilename(message.content) : message.content,
+            )}</div>`
+      const time = formatDate(message.timestamp)
+      const generation = message.generation ? describeGeneration(message) : []
+      const footer =
+        generation.length > 0
+          ? `\n  <p class="meta">${generation.map(escapeHtml).join(' · ')}</p>`
+          : ''
+
+      return `<section class="message message-${message.role}">
+  <div class="role">${ROLE_HEADINGS[message.role]}${time ? ` · ${time}` : ''}</div>
+  ${body}${footer}
+</section>`
+    })
+
+    const systemPrompt = conversation.systemPrompt
+      ? `<section class="message message-developer"><div class="role">System prompt</div><div class="plain">${escapeHtml(conversation.systemPrompt)}</div></section>`
+      : ''
+
+    return `<article>
+<header>
+  <h1>${escapeHtml(conversation.title)}</h1>
+  <p class="meta">${meta.map(escapeHtml).join(' · ')}</p>
+</header>
+${systemPrompt}
+${messages.join('\n')}
+</article>`
+  })
+
+  const title = items.length === 1 ? items[0].conversation.title : `${APP_CONFIG.NAME} export`
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(title)}</title>
+<style>${HTML_STYLES}</style>
+</head>
+<body>
+${articles.join('\n')}
+</body>
+</html>
+`
+}
+
+// Complete data, all branches included, in the same envelope as the full state export
+export const toJson = (items: ConversationExport[]): string =>
+  JSON.stringify(
+    {
+      version: EXPORT_VERSION,
+      timestamp: new Date().toISOString(),
+      conversations: items.map(({ conversation, messages }) => ({ ...conversation, messages })),
+    },
+    null,
+    2,
+  )
+
+// Replies that failed, were stopped or ran out of tokens, not worth training on
+const UNFINISHED_REASONS = ['error', 'abort', 'length']
+
+const isUnfinished = (message: Message) =>
+  message.role === 'assistant' &&
+  UNFINISHED_REASONS.includes(message.generation?.finishReason ?? '')
+
+// OpenAI chat fine-tuning format, one training example per conversation
+export const toFineTuningJsonl = (items: ConversationExport[]): string =>
+  items
+    .map((item) => {
+      const branch = activeBranch(item)
+      // Greetings before the first question are not something the model was asked for
+      const firstUser = branch.findIndex((message) => message.role === 'user')
+      if (firstUser === -1) return null
+
+      const unfinished = branch.findIndex(isUnfinished)
+      const messages: ApiMessage[] = branch
+        .slice(firstUser, unfinished === -1 ? undefined : unfinished)
+        .filter((message) => message.content.trim() !== '')
+        .map((message) => ({
+          role: message.role === 'developer' ? 'system' : message.role,
+          content: message.content,
+        }))
+      // The example ends with the last complete reply, before any unfinished one
+      while (messages.length > 0 && messages[messages.length - 1].role !== 'assistant') {
+        messages.pop()
+      }
+      if (messages.length === 0) return null
+
+      const systemPrompt = item.conversation.systemPrompt
+      return JSON.stringify({
+        messages: systemPrompt
+          ? [{ role: 'system', content: systemPrompt }, ...messages]
+          : messages,
+      })
+    })
+    .filter((line): line is string => line !== null)
+    .join('\n')
+
+export const exportConversations = (
+  items: ConversationExport[],
+  format: ExportFormat,
+  renderMarkdown: (md: string) => string,
+): ExportFile => {
+  const { extension, mimeType } =
+    EXPORT_FORMATS.find((f) => f.value === format) ?? EXPORT_FORMATS[0]
+  const baseName =
+    items.length === 1
+      ? sanitizeFilename(items[0].conversation.title)
+      : `yokai-chat-export-${new Date().toISOString().slice(0, 10)}`
+
+  const content = {
+    markdown: () => toMarkdown(items),
+    html: () => toHtml(items, renderMarkdown),
+    json: () => toJson(items),
+    jsonl: () => toFineTuningJsonl(items),
+  }[format]()
+
+  return { filename: `${baseName}.${extension}`, content, mimeType }
+}
+
+export const downloadExportFile = ({ filename, content, mimeType }: ExportFile) => {
+  const url = URL.createObjectURL(new Blob([content], { type: `${mimeType};charset=utf-8` }))
+  const link = document.createElement('a')
+  link.href = url
+  link.download = filename
+  link.click()
+  URL.revokeObjectURL(url)
+}
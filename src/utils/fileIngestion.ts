@@ -0,0 +1,299 @@
+import type { ContextItem, ProgrammingLanguage } from '@/types/chat'
+import { INGESTION_CONFIG } from '@/constants'
+import { documentKind, extractDocument, joinSections } from './documentExtraction'
+import type { DocumentKind } from './documentExtraction'
+
+// A file from a drop, a folder or a zip, read only once it passes the rules
+export interface SourceFile {
+  path: string
+  size: number
+  read: () => Promise<Uint8Array>
+}
+
+export interface IngestedFile {
+  path: string
+  content: string
+  size: number
+  language?: ProgrammingLanguage
+}
+
+export type SkipReason =
+  | 'excluded'
+  | 'not included'
+  | 'too large'
+  | 'binary'
+  | 'unreadable'
+  | 'limit reached'
+
+export interface SkippedFile {
+  path: string
+  reason: SkipReason
+}
+
+export interface IngestionOptions {
+  // .gitignore-style lines. Without include lines every file that isn't excluded is taken.
+  include: string
+  exclude: string
+  // Also follow the .gitignore files that come with the files
+  useGitignore: boolean
+  maxFileBytes: number
+  maxTotalBytes: number
+  maxFiles: number
+}
+
+export const defaultIngestionOptions = (): IngestionOptions => ({
+  include: '',
+  exclude: INGESTION_CONFIG.DEFAULT_EXCLUDE.join('\n'),
+  useGitignore: true,
+  maxFileBytes: INGESTION_CONFIG.MAX_FILE_BYTES,
+  maxTotalBytes: INGESTION_CONFIG.MAX_TOTAL_BYTES,
+  maxFiles: INGESTION_CONFIG.MAX_FILES,
+})
+
+const EXTENSION_LANGUAGES: Record<string, ProgrammingLanguage> = {
+  js: 'javascript',
+  mjs: 'javascript',
+  cjs: 'javascript',
+  jsx: 'javascript',
+  ts: 'typescript',
+  tsx: 'typescript',
+  py: 'python',
+  vue: 'vue',
+  html: 'html',
+  htm: 'html',
+  css: 'css',
+  json: 'json',
+  sh: 'bash',
+  bash: 'bash',
+  sql: 'sql',
+  md: 'markdown',
+  java: 'java',
+  cpp: 'cpp',
+  cc: 'cpp',
+  cxx: 'cpp',
+  h: 'cpp',
+  hpp: 'cpp',
+  cs: 'csharp',
+  go: 'go',
+  rs: 'rust',
+}
+
+export const detectLanguage = (filename: string): ProgrammingLanguage | undefined => {
+  const extension = filename.split('.').pop()?.toLowerCase() ?? ''
+  return Object.prototype.hasOwnProperty.call(EXTENSION_LANGUAGES, extension)
+    ? EXTENSION_LANGUAGES[extension]
+    : undefined
+}
+
+interface IgnoreRule {
+  pattern: RegExp
+  negate: boolean
+}
+
+const globToRegExp = (glob: string) =>
+  glob
+    .split(/(\*\*\/|\/\*\*$|\*\*|\*|\?)/)
+    .map((part) => {
+      if (part === '**/') return '(?:.*/)?'
+      if (part === '/**') return '/.*'
+      if (part === '**') return '.*'
+      if (part === '*') return '[^/]*'
+      if (part === '?') return '[^/]'
+      return part.replace(/[.+^${}()|[\]\\]/g, '\\$&')
+    })
+    .join('')
+
+// .gitignore syntax: # comments, ! to re-include, a trailing / for directories only, and
+// a pattern with a / in it is relative to base rather than matched at any depth
+export function parseIgnoreRules(text: string, base = ''): IgnoreRule[] {
+  return text
+    .split(/\r?\n/)
+    .map((line) => line.trimEnd())
+    .filter((line) => line !== '' && !line.startsWith('#'))
+    .map((line) => {
+      const negate = line.startsWith('!')
+      let glob = negate ? line.slice(1) : line.replace(/^\\([#!])/, '$1')
+
+      const directoryOnly = glob.endsWith('/')
+      if (directoryOnly) glob = glob.slice(0, -1)
+      const anchored = glob.includes('/')
+      glob = glob.replace(/^\//, '')
+
+      const prefix = anchored ? `^${escapeBase(base)}` : `^${escapeBase(base)}(?:.*/)?`
+      const suffix = directoryOnly ? '/' : '(?:$|/)'
+      return { pattern: new RegExp(prefix + globToRegExp(glob) + suffix), negate }
+    })
+}
+
+const escapeBase = (base: string) => base.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+
+// The last rule that matches decides, like in git
+export function isIgnored(path: string, rules: IgnoreRule[]): boolean {
+  let ignored = false
+  for (const rule of rules) {
+    if (rule.pattern.test(path)) ignored = !rule.negate
+  }
+  return ignored
+}
+
+export const normalizePath = (path: string) => path.replace(/\\/g, '/').replace(/^(\.\/|\/)+/, '')
+
+// Text files have no NUL bytes and are valid UTF-8
+export function decodeText(bytes: Uint8Array): string | null {
+  if (bytes.subarray(0, 8000).includes(0)) return null
+  try {
+    return new TextDecoder('utf-8', { fatal: true }).decode(bytes)
+  } catch {
+    return null
+  }
+}
+
+// Documents that can't be read as text are converted. HTML and CSV in a code base stay
+// as they are.
+const CONVERTED_DOCUMENTS: DocumentKind[] = ['pdf', 'docx', 'xlsx', 'ipynb']
+
+async function readSource(
+  source: SourceFile,
+): Promise<Pick<IngestedFile, 'content' | 'language'> | null> {
+  const bytes = await source.read()
+  const kind = documentKind(source.path)
+  if (!kind || !CONVERTED_DOCUMENTS.includes(kind)) {
+    const content = decodeText(bytes)
+    return content === null ? null : { content, language: detectLanguage(source.path) }
+  }
+
+  try {
+    return {
+      content: joinSections(await extractDocument(source.path, bytes)),
+      language: 'markdown',
+    }
+  } catch {
+    return null
+  }
+}
+
+// Applies the rules and limits, reading only the files that pass them. Files are taken in
+// path order, so the limits cut off the same files every time.
+export async function ingestFiles(
+  sources: SourceFile[],
+  options: IngestionOptions,
+): Promise<{ files: IngestedFile[]; skipped: SkippedFile[] }> {
+  const sorted = sources
+    .map((source) => ({ ...source, path: normalizePath(source.path) }))
+    .sort((a, b) => a.path.localeCompare(b.path))
+
+  const exclude = parseIgnoreRules(options.exclude)
+  if (options.useGitignore) {
+    for (const source of sorted.filter((s) => /(^|\/)\.gitignore$/.test(s.path))) {
+      // One that can't be read is skipped with the other files below
+      const text = await source.read().then(decodeText, () => null)
+      if (text !== null) {
+        exclude.push(...parseIgnoreRules(text, source.path.replace(/\.gitignore$/, '')))
+      }
+    }
+  }
+  const include = parseIgnoreRules(options.include)
+
+  const files: IngestedFile[] = []
+  const skipped: SkippedFile[] = []
+  let totalBytes = 0
+
+  for (const source of sorted) {
+    const skip = (reason: SkipReason) => skipped.push({ path: source.path, reason })
+
+    if (isIgnored(source.path, exclude)) {
+      skip('excluded')
+      continue
+    }
+    if (include.length > 0 && !isIgnored(source.path, include)) {
+      skip('not included')
+      continue
+    }
+    if (source.size > options.maxFileBytes) {
+      skip('too large')
+      continue
+    }
+    if (files.length >= options.maxFiles || totalBytes + source.size > options.maxTotalBytes) {
+      skip('limit reached')
+      continue
+    }
+
+    // A broken zip entry, say, costs only that file
+    const read = await readSource(source).catch(() => undefined)
+    if (read === undefined) {
+      skip('unreadable')
+      continue
+    }
+    if (read === null) {
+      skip('binary')
+      continue
+    }
+
+    totalBytes += source.size
+    files.push({ path: source.path, size: source.size, ...read })
+  }
+
+  return { files, skipped }
+}
+
+// Keyed by Map, path segments like __proto__ or constructor are just names
+type TreeNode = Map<string, TreeNode>
+
+// An ASCII tree of the paths, folders first
+export function buildFileTree(paths: string[]): string {
+  const root: TreeNode = new Map()
+  for (const path of paths) {
+    let node = root
+    for (const part of path.split('/')) {
+      const child = node.get(part) ?? new Map()
+      node.set(part, child)
+      node = child
+    }
+  }
+
+  const lines: string[] = []
+  const walk = (node: TreeNode, indent: string) => {
+    const entries = [...node].sort(([a, aNode], [b, bNode]) => {
+      const aIsDir = aNode.size > 0
+      const bIsDir = bNode.size > 0
+      return aIsDir === bIsDir ? a.localeCompare(b) : aIsDir ? -1 : 1
+    })
+    entries.forEach(([name, child], index) => {
+      const last = index === entries.length - 1
+      const isDir = child.size > 0
+      lines.push(`${indent}${last ? '└── ' : '├── '}${name}${isDir ? '/' : ''}`)
+      walk(child, indent + (last ? '    ' : '│   '))
+    })
+  }
+  walk(root, '')
+  return lines.join('\n')
+}
+
+const generateContextId = (index: number) => `${Date.now()}-${index}`
+
+// One context per file, grouped under name
+export function toSeparateContexts(files: IngestedFile[], name: string): ContextItem[] {
+  return files.map((file, index) => ({
+    id: generateContextId(index),
+    type: 'file',
+    title: file.path,
+    content: file.content,
+    language: file.language,
+    group: name,
+  }))
+}
+
+// Every file in one context, after a tree of the files so the model sees the layout
+export function toBundledContext(files: IngestedFile[], name: string): ContextItem {
+  const tree = buildFileTree(files.map((file) => file.path))
+  const sections = files.map(
+    (file) => `### ${file.path}\n\`\`\`${file.language ?? ''}\n${file.content}\n\`\`\``,
+  )
+  return {
+    id: generateContextId(0),
+    type: 'text',
+    title: `${name} (${files.length} files)`,
+    content: [`\`\`\`\n${tree}\n\`\`\``, ...sections].join('\n\n'),
+    group: name,
+  }
+}
@@ -0,0 +1,40 @@
+import type { GenerationParams } from '@/types/api'
+import { GENERATION_PARAM_FIELDS } from '@/constants'
+
+type NumericParamKey = (typeof GENERATION_PARAM_FIELDS)[number]['key']
+
+// Keep only set, in-range values so a layer overrides exactly what it specifies
+export function sanitizeGenerationParams(params: unknown): GenerationParams {
+  if (!params || typeof params !== 'object') return {}
+
+  const source = params as Record<string, unknown>
+  const sanitized: GenerationParams = {}
+
+  GENERATION_PARAM_FIELDS.forEach((field) => {
+    const value = source[field.key]
+    if (typeof value !== 'number' || !Number.isFinite(value)) return
+
+    const clamped = Math.min(field.max, Math.max(field.min, value))
+    sanitized[field.key as NumericParamKey] =
+      'integer' in field && field.integer ? Math.round(clamped) : clamped
+  })
+
+  if (Array.isArray(source.stop)) {
+    const stop = source.stop.filter((s): s is string => typeof s === 'string' && s !== '')
+    if (stop.length > 0) {
+      sanitized.stop = stop
+    }
+  }
+
+  return sanitized
+}
+
+// Later layers win, e.g. defaults < model preset < conversation
+export function resolveGenerationParams(
+  ...layers: Array<GenerationParams | undefined>
+): GenerationParams {
+  return layers.reduce<GenerationParams>(
+    (resolved, layer) => ({ ...resolved, ...sanitizeGenerationParams(layer) }),
+    {},
+  )
+}
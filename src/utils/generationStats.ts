@@ -0,0 +1,100 @@
+import type { GenerationParams, StreamResult } from '@/types/api'
+import type { GenerationInfo, Message } from '@/types/chat'
+import { estimateTokens } from './tokenBudget'
+
+export interface GenerationTiming {
+  startedAt: number
+  firstTokenAt?: number
+  finishedAt: number
+}
+
+const FINISH_REASON_LABELS: Record<string, string> = {
+  stop: 'finished',
+  length: 'cut off at the token limit',
+  abort: 'stopped',
+  error: 'failed',
+}
+
+export const describeFinishReason = (reason: string) => FINISH_REASON_LABELS[reason] ?? reason
+
+// What to keep on a finished reply. Speed is measured from the first token so it reflects
+// generation rather than prompt processing, and falls back to an estimated token count
+// when the server didn't report usage.
+export function buildGenerationInfo(
+  endpoint: string,
+  params: GenerationParams,
+  content: string,
+  timing: GenerationTiming,
+  result: StreamResult = {},
+): GenerationInfo {
+  const info: GenerationInfo = {
+    endpoint,
+    params: { ...params },
+    finishReason: result.finishReason,
+    promptTokens: result.usage?.promptTokens,
+    completionTokens: result.usage?.completionTokens,
+  }
+
+  if (timing.firstTokenAt !== undefined) {
+    info.timeToFirstTokenMs = timing.firstTokenAt - timing.startedAt
+
+    const seconds = (timing.finishedAt - timing.firstTokenAt) / 1000
+    const tokens = info.completionTokens ?? estimateTokens(content)
+    if (seconds > 0 && tokens > 1) {
+      info.tokensPerSecond = Math.round((tokens / seconds) * 10) / 10
+    }
+  }
+
+  return info
+}
+
+// Short facts about how a reply was generated, e.g. ["qwen2.5-7b", "512 tokens", "42.1 tok/s"]
+export function describeGeneration(message: Message): string[] {
+  const info = message.generation
+  const parts: string[] = message.model ? [message.model] : []
+  if (!info) return parts
+
+  if (info.completionTokens !== undefined) {
+    parts.push(
+      info.promptTokens !== undefined
+        ? `${info.promptTokens} → ${info.completionTokens} tokens`
+        : `${info.completionTokens} tokens`,
+    )
+  }
+  if (info.timeToFirstTokenMs !== undefined) {
+    parts.push(`${(info.timeToFirstTokenMs / 1000).toFixed(1)}s to first token`)
+  }
+  if (info.tokensPerSecond !== undefined) {
+    parts.push(`${info.tokensPerSecond} tok/s`)
+  }
+  if (info.finishReason && info.finishReason !== 'stop') {
+    parts.push(describeFinishReason(info.finishReason))
+  }
+  return parts
+}
+
+// Label and value pairs for everything recorded about a reply
+export function generationDetails(message: Message): Array<[string, string]> {
+  const info = message.generation
+  if (!info) return []
+
+  const params = Object.entries(info.params)
+    .map(([key, value]) => `${key}=${Array.isArray(value) ? JSON.stringify(value) : value}`)
+    .join(', ')
+  const rows: Array<[string, string | number | undefined]> = [
+    ['Model', message.model],
+    ['Endpoint', info.endpoint],
+    ['Finish reason', info.finishReason],
+    ['Prompt tokens', info.promptTokens],
+    ['Completion tokens', info.completionTokens],
+    [
+      'Time to first token',
+      info.timeToFirstTokenMs !== undefined ? `${info.timeToFirstTokenMs} ms` : undefined,
+    ],
+    ['Speed', info.tokensPerSecond !== undefined ? `${info.tokensPerSecond} tok/s` : undefined],
+    ['Parameters', params || undefined],
+  ]
+  return rows
+    .filter((row): row is [string, string | number] => row[1] !== undefined)
+    .map(([label, value]) => [label, String(value)])
+}
@@ -0,0 +1,65 @@
+import type { ImageAttachment } from '@/types/chat'
+import { IMAGE_CONFIG } from '@/constants'
+
+export const isImageFile = (file: File) => file.type.startsWith('image/')
+
+// Size that fits within maxDimension on both sides, keeping the aspect ratio. Images that
+// already fit keep their size.
+export function fitWithin(width: number, height: number, maxDimension: number) {
+  const scale = Math.min(1, maxDimension / Math.max(width, height))
+  return {
+    width: Math.max(1, Math.round(width * scale)),
+    height: Math.max(1, Math.round(height * scale)),
+  }
+}
+
+// The base64 data of a data: URI, the form Ollama wants images in
+export const dataUrlToBase64 = (dataUrl: string) => dataUrl.slice(dataUrl.indexOf(',') + 1)
+
+export function readFileAsDataUrl(file: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader()
+    reader.onload = () => {
+      if (typeof reader.result === 'string') {
+        resolve(reader.result)
+      } else {
+        reject(new Error('Failed to read image'))
+      }
+    }
+    reader.onerror = () => reject(new Error('Failed to read image'))
+    reader.readAsDataURL(file)
+  })
+}
+
+const loadImage = (src: string): Promise<HTMLImageElement> =>
+  new Promise((resolve, reject) => {
+    const image = new Image()
+    image.onload = () => resolve(image)
+    image.onerror = () => reject(new Error('Not an image the browser can read'))
+    image.src = src
+  })
+
+// Reads an image file and redraws it small enough for a vision model. PNGs stay PNG so
+// transparency and screenshots of text survive, everything else becomes JPEG.
+export async function downscaleImage(
+  file: File,
+  maxDimension: number = IMAGE_CONFIG.MAX_DIMENSION,
+): Promise<ImageAttachment> {
+  const image = await loadImage(await readFileAsDataUrl(file))
+  const { width, height } = fitWithin(image.naturalWidth, image.naturalHeight, maxDimension)
+
+  const canvas = document.createElement('canvas')
+  canvas.width = width
+  canvas.height = height
+  const context = canvas.getContext('2d')
+  if (!context) {
+    throw new Error('Canvas is not available to resize the image')
+  }
+  context.drawImage(image, 0, 0, width, height)
+
+  const dataUrl =
+    file.type === 'image/png'
+      ? canvas.toDataURL('image/png')
+      : canvas.toDataURL('image/jpeg', IMAGE_CONFIG.JPEG_QUALITY)
+  return { name: file.name || 'image', dataUrl, width, height }
+}
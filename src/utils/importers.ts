@@ -0,0 +1,380 @@
+import type { Message } from '@/types/chat'
+import type { GenerationParams } from '@/types/api'
+import { DEFAULT_CONVERSATION_TITLE } from '@/constants'
+import { validateMessagesArray, ValidationError } from './validation'
+import { sanitizeGenerationParams } from './generationParams'
+import { linkMessages } from './messageTree'
+
+export type ImportSource = 'yokai' | 'chatgpt' | 'open-webui' | 'sillytavern'
+
+// A conversation read from another tool, ready to be merged into ours
+export interface ImportedConversation {
+  // Source and id in the other tool, used to skip conversations imported before
+  sourceId: string
+  title: string
+  model: string
+  params?: GenerationParams
+  systemPrompt?: string
+  createdAt: Date
+  updatedAt: Date
+  messages: Message[]
+  activeLeafId?: number
+}
+
+export interface ImportPreview {
+  source: ImportSource
+  label: string
+  conversations: ImportedConversation[]
+  // Why entries of the file were left out
+  skipped: string[]
+}
+
+interface ImportAdapter {
+  source: ImportSource
+  label: string
+  detect: (data: unknown) => boolean
+  // Yields one entry per conversation, each read on its own so one bad entry does not sink the file
+  entries: (data: unknown) => unknown[]
+  parse: (entry: unknown) => ImportedConversation | null
+}
+
+// A message as the other tool stores it, role null for entries that are not imported
+interface ImportNode {
+  id: string
+  parentId: string | null
+  role: Message['role'] | null
+  content: string
+  timestamp?: Date
+}
+
+type Json = Record<string, unknown>
+
+const isObject = (value: unknown): value is Json =>
+  !!value && typeof value === 'object' && !Array.isArray(value)
+
+const asString = (value: unknown): string | undefined =>
+  typeof value === 'string' ? value : undefined
+
+// Accepts ISO strings, epoch milliseconds and the epoch seconds most exporters use
+const toDate = (value: unknown): Date | undefined => {
+  if (typeof value === 'number' && Number.isFinite(value)) {
+    return new Date(value < 1e12 ? value * 1000 : value)
+  }
+  if (typeof value !== 'string' || value.trim() === '') return undefined
+
+  const parsed = new Date(value)
+  if (!Number.isNaN(parsed.getTime())) return parsed
+
+  // SillyTavern writes dates like "2024-03-10 @14h 32m 17s 123ms"
+  const match = value.match(/^(\d{4})-(\d{1,2})-(\d{1,2})\s*@(\d{1,2})h\s*(\d{1,2})m\s*(\d{1,2})s/)
+  if (!match) return undefined
+  const [, year, month, day, hours, minutes, seconds] = match.map(Number)
+  return new Date(year, month - 1, day, hours, minutes, seconds)
+}
+
+const toRole = (value: unknown): Message['role'] | null =>
+  value === 'user' || value === 'assistant' ? value : null
+
+// Turn the source tree into ours: numeric ids, parents pointing at the nearest imported
+// ancestor, and the leaf the other tool was showing
+const buildMessages = (
+  nodes: ImportNode[],
+  currentId?: string | null,
+): { messages: Message[]; activeLeafId?: number } => {
+  const byId = new Map(nodes.map((node) => [node.id, node]))
+  const numericIds = new Map<string, number>()
+  nodes
+    .filter((node) => node.role && node.content.trim() !== '')
+    .forEach((node) => numericIds.set(node.id, numericIds.size + 1))
+
+  const nearestImported = (id: string | null | undefined): number | null => {
+    const visited = new Set<string>()
+    let current = id ?? null
+    while (current !== null && !visited.has(current)) {
+      visited.add(current)
+      const numericId = numericIds.get(current)
+      if (numericId !== undefined) return numericId
+      current = byId.get(current)?.parentId ?? null
+    }
+    return null
+  }
+
+  const messages = validateMessagesArray(
+    nodes
+      .filter((node) => numericIds.has(node.id))
+      .map((node) => ({
+        id: numericIds.get(node.id),
+        parentId: nearestImported(node.parentId),
+        role: node.role,
+        content: node.content,
+        timestamp: node.timestamp,
+      })),
+  )
+
+  return { messages, activeLeafId: nearestImported(currentId) ?? messages[messages.length - 1]?.id }
+}
+
+const latestDate = (messages: Message[]) =>
+  messages.reduce<Date | undefined>(
+    (latest, m) => (m.timestamp && (!latest || m.timestamp > latest) ? m.timestamp : latest),
+    undefined,
+  )
+
+const chatGptAdapter: ImportAdapter = {
+  source: 'chatgpt',
+  label: 'ChatGPT',
+  detect: (data) => Array.isArray(data) && isObject(data[0]) && isObject(data[0].mapping),
+  entries: (data) => data as unknown[],
+  parse: (entry) => {
+    if (!isObject(entry) || !isObject(entry.mapping)) return null
+
+    let systemPrompt: string | undefined
+    let model = asString(entry.default_model_slug)
+
+    const nodes = Object.values(entry.mapping)
+      .filter(isObject)
+      .map((node): ImportNode => {
+        const message = isObject(node.message) ? node.message : {}
+        const author = isObject(message.author) ? message.author : {}
+        const content = isObject(message.content) ? message.content : {}
+        const metadata = isObject(message.metadata) ? message.metadata : {}
+
+        // Images and other attachments show up as objects among the text parts
+        const text = Array.isArray(content.parts)
+          ? content.parts.filter((part) => typeof part === 'string').join('\n')
+          : (asString(content.text) ?? '')
+
+        if (author.role === 'system' && text.trim() && !systemPrompt) systemPrompt = text.trim()
+        if (author.role === 'assistant') model = asString(metadata.model_slug) ?? model
+
+        return {
+          id: String(node.id),
+          parentId: asString(node.parent) ?? null,
+          role: metadata.is_visually_hidden_from_conversation ? null : toRole(author.role),
+          content: text,
+          timestamp: toDate(message.create_time),
+        }
+      })
+
+    const { messages, activeLeafId } = buildMessages(nodes, asString(entry.current_node))
+    const createdAt = toDate(entry.create_time) ?? messages[0]?.timestamp ?? new Date()
+
+    return {
+      sourceId: `chatgpt:${asString(entry.conversation_id) ?? asString(entry.id) ?? createdAt.getTime()}`,
+      title: asString(entry.title) || DEFAULT_CONVERSATION_TITLE,
+      model: model ?? 'chatgpt',
+      systemPrompt,
+      createdAt,
+      updatedAt: toDate(entry.update_time) ?? latestDate(messages) ?? createdAt,
+      messages,
+      activeLeafId,
+    }
+  },
+}
+
+const openWebUiAdapter: ImportAdapter = {
+  source: 'open-webui',
+  label: 'Open WebUI',
+  detect: (data) => {
+    const first = Array.isArray(data) ? data[0] : data
+    return isObject(first) && isObject(first.chat)
+  },
+  entries: (data) => (Array.isArray(data) ? data : [data]),
+  parse: (entry) => {
+    if (!isObject(entry) || !isObject(entry.chat)) return null
+    const chat = entry.chat
+    const history = isObject(chat.history) ? chat.history : {}
+
+    // The history map holds every branch, the flat list only the visible one
+    const rawMessages = isObject(history.messages)
+      ? Object.values(history.messages)
+      : Array.isArray(chat.messages)
+        ? chat.messages
+        : []
+
+    let model = Array.isArray(chat.models) ? asString(chat.models[0]) : undefined
+    const nodes = rawMessages.filter(isObject).map((message, index, list): ImportNode => {
+      if (message.role === 'assistant') model = asString(message.model) ?? model
+      const fallbackParent = index > 0 ? String(list[index - 1].id ?? index - 1) : null
+      return {
+        id: String(message.id ?? index),
+        parentId:
+          message.parentId === undefined ? fallbackParent : (asString(message.parentId) ?? null),
+        role: toRole(message.role),
+        content: asString(message.content) ?? '',
+        timestamp: toDate(message.timestamp),
+      }
+    })
+
+    const { messages, activeLeafId } = buildMessages(nodes, asString(history.currentId))
+    const createdAt = toDate(entry.created_at) ?? toDate(chat.timestamp) ?? new Date()
+    const params = isObject(chat.params) ? sanitizeGenerationParams(chat.params) : {}
+    const systemPrompt =
+      asString(chat.system) ?? (isObject(chat.params) ? asString(chat.params.system) : undefined)
+
+    return {
+      sourceId: `open-webui:${asString(entry.id) ?? asString(chat.id) ?? createdAt.getTime()}`,
+      title: asString(entry.title) || asString(chat.title) || DEFAULT_CONVERSATION_TITLE,
+      model: model ?? 'open-webui',
+      params: Object.keys(params).length > 0 ? params : undefined,
+      systemPrompt: systemPrompt?.trim() || undefined,
+      createdAt,
+      updatedAt: toDate(entry.updated_at) ?? latestDate(messages) ?? createdAt,
+      messages,
+      activeLeafId,
+    }
+  },
+}
+
+// SillyTavern chats are JSONL: a header line, then one line per message. Swipes are the
+// alternative replies to a turn and become branches here.
+const sillyTavernAdapter: ImportAdapter = {
+  source: 'sillytavern',
+  label: 'SillyTavern',
+  detect: (data) =>
+    Array.isArray(data) &&
+    data.some((line) => isObject(line) && 'mes' in line && ('is_user' in line || 'name' in line)),
+  entries: (data) => [data],
+  parse: (entry) => {
+    if (!Array.isArray(entry)) return null
+    const header = entry.find((line) => isObject(line) && !('mes' in line)) as Json | undefined
+
+    const nodes: ImportNode[] = []
+    let parentId: string | null = null
+    let model: string | undefined
+
+    entry.filter(isObject).forEach((line, index) => {
+      if (!('mes' in line) || line.is_system) return
+
+      const role = line.is_user ? 'user' : 'assistant'
+      const timestamp = toDate(line.send_date)
+      const extra = isObject(line.extra) ? line.extra : {}
+      if (role === 'assistant') model = asString(extra.model) ?? model
+
+      const swipes = Array.isArray(line.swipes)
+        ? line.swipes.filter((s) => typeof s === 'string')
+        : []
+      const chosen = typeof line.swipe_id === 'number' ? line.swipe_id : 0
+      const id = String(index)
+
+      const content = asString(line.mes) ?? ''
+
+      if (role === 'assistant' && swipes.length > 1) {
+        // Keep the swipe order so the version counter matches SillyTavern's
+        swipes.forEach((swipe, swipeIndex) => {
+          nodes.push(
+            swipeIndex === chosen
+              ? { id, parentId, role, content, timestamp }
+              : { id: `${id}:${swipeIndex}`, parentId, role, content: swipe, timestamp },
+          )
+        })
+      } else {
+        nodes.push({ id, parentId, role, content, timestamp })
+      }
+      parentId = id
+    })
+
+    const { messages, activeLeafId } = buildMessages(nodes, parentId)
+    const character = asString(header?.character_name) ?? asString(entry.find(isObject)?.name)
+    const createdAt = toDate(header?.create_date) ?? messages[0]?.timestamp ?? new Date()
+
+    return {
+      sourceId: `sillytavern:${character ?? 'chat'}:${createdAt.getTime()}`,
+      title: character ? `Chat with ${character}` : DEFAULT_CONVERSATION_TITLE,
+      model: model ?? 'sillytavern',
+      createdAt,
+      updatedAt: latestDate(messages) ?? createdAt,
+      messages,
+      activeLeafId,
+    }
+  },
+}
+
+// Our own per-conversation JSON export and full state exports, merged instead of replacing
+const yokaiAdapter: ImportAdapter = {
+  source: 'yokai',
+  label: 'Yokai Chat',
+  detect: (data) =>
+    isObject(data) && typeof data.version === 'string' && Array.isArray(data.conversations),
+  entries: (data) => (data as Json).conversations as unknown[],
+  parse: (entry) => {
+    if (!isObject(entry) || !Array.isArray(entry.messages)) return null
+
+    const messages = linkMessages(
+      validateMessagesArray(
+        entry.messages.map((message) =>
+          isObject(message) ? { ...message, timestamp: toDate(message.timestamp) } : message,
+        ),
+      ),
+    )
+    const createdAt = toDate(entry.createdAt) ?? messages[0]?.timestamp ?? new Date()
+    const params = isObject(entry.params) ? sanitizeGenerationParams(entry.params) : {}
+
+    return {
+      sourceId: `yokai:${asString(entry.id) ?? createdAt.getTime()}`,
+      title: asString(entry.title) || DEFAULT_CONVERSATION_TITLE,
+      model: asString(entry.model) ?? '',
+      params: Object.keys(params).length > 0 ? params : undefined,
+      systemPrompt: asString(entry.systemPrompt),
+      createdAt,
+      updatedAt: toDate(entry.updatedAt) ?? createdAt,
+      messages,
+      activeLeafId:
+        typeof entry.activeLeafId === 'number'
+          ? entry.activeLeafId
+          : messages[messages.length - 1]?.id,
+    }
+  },
+}
+
+const IMPORT_ADAPTERS: ImportAdapter[] = [
+  yokaiAdapter,
+  chatGptAdapter,
+  openWebUiAdapter,
+  sillyTavernAdapter,
+]
+
+// JSON documents as they are, JSONL files as an array of their lines
+export const parseImportFile = (raw: string): unknown => {
+  try {
+    return JSON.parse(raw)
+  } catch {
+    const lines = raw.split(/\r?\n/).filter((line) => line.trim() !== '')
+    try {
+      return lines.map((line) => JSON.parse(line))
+    } catch {
+      throw new ValidationError('The file is neither JSON nor JSON Lines', 'import')
+    }
+  }
+}
+
+export const previewImport = (raw: string): ImportPreview => {
+  const data = parseImportFile(raw)
+  const adapter = IMPORT_ADAPTERS.find((candidate) => candidate.detect(data))
+  if (!adapter) {
+    throw new ValidationError(
+      'Unrecognized export format. Supported: ChatGPT conversations.json, Open WebUI, SillyTavern JSONL and Yokai Chat exports',
+      'import',
+    )
+  }
+
+  const conversations: ImportedConversation[] = []
+  const skipped: string[] = []
+
+  adapter.entries(data).forEach((entry, index) => {
+    try {
+      const conversation = adapter.parse(entry)
+      if (!conversation || conversation.messages.length === 0) {
+        skipped.push(`Entry ${index + 1}: no messages`)
+      } else {
+        conversations.push(conversation)
+      }
+    } catch (error) {
+      skipped.push(
+        `Entry ${index + 1}: ${error instanceof Error ? error.message : 'could not be read'}`,
+      )
+    }
+  })
+
+  return { source: adapter.source, label: adapter.label, conversations, skipped }
+}
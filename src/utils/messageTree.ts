@@ -0,0 +1,58 @@
+import type { Message } from '@/types/chat'
+
+export type ParentKey = number | null
+
+// Give messages saved before branching existed a parent, each one replies to the previous
+export const linkMessages = (messages: Message[]): Message[] =>
+  messages.map((message, index) =>
+    message.parentId === undefined
+      ? { ...message, parentId: index === 0 ? null : messages[index - 1].id }
+      : message,
+  )
+
+export const groupChildren = (messages: Message[]): Map<ParentKey, Message[]> => {
+  const children = new Map<ParentKey, Message[]>()
+  messages.forEach((message) => {
+    const key = message.parentId ?? null
+    const siblings = children.get(key)
+    if (siblings) {
+      siblings.push(message)
+    } else {
+      children.set(key, [message])
+    }
+  })
+  return children
+}
+
+// Root-to-leaf chain ending at leafId, stops early if a parent was trimmed away
+export const pathTo = (messages: Message[], leafId: number | null): Message[] => {
+  if (leafId === null) return []
+
+  const byId = new Map(messages.map((m) => [m.id, m]))
+  const path: Message[] = []
+  const visited = new Set<number>()
+  let current = byId.get(leafId)
+
+  while (current && !visited.has(current.id)) {
+    visited.add(current.id)
+    path.push(current)
+    current = current.parentId == null ? undefined : byId.get(current.parentId)
+  }
+
+  return path.reverse()
+}
+
+// Follow the newest reply at every level, used when jumping to another branch
+export const latestLeafFrom = (children: Map<ParentKey, Message[]>, id: number): number => {
+  const visited = new Set<number>()
+  let current = id
+
+  while (!visited.has(current)) {
+    visited.add(current)
+    const replies = children.get(current)
+    if (!replies || replies.length === 0) break
+    current = replies[replies.length - 1].id
+  }
+
+  return current
+}
@@ -0,0 +1,146 @@
+// Word and Excel files are zips of XML. Only the parts that carry text are read.
+import { readZip, type ZipEntry } from './zip'
+import { markdownTable } from './tables'
+
+export interface Sheet {
+  name: string
+  rows: string[][]
+}
+
+async function readXml(entries: ZipEntry[], path: string): Promise<Document | undefined> {
+  const entry = entries.find((candidate) => candidate.path === path)
+  if (!entry) return undefined
+  const text = new TextDecoder().decode(await entry.read())
+  return new DOMParser().parseFromString(text, 'application/xml')
+}
+
+// Elements are matched on their local name, whatever prefix the file uses
+const descendants = (node: Document | Element, name: string) =>
+  Array.from(node.getElementsByTagNameNS('*', name))
+
+const children = (element: Element, name?: string) =>
+  Array.from(element.children).filter((child) => !name || child.localName === name)
+
+const attribute = (element: Element | undefined, name: string) =>
+  element?.getAttribute(name) ?? element?.getAttribute(name.split(':').pop() ?? name) ?? undefined
+
+function paragraphText(paragraph: Element): string {
+  return descendants(paragraph, '*')
+    .map((element) => {
+      if (element.localName === 't') return element.textContent ?? ''
+      if (element.localName === 'tab') return '\t'
+      if (element.localName === 'br' || element.localName === 'cr') return '\n'
+      return ''
+    })
+    .join('')
+}
+
+// Headings keep their level and list items their bullet, other styles are dropped
+function paragraphToMarkdown(paragraph: Element): string {
+  const text = paragraphText(paragraph).trim()
+  if (text === '') return ''
+
+  const properties = children(paragraph, 'pPr')[0]
+  const style = attribute(properties && children(properties, 'pStyle')[0], 'w:val') ?? ''
+  const heading = /^heading\s*(\d)$/i.exec(style)
+  if (heading) return `${'#'.repeat(Math.min(Number(heading[1]), 6))} ${text}`
+  if (/^title$/i.test(style)) return `# ${text}`
+  if (properties && children(properties, 'numPr').length > 0) return `- ${text}`
+  return text
+}
+
+function tableToMarkdown(table: Element): string {
+  const rows = children(table, 'tr').map((row) =>
+    children(row, 'tc').map((cell) =>
+      children(cell, 'p')
+        .map((paragraph) => paragraphText(paragraph).trim())
+        .filter(Boolean)
+        .join(' '),
+    ),
+  )
+  return markdownTable(rows)
+}
+
+// The body of a .docx as markdown: headings, paragraphs, list items and tables
+export async function extractDocx(data: Uint8Array): Promise<string> {
+  const document = await readXml(readZip(data), 'word/document.xml')
+  const body = document && descendants(document, 'body')[0]
+  if (!body) throw new Error('Not a Word document')
+
+  return children(body)
+    .map((element) => {
+      if (element.localName === 'p') return paragraphToMarkdown(element)
+      if (element.localName === 'tbl') return tableToMarkdown(element)
+      return ''
+    })
+    .filter(Boolean)
+    .join('\n\n')
+}
+
+// "AB12" is column 27
+const columnIndex = (reference: string) =>
+  Array.from(/^[A-Z]+/.exec(reference)?.[0] ?? 'A').reduce(
+    (index, letter) => index * 26 + letter.charCodeAt(0) - 64,
+    0,
+  ) - 1
+
+function sheetRows(sheet: Document, sharedStrings: string[]): string[][] {
+  const rows = descendants(sheet, 'row').map((row) => {
+    const cells: string[] = []
+    children(row, 'c').forEach((cell, position) => {
+      const reference = attribute(cell, 'r')
+      const column = reference ? columnIndex(reference) : position
+      const type = attribute(cell, 't')
+      const value = children(cell, 'v')[0]?.textContent ?? ''
+
+      if (type === 's') {
+        cells[column] = sharedStrings[Number(value)] ?? ''
+      } else if (type === 'inlineStr') {
+        cells[column] = descendants(cell, 't')
+          .map((text) => text.textContent)
+          .join('')
+      } else if (type === 'b') {
+        cells[column] = value === '1' ? 'TRUE' : 'FALSE'
+      } else {
+        cells[column] = value
+      }
+    })
+    return Array.from(cells, (cell) => cell ?? '')
+  })
+  return rows.filter((cells) => cells.some((cell) => cell.trim() !== ''))
+}
+
+// Every sheet of an .xlsx in workbook order, as rows of cell values. Formulas are read as
+// the values Excel last calculated for them.
+export async function extractXlsxSheets(data: Uint8Array): Promise<Sheet[]> {
+  const entries = readZip(data)
+  const workbook = await readXml(entries, 'xl/workbook.xml')
+  if (!workbook) throw new Error('Not an Excel workbook')
+
+  const relationships = await readXml(entries, 'xl/_rels/workbook.xml.rels')
+  const targets = new Map(
+    (relationships ? descendants(relationships, 'Relationship') : []).map((relationship) => [
+      attribute(relationship, 'Id'),
+      attribute(relationship, 'Target') ?? '',
+    ]),
+  )
+
+  const shared = await readXml(entries, 'xl/sharedStrings.xml')
+  const sharedStrings = (shared ? descendants(shared, 'si') : []).map((item) =>
+    descendants(item, 't')
+      .map((text) => text.textContent)
+      .join(''),
+  )
+
+  const sheets: Sheet[] = []
+  for (const sheet of descendants(workbook, 'sheet')) {
+    const target = targets.get(attribute(sheet, 'r:id')) ?? ''
+    const path = target.startsWith('/') ? target.slice(1) : `xl/${target}`
+    const document = await readXml(entries, path)
+    sheets.push({
+      name: attribute(sheet, 'name') ?? `Sheet ${sheets.length + 1}`,
+      rows: document ? sheetRows(document, sharedStrings) : [],
+    })
+  }
+  return sheets
+}
@@ -0,0 +1,567 @@
+// Pulls the text out of PDFs with what the browser already has: objects are parsed by hand,
+// Flate streams go through DecompressionStream and text is decoded through the fonts'
+// ToUnicode maps where they have one. Scanned pages have no text to find.
+
+class PdfName {
+  constructor(readonly name: string) {}
+}
+
+class PdfRef {
+  constructor(readonly num: number) {}
+}
+
+// Raw bytes, one char per byte
+class PdfString {
+  constructor(readonly bytes: string) {}
+}
+
+class PdfKeyword {
+  constructor(readonly word: string) {}
+}
+
+type PdfDict = Map<string, PdfValue>
+
+class PdfStream {
+  constructor(
+    readonly dict: PdfDict,
+    readonly raw: string,
+  ) {}
+}
+
+type PdfValue =
+  | number
+  | boolean
+  | null
+  | PdfName
+  | PdfRef
+  | PdfString
+  | PdfValue[]
+  | PdfDict
+  | PdfStream
+
+const isWhitespace = (char: string) => char === ' ' || '\n\r\t\f\0'.includes(char)
+const isDelimiter = (char: string) => '()<>[]{}/%'.includes(char)
+
+// The generation number and R after an object number, up to the next delimiter
+const REFERENCE_TAIL = /\s+\d+\s+R(?=[\s()<>[\]{}/%]|$)/y
+
+const ESCAPES: Record<string, string> = { n: '\n', r: '\r', t: '\t', b: '\b', f: '\f' }
+
+// Tokens and values of PDF syntax, shared by object definitions and content streams
+class PdfLexer {
+  constructor(
+    private readonly source: string,
+    public position = 0,
+  ) {}
+
+  private skipSpace() {
+    while (this.position < this.source.length) {
+      const char = this.source[this.position]
+      if (char === '%') {
+        while (this.position < this.source.length && !'\r\n'.includes(this.source[this.position])) {
+          this.position++
+        }
+      } else if (isWhitespace(char)) {
+        this.position++
+      } else {
+        return
+      }
+    }
+  }
+
+  // The next value, or an operator keyword. Undefined at the end of the source.
+  next(): PdfValue | PdfKeyword | undefined {
+    this.skipSpace()
+    if (this.position >= this.source.length) return undefined
+
+    const char = this.source[this.position]
+    if (char === '(') return this.literalString()
+    if (char === '/') return this.name()
+    if (char === '[') {
+      this.position++
+      return this.array()
+    }
+    if (char === '<') {
+      if (this.source[this.position + 1] === '<') {
+        this.position += 2
+        return this.dict()
+      }
+      return this.hexString()
+    }
+    if (char === ']' || char === '>' || char === ')' || char === '{' || char === '}') {
+      const word = this.source.startsWith('>>', this.position) ? '>>' : char
+      this.position += word.length
+      return new PdfKeyword(word)
+    }
+
+    const start = this.position
+    while (
+      this.position < this.source.length &&
+      !isWhitespace(this.source[this.position]) &&
+      !isDelimiter(this.source[this.position])
+    ) {
+      this.position++
+    }
+    const word = this.source.slice(start, this.position)
+    if (/^[+-]?(\d+\.?\d*|\.\d+)$/.test(word)) return this.numberOrRef(Number(word))
+    if (word === 'true' || word === 'false') return word === 'true'
+    if (word === 'null') return null
+    return new PdfKeyword(word)
+  }
+
+  // "12 0 R" is a reference, anything else after a number is left for the next call
+  private numberOrRef(value: number): PdfValue {
+    REFERENCE_TAIL.lastIndex = this.position
+    const match = REFERENCE_TAIL.exec(this.source)
+    if (!match || !Number.isInteger(value)) return value
+    this.position += match[0].length
+    return new PdfRef(value)
+  }
+
+  private array(): PdfValue[] {
+    const items: PdfValue[] = []
+    for (;;) {
+      const token = this.next()
+      if (token === undefined || (token instanceof PdfKeyword && token.word === ']')) return items
+      if (!(token instanceof PdfKeyword)) items.push(token)
+    }
+  }
+
+  private dict(): PdfDict {
+    const dict: PdfDict = new Map()
+    for (;;) {
+      const key = this.next()
+      if (key === undefined || (key instanceof PdfKeyword && key.word === '>>')) return dict
+      if (!(key instanceof PdfName)) continue
+      const value = this.next()
+      if (value !== undefined && !(value instanceof PdfKeyword)) dict.set(key.name, value)
+    }
+  }
+
+  private name(): PdfName {
+    const start = ++this.position
+    while (
+      this.position < this.source.length &&
+      !isWhitespace(this.source[this.position]) &&
+      !isDelimiter(this.source[this.position])
+    ) {
+      this.position++
+    }
+    return new PdfName(
+      this.source
+        .slice(start, this.position)
+        .replace(/#([0-9a-fA-F]{2})/g, (_, hex) => String.fromCharCode(parseInt(hex, 16))),
+    )
+  }
+
+  private hexString(): PdfString {
+    const end = this.source.indexOf('>', this.position)
+    const stop = end === -1 ? this.source.length : end
+    let hex = this.source.slice(this.position + 1, stop).replace(/[^0-9a-fA-F]/g, '')
+    this.position = stop + 1
+    if (hex.length % 2 === 1) hex += '0'
+
+    let bytes = ''
+    for (let index = 0; index < hex.length; index += 2) {
+      bytes += String.fromCharCode(parseInt(hex.slice(index, index + 2), 16))
+    }
+    return new PdfString(bytes)
+  }
+
+  // Balanced parentheses may appear unescaped inside a string
+  private literalString(): PdfString {
+    let depth = 0
+    let bytes = ''
+    this.position++
+
+    while (this.position < this.source.length) {
+      const char = this.source[this.position++]
+      if (char === '(') {
+        depth++
+      } else if (char === ')') {
+        if (depth === 0) break
+        depth--
+      } else if (char === '\\') {
+        const escaped = this.source[this.position++]
+        if (escaped in ESCAPES) {
+          bytes += ESCAPES[escaped]
+        } else if (/[0-7]/.test(escaped)) {
+          const octal = /^[0-7]{1,3}/.exec(this.source.slice(this.position - 1, this.position + 2))
+          this.position += (octal?.[0].length ?? 1) - 1
+          bytes += String.fromCharCode(parseInt(octal?.[0] ?? '0', 8) & 0xff)
+        } else if (escaped === '\r') {
+          if (this.source[this.position] === '\n') this.position++
+        } else if (escaped !== '\n') {
+          bytes += escaped
+        }
+        continue
+      }
+      bytes += char
+    }
+    return new PdfString(bytes)
+  }
+}
+
+const toBinary = (bytes: Uint8Array) => {
+  let text = ''
+  for (let index = 0; index < bytes.length; index += 0x8000) {
+    text += String.fromCharCode(...bytes.subarray(index, index + 0x8000))
+  }
+  return text
+}
+
+const fromBinary = (text: string) => Uint8Array.from(text, (char) => char.charCodeAt(0))
+
+// Inflates as much as it can. Plenty of PDFs have junk after the end of a stream.
+async function inflate(data: string): Promise<string> {
+  const body = new Response(fromBinary(data)).body
+  if (!body) return ''
+  const reader = body.pipeThrough(new DecompressionStream('deflate')).getReader()
+
+  let text = ''
+  try {
+    for (;;) {
+      const { done, value } = await reader.read()
+      if (done) break
+      text += toBinary(value)
+    }
+  } catch {
+    // Keep what was inflated before the error
+  }
+  return text
+}
+
+const nameOf = (value: PdfValue | undefined) => (value instanceof PdfName ? value.name : undefined)
+
+class PdfDocument {
+  private readonly objects = new Map<number, PdfValue>()
+
+  constructor(private readonly source: string) {}
+
+  // Every "n 0 obj" in the file, later definitions replacing earlier ones the way an
+  // incremental update does, then the objects packed into object streams
+  async load() {
+    const header = /(\d+)\s+\d+\s+obj\b/g
+    for (let match = header.exec(this.source); match; match = header.exec(this.source)) {
+      const lexer = new PdfLexer(this.source, header.lastIndex)
+      const value = lexer.next()
+      if (value === undefined || value instanceof PdfKeyword) continue
+
+      const keyword = lexer.next()
+      if (value instanceof Map && keyword instanceof PdfKeyword && keyword.word === 'stream') {
+        const stream = this.readStream(value, lexer.position)
+        this.objects.set(Number(match[1]), stream)
+        header.lastIndex = lexer.position + stream.raw.length
+      } else {
+        this.objects.set(Number(match[1]), value)
+      }
+    }
+
+    for (const value of [...this.objects.values()]) {
+      if (value instanceof PdfStream && nameOf(value.dict.get('Type')) === 'ObjStm') {
+        await this.loadObjectStream(value)
+      }
+    }
+  }
+
+  // Data starts after the end of line following "stream". /Length is trusted only when
+  // endstream is where it says.
+  private readStream(dict: PdfDict, afterKeyword: number): PdfStream {
+    let start = afterKeyword
+    if (this.source[start] === '\r') start++
+    if (this.source[start] === '\n') start++
+
+    const length = dict.get('Length')
+    if (typeof length === 'number') {
+      const lexer = new PdfLexer(this.source, start + length)
+      const keyword = lexer.next()
+      if (keyword instanceof PdfKeyword && keyword.word === 'endstream') {
+        return new PdfStream(dict, this.source.slice(start, start + length))
+      }
+    }
+
+    const end = this.source.indexOf('endstream', start)
+    const raw = this.source.slice(start, end === -1 ? this.source.length : end)
+    return new PdfStream(dict, raw.replace(/\r?\n$/, ''))
+  }
+
+  private async loadObjectStream(stream: PdfStream) {
+    const data = await this.decode(stream)
+    const count = stream.dict.get('N')
+    const first = stream.dict.get('First')
+    if (data === null || typeof count !== 'number' || typeof first !== 'number') return
+
+    const lexer = new PdfLexer(data)
+    for (let index = 0; index < count; index++) {
+      const num = lexer.next()
+      const offset = lexer.next()
+      if (typeof num !== 'number' || typeof offset !== 'number') return
+      if (this.objects.has(num)) continue
+
+      const value = new PdfLexer(data, first + offset).next()
+      if (value !== undefined && !(value instanceof PdfKeyword)) this.objects.set(num, value)
+    }
+  }
+
+  resolve(value: PdfValue | undefined): PdfValue | undefined {
+    for (let depth = 0; value instanceof PdfRef && depth < 32; depth++) {
+      value = this.objects.get(value.num)
+    }
+    return value instanceof PdfRef ? undefined : value
+  }
+
+  dict(value: PdfValue | undefined): PdfDict | undefined {
+    const resolved = this.resolve(value)
+    if (resolved instanceof PdfStream) return resolved.dict
+    return resolved instanceof Map ? resolved : undefined
+  }
+
+  // The stream's data with its filters undone, or null for filters that only images use
+  async decode(stream: PdfStream): Promise<string | null> {
+    const filter = this.resolve(stream.dict.get('Filter'))
+    const filters = (Array.isArray(filter) ? filter : filter ? [filter] : []).map(nameOf)
+
+    let data = stream.raw
+    for (const name of filters) {
+      if (name !== 'FlateDecode' && name !== 'Fl') return null
+      data = await inflate(data)
+    }
+    return data
+  }
+
+  // The catalog named by the last trailer, or any catalog when the trailer can't be found
+  private catalog(): PdfDict | undefined {
+    const roots = [...this.source.matchAll(/\/Root\s+(\d+)\s+\d+\s+R/g)]
+    const root =
+      roots.length > 0 ? this.dict(new PdfRef(Number(roots[roots.length - 1][1]))) : undefined
+    if (root) return root
+
+    for (const value of this.objects.values()) {
+      if (value instanceof Map && nameOf(value.get('Type')) === 'Catalog') return value
+    }
+    return undefined
+  }
+
+  // Pages in reading order, each with the resources it has or inherits
+  pages(): Array<{ page: PdfDict; resources?: PdfDict }> {
+    const pages: Array<{ page: PdfDict; resources?: PdfDict }> = []
+    const seen = new Set<PdfDict>()
+
+    const walk = (node: PdfDict | undefined, inherited?: PdfDict) => {
+      if (!node || seen.has(node)) return
+      seen.add(node)
+
+      const resources = this.dict(node.get('Resources')) ?? inherited
+      const kids = this.resolve(node.get('Kids'))
+      if (Array.isArray(kids)) {
+        kids.forEach((kid) => walk(this.dict(kid), resources))
+      } else {
+        pages.push({ page: node, resources })
+      }
+    }
+
+    walk(this.dict(this.catalog()?.get('Pages')))
+    return pages
+  }
+}
+
+// How a font's string bytes become text
+interface FontDecoder {
+  codeLength: number
+  map?: Map<number, string>
+}
+
+const utf16 = (bytes: string) => {
+  let text = ''
+  for (let index = 0; index + 1 < bytes.length; index += 2) {
+    text += String.fromCharCode((bytes.charCodeAt(index) << 8) | bytes.charCodeAt(index + 1))
+  }
+  return text
+}
+
+const codeOf = (bytes: string) =>
+  Array.from(bytes).reduce((code, char) => code * 256 + char.charCodeAt(0), 0)
+
+// The bfchar and bfrange sections of a ToUnicode CMap
+function parseToUnicode(cmap: string): FontDecoder {
+  const decoder: FontDecoder = { codeLength: 1, map: new Map() }
+  const lexer = new PdfLexer(cmap)
+  let operands: PdfValue[] = []
+
+  for (let token = lexer.next(); token !== undefined; token = lexer.next()) {
+    if (!(token instanceof PdfKeyword)) {
+      operands.push(token)
+      continue
+    }
+
+    const strings = operands.filter((operand) => operand instanceof PdfString)
+    if (token.word === 'endcodespacerange' && strings.length > 0) {
+      decoder.codeLength = strings[0].bytes.length
+    } else if (token.word === 'endbfchar') {
+      for (let index = 0; index + 1 < operands.length; index += 2) {
+        const [source, target] = [operands[index], operands[index + 1]]
+        if (source instanceof PdfString && target instanceof PdfString) {
+          decoder.map?.set(codeOf(source.bytes), utf16(target.bytes))
+        }
+      }
+    } else if (token.word === 'endbfrange') {
+      for (let index = 0; index + 2 < operands.length; index += 3) {
+        const [low, high, target] = operands.slice(index, index + 3)
+        if (!(low instanceof PdfString) || !(high instanceof PdfString)) continue
+        const from = codeOf(low.bytes)
+        const to = Math.min(codeOf(high.bytes), from + 0xffff)
+
+        for (let code = from; code <= to; code++) {
+          if (Array.isArray(target)) {
+            const item = target[code - from]
+            if (item instanceof PdfString) decoder.map?.set(code, utf16(item.bytes))
+          } else if (target instanceof PdfString) {
+            // The last UTF-16 unit counts up through the range
+            const text = utf16(target.bytes)
+            const last = text.charCodeAt(text.length - 1) + code - from
+            decoder.map?.set(code, text.slice(0, -1) + String.fromCharCode(last))
+          }
+        }
+      }
+    }
+    operands = []
+  }
+  return decoder
+}
+
+function decodeString(bytes: string, font: FontDecoder | undefined): string {
+  // Simple fonts without a map are close enough to Latin-1
+  if (!font?.map) return font?.codeLength === 2 ? '' : bytes
+
+  let text = ''
+  for (let index = 0; index < bytes.length; index += font.codeLength) {
+    const code = codeOf(bytes.slice(index, index + font.codeLength))
+    text += font.map.get(code) ?? ''
+  }
+  return text
+}
+
+async function loadFonts(pdf: PdfDocument, resources?: PdfDict) {
+  const fonts = new Map<string, FontDecoder>()
+  const fontDict = pdf.dict(resources?.get('Font'))
+  if (!fontDict) return fonts
+
+  for (const [name, ref] of fontDict) {
+    const font = pdf.dict(ref)
+    const toUnicode = pdf.resolve(font?.get('ToUnicode'))
+    const cmap = toUnicode instanceof PdfStream ? await pdf.decode(toUnicode) : null
+    if (cmap !== null) {
+      fonts.set(name, parseToUnicode(cmap))
+    } else {
+      fonts.set(name, { codeLength: nameOf(font?.get('Subtype')) === 'Type0' ? 2 : 1 })
+    }
+  }
+  return fonts
+}
+
+// Wide negative adjustments inside a TJ array are how many PDFs space out words
+const WORD_GAP = -200
+
+// The text a page's content stream shows. Lines break when text moves to a new line,
+// which is as much layout as can be recovered without measuring glyphs.
+function extractText(content: string, fonts: Map<string, FontDecoder>): string {
+  const lines: string[] = []
+  let line = ''
+  let font: FontDecoder | undefined
+  let lineY: number | undefined
+  let operands: PdfValue[] = []
+
+  const newLine = () => {
+    lines.push(line)
+    line = ''
+  }
+  const show = (value: PdfValue) => {
+    if (value instanceof PdfString) line += decodeString(value.bytes, font)
+  }
+
+  const lexer = new PdfLexer(content)
+  for (let token = lexer.next(); token !== undefined; token = lexer.next()) {
+    if (!(token instanceof PdfKeyword)) {
+      operands.push(token)
+      continue
+    }
+
+    switch (token.word) {
+      case 'Tf':
+        font = fonts.get(nameOf(operands[0]) ?? '')
+        break
+      case 'Tj':
+        show(operands[0])
+        break
+      case "'":
+        newLine()
+        show(operands[0])
+        break
+      case '"':
+        newLine()
+        show(operands[2])
+        break
+      case 'TJ':
+        for (const item of Array.isArray(operands[0]) ? operands[0] : []) {
+          if (typeof item === 'number' && item < WORD_GAP && !line.endsWith(' ')) line += ' '
+          else show(item)
+        }
+        break
+      case 'Td':
+      case 'TD':
+        if (operands[1] !== 0) newLine()
+        break
+      case 'T*':
+        newLine()
+        break
+      case 'Tm': {
+        const y = operands[5]
+        if (typeof y === 'number') {
+          if (lineY !== undefined && Math.abs(y - lineY) > 0.5) newLine()
+          lineY = y
+        }
+        break
+      }
+      case 'ID': {
+        // Inline image data is binary and ends at EI
+        const end = content.slice(lexer.position).search(/\sEI(\s|$)/)
+        lexer.position = end === -1 ? content.length : lexer.position + end + 3
+        break
+      }
+    }
+    operands = []
+  }
+  newLine()
+
+  return lines
+    .map((text) => text.replace(/\s+$/, ''))
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim()
+}
+
+// The text of every page, in order. Pages without text come back empty.
+export async function extractPdfPages(data: Uint8Array): Promise<string[]> {
+  const source = toBinary(data)
+  if (!source.startsWith('%PDF-')) throw new Error('Not a PDF file')
+  if (/\/Encrypt\s+\d+\s+\d+\s+R/.test(source)) throw new Error('Encrypted PDFs are not supported')
+
+  const pdf = new PdfDocument(source)
+  await pdf.load()
+
+  const pages: string[] = []
+  for (const { page, resources } of pdf.pages()) {
+    const contents = pdf.resolve(page.get('Contents'))
+    const streams = (Array.isArray(contents) ? contents : [contents]).map((item) =>
+      pdf.resolve(item),
+    )
+
+    // A page's content can be split across streams anywhere, even inside an operator
+    const parts: string[] = []
+    for (const stream of streams) {
+      if (stream instanceof PdfStream) parts.push((await pdf.decode(stream)) ?? '')
+    }
+    pages.push(extractText(parts.join('\n'), await loadFonts(pdf, resources)))
+  }
+  return pages
+}
@@ -1,12 +1,41 @@
-import type { Message, ContextItem } from '@/types/chat'
+import type {
+  Message,
+  ContextItem,
+  Conversation,
+  Persona,
+  ArenaVote,
+  RetrievalSettings,
+} from '@/types/chat'
+import type {
+  ChatProvider,
+  GenerationParams,
+  ServerCredentials,
+  ServerProfile,
+} from '@/types/api'
+import { sanitizeGenerationParams } from './generationParams'
 import {
   validateMessagesArray,
   validateContextsArray,
+  validateConversationsArray,
+  validatePersonasArray,
   validateStorageData,
+  reviveDates,
   safeParseMessages,
   safeParseContexts,
+  safeParseConversations,
+  safeParsePersonas,
   ValidationError,
 } from './validation'
+import {
+  DB_STORES,
+  isIndexedDbAvailable,
+  openDatabase,
+  requestToPromise,
+  transactionDone,
+  type EmbeddingRecord,
+  type MessageEmbeddingRecord,
+  type MessageRecord,
+} from './database'
 
 // Storage Keys
 export const STORAGE_KEYS = {
@@ -15,57 +44,543 @@ export const STORAGE_KEYS = {
   ACTIVE_CONTEXTS: 'yokai-chat-active-contexts',
   CURRENT_MODEL: 'yokai-chat-current-model',
   LMSTUDIO_BASE_URL: 'yokai-chat-lmstudio-base-url',
+  PROVIDER: 'yokai-chat-provider',
+  CONVERSATIONS: 'yokai-chat-conversations',
+  ACTIVE_CONVERSATION: 'yokai-chat-active-conversation',
+  MODEL_PRESETS: 'yokai-chat-model-presets',
+  PERSONAS: 'yokai-chat-personas',
+  CONTEXT_WINDOWS: 'yokai-chat-context-windows',
+  SERVER_PROFILES: 'yokai-chat-server-profiles',
+  ARENA_VOTES: 'yokai-chat-arena-votes',
+  ACTIVE_PROFILE: 'yokai-chat-active-profile',
+  ENABLED_TOOLS: 'yokai-chat-enabled-tools',
+  RETRIEVAL_SETTINGS: 'yokai-chat-retrieval-settings',
+  // API keys never go into exportState
+  SERVER_CREDENTIALS: 'yokai-chat-server-credentials',
 } as const
 
+// Each conversation keeps its messages under its own key so switching threads
+// never rewrites the others
+export const CONVERSATION_MESSAGES_PREFIX = 'yokai-chat-conversation-messages-'
+
+export const conversationMessagesKey = (conversationId: string): string =>
+  `${CONVERSATION_MESSAGES_PREFIX}${conversationId}`
+
+// Version of the exported state format, bump it together with EXPORT_MIGRATIONS
+export const EXPORT_VERSION = '2.0.0'
+
+type ExportedState = Record<string, unknown> & { version: string; timestamp: string }
+
+// Upgrades for exported state, keyed by the version they upgrade from
+const EXPORT_MIGRATIONS: Record<string, (state: ExportedState) => ExportedState> = {
+  // 1.0.0 kept one global message list next to (or instead of) conversations
+  '1.0.0': (state) => {
+    const conversations = Array.isArray(state.conversations) ? [...state.conversations] : []
+    const messages = Array.isArray(state.messages) ? state.messages : []
+
+    if (messages.length > 0) {
+      conversations.push({
+        id: `imported-${Date.parse(state.timestamp) || Date.now()}`,
+        title: 'Imported conversation',
+        model: typeof state.currentModel === 'string' ? state.currentModel : '',
+        activeContextIds: Array.isArray(state.activeContexts) ? state.activeContexts : [],
+        createdAt: state.timestamp,
+        updatedAt: state.timestamp,
+        messageCount: messages.length,
+        messages,
+      })
+    }
+
+    return { ...state, messages: undefined, conversations, version: '2.0.0' }
+  },
+}
+
+export function migrateExportedState(state: ExportedState): ExportedState {
+  let migrated = state
+  while (migrated.version !== EXPORT_VERSION) {
+    const migrate = EXPORT_MIGRATIONS[migrated.version]
+    if (!migrate) {
+      throw new ValidationError(`Unsupported state version ${migrated.version}`, 'import')
+    }
+    migrated = migrate(migrated)
+  }
+  return migrated
+}
+
+// Pending IndexedDB writes, coalesced by key so a streamed message is written once per flush
+type PendingWrite =
+  | { type: 'setItem'; key: string; value: string }
+  | { type: 'removeItem'; key: string }
+  | { type: 'putMessage'; record: MessageRecord }
+  | { type: 'deleteMessage'; conversationId: string; id: number }
+  | { type: 'clearConversation'; conversationId: string }
+  | { type: 'clearAll' }
+
+const FLUSH_DELAY_MS = 100
+
+// Reactive proxies and Dates must become plain, cloneable data before they are stored
+const toStorableMessage = (message: Message): Message =>
+  reviveDates<Message>([JSON.parse(JSON.stringify(message))], ['timestamp'])[0]
+
 // Serialization/Deserialization
 export class StatePersistence {
+  // IndexedDB backend, null until initialize() succeeds (localStorage is used meanwhile)
+  private static db: IDBDatabase | null = null
+  private static settingsCache = new Map<string, string>()
+  private static messageCache = new Map<string, Map<number, MessageRecord>>()
+  private static pendingWrites = new Map<string, PendingWrite>()
+  private static retriedWrites = new WeakSet<PendingWrite>()
+  private static flushTimer: ReturnType<typeof setTimeout> | null = null
+  // Embeddings when IndexedDB is unavailable, they are too big for localStorage
+  private static embeddingFallback = new Map<string, EmbeddingRecord>()
+  private static messageEmbeddingFallback = new Map<string, MessageEmbeddingRecord>()
+
+  static get usesIndexedDb(): boolean {
+    return this.db !== null
+  }
+
+  // Open the database, migrate legacy localStorage data once and load everything into
+  // memory so the synchronous API below keeps working
+  static async initialize(): Promise<void> {
+    if (this.db || !isIndexedDbAvailable()) return
+
+    try {
+      const legacyKeys = this.listLegacyKeys()
+      let migrated = false
+
+      const db = await openDatabase((transaction) => {
+        this.seedFromLocalStorage(transaction, legacyKeys)
+        migrated = true
+      })
+      await this.hydrate(db)
+      this.db = db
+
+      if (migrated) {
+        legacyKeys.forEach((key) => localStorage.removeItem(key))
+        console.log('Migrated', legacyKeys.length, 'localStorage keys to IndexedDB')
+      }
+
+      // Don't lose queued writes when the tab goes away
+      if (typeof document !== 'undefined') {
+        document.addEventListener('visibilitychange', () => {
+          if (document.visibilityState === 'hidden') {
+            void this.flush()
+          }
+        })
+      }
+    } catch (error) {
+      console.warn('IndexedDB unavailable, falling back to localStorage:', error)
+      this.db = null
+    }
+  }
+
+  static async flush(): Promise<void> {
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer)
+      this.flushTimer = null
+    }
+    if (!this.db || this.pendingWrites.size === 0) return
+
+    const writes = [...this.pendingWrites]
+    this.pendingWrites.clear()
+
+    try {
+      const transaction = this.db.transaction(
+        [
+          DB_STORES.SETTINGS,
+          DB_STORES.MESSAGES,
+          DB_STORES.EMBEDDINGS,
+          DB_STORES.MESSAGE_EMBEDDINGS,
+        ],
+        'readwrite',
+      )
+      const settings = transaction.objectStore(DB_STORES.SETTINGS)
+      const messages = transaction.objectStore(DB_STORES.MESSAGES)
+
+      writes.forEach(([, write]) => {
+        switch (write.type) {
+          case 'setItem':
+            settings.put(write.value, write.key)
+            break
+          case 'removeItem':
+            settings.delete(write.key)
+            break
+          case 'putMessage':
+            messages.put(write.record)
+            break
+          case 'deleteMessage':
+            messages.delete([write.conversationId, write.id])
+            break
+          case 'clearConversation':
+            messages.delete(
+              IDBKeyRange.bound(
+                [write.conversationId, -Infinity],
+                [write.conversationId, Infinity],
+              ),
+            )
+            break
+          case 'clearAll':
+            settings.clear()
+            messages.clear()
+            transaction.objectStore(DB_STORES.EMBEDDINGS).clear()
+            transaction.objectStore(DB_STORES.MESSAGE_EMBEDDINGS).clear()
+            break
+        }
+      })
+
+      await transactionDone(transaction)
+    } catch (error) {
+      console.warn('Failed to write to IndexedDB:', error)
+      this.requeueFailedWrites(writes)
+    }
+  }
+
+  // Failed writes go back ahead of anything queued since, unless a newer write replaced them.
+  // A write that fails twice is dropped so one bad record can't block every later flush.
+  private static requeueFailedWrites(writes: Array<[string, PendingWrite]>): void {
+    const retry = writes.filter(([key, write]) => {
+      if (this.pendingWrites.has(key)) return false
+      if (this.retriedWrites.has(write)) {
+        console.warn('Dropping a write IndexedDB rejected twice:', key)
+        return false
+      }
+      this.retriedWrites.add(write)
+      return true
+    })
+    if (retry.length === 0) return
+
+    this.pendingWrites = new Map([...retry, ...this.pendingWrites])
+    if (!this.flushTimer) {
+      this.flushTimer = setTimeout(() => void this.flush(), FLUSH_DELAY_MS)
+    }
+  }
+
+  // Flush and drop the connection, the next initialize() starts from a clean slate
+  static async disconnect(): Promise<void> {
+    await this.flush()
+    this.db?.close()
+    this.db = null
+    this.settingsCache.clear()
+    this.messageCache.clear()
+  }
+
+  private static queueWrite(key: string, write: PendingWrite): void {
+    // Re-inserting moves the write to the end so ordering against clears is preserved
+    this.pendingWrites.delete(key)
+    this.pendingWrites.set(key, write)
+
+    if (!this.flushTimer) {
+      this.flushTimer = setTimeout(() => void this.flush(), FLUSH_DELAY_MS)
+    }
+  }
+
+  private static listLegacyKeys(): string[] {
+    try {
+      return Object.keys(localStorage).filter((key) => key.startsWith('yokai-chat-'))
+    } catch {
+      return []
+    }
+  }
+
+  private static seedFromLocalStorage(transaction: IDBTransaction, keys: string[]): void {
+    const settings = transaction.objectStore(DB_STORES.SETTINGS)
+    const messages = transaction.objectStore(DB_STORES.MESSAGES)
+
+    keys.forEach((key) => {
+      const value = localStorage.getItem(key)
+      if (value === null) return
+
+      if (key.startsWith(CONVERSATION_MESSAGES_PREFIX)) {
+        const conversationId = key.slice(CONVERSATION_MESSAGES_PREFIX.length)
+        const parsed = safeParseMessages(value) ?? []
+        parsed.forEach((message, order) => {
+          messages.put({ conversationId, id: message.id, order, message })
+        })
+      } else {
+        settings.put(value, key)
+      }
+    })
+  }
+
+  private static async hydrate(db: IDBDatabase): Promise<void> {
+    const transaction = db.transaction([DB_STORES.SETTINGS, DB_STORES.MESSAGES], 'readonly')
+    const settings = transaction.objectStore(DB_STORES.SETTINGS)
+    const [keys, values, records] = await Promise.all([
+      requestToPromise(settings.getAllKeys()),
+      requestToPromise(settings.getAll()),
+      requestToPromise(transaction.objectStore(DB_STORES.MESSAGES).getAll()),
+    ])
+
+    this.settingsCache.clear()
+    keys.forEach((key, index) => this.settingsCache.set(String(key), values[index]))
+
+    this.messageCache.clear()
+    ;(records as MessageRecord[]).forEach((record) => {
+      this.conversationRecords(record.conversationId).set(record.id, record)
+    })
+  }
+
+  private static conversationRecords(conversationId: string): Map<number, MessageRecord> {
+    let records = this.messageCache.get(conversationId)
+    if (!records) {
+      records = new Map()
+      this.messageCache.set(conversationId, records)
+    }
+    return records
+  }
+
+  private static readItem(key: string): string | null {
+    if (!this.db) return localStorage.getItem(key)
+    return this.settingsCache.get(key) ?? null
+  }
+
+  private static writeItem(key: string, value: string): void {
+    if (!this.db) {
+      localStorage.setItem(key, value)
+      return
+    }
+    this.settingsCache.set(key, value)
+    this.queueWrite(`setting:${key}`, { type: 'setItem', key, value })
+  }
+
+  private static removeItem(key: string): void {
+    if (!this.db) {
+      localStorage.removeItem(key)
+      return
+    }
+    this.settingsCache.delete(key)
+    this.queueWrite(`setting:${key}`, { type: 'removeItem', key })
+  }
+
   // Messages
   static saveMessages(messages: Message[]): void {
     try {
       const serialized = JSON.stringify(messages)
-      localStorage.setItem(STORAGE_KEYS.MESSAGES, serialized)
+      this.writeItem(STORAGE_KEYS.MESSAGES, serialized)
     } catch (error) {
-      console.warn('Failed to save messages to localStorage:', error)
+      console.warn('Failed to save messages to storage:', error)
       throw new ValidationError('Failed to save messages', 'messages')
     }
   }
 
   static loadMessages(): Message[] {
     try {
-      const stored = localStorage.getItem(STORAGE_KEYS.MESSAGES)
+      const stored = this.readItem(STORAGE_KEYS.MESSAGES)
       if (!stored) return []
 
       const parsed = safeParseMessages(stored)
       if (!parsed) {
-        console.warn('Invalid messages data in localStorage, clearing...')
-        localStorage.removeItem(STORAGE_KEYS.MESSAGES)
+        console.warn('Invalid messages data in storage, clearing...')
+        this.removeItem(STORAGE_KEYS.MESSAGES)
         return []
       }
 
       return parsed
     } catch (error) {
-      console.warn('Failed to load messages from localStorage:', error)
+      console.warn('Failed to load messages from storage:', error)
       return []
     }
   }
 
+  static clearMessages(): void {
+    try {
+      this.removeItem(STORAGE_KEYS.MESSAGES)
+    } catch (error) {
+      console.warn('Failed to clear messages from storage:', error)
+    }
+  }
+
+  // Conversations
+  static saveConversations(conversations: Conversation[]): void {
+    try {
+      const serialized = JSON.stringify(conversations)
+      this.writeItem(STORAGE_KEYS.CONVERSATIONS, serialized)
+    } catch (error) {
+      console.warn('Failed to save conversations to storage:', error)
+      throw new ValidationError('Failed to save conversations', 'conversations')
+    }
+  }
+
+  static loadConversations(): Conversation[] {
+    try {
+      const stored = this.readItem(STORAGE_KEYS.CONVERSATIONS)
+      if (!stored) return []
+
+      const parsed = safeParseConversations(stored)
+      if (!parsed) {
+        console.warn('Invalid conversations data in storage, clearing...')
+        this.removeItem(STORAGE_KEYS.CONVERSATIONS)
+        return []
+      }
+
+      return parsed
+    } catch (error) {
+      console.warn('Failed to load conversations from storage:', error)
+      return []
+    }
+  }
+
+  static saveConversationMessages(conversationId: string, messages: Message[]): void {
+    try {
+      if (!this.db) {
+        const serialized = JSON.stringify(messages)
+        this.writeItem(conversationMessagesKey(conversationId), serialized)
+        return
+      }
+
+      const records = this.conversationRecords(conversationId)
+      records.clear()
+      this.queueWrite(`conversation:${conversationId}`, {
+        type: 'clearConversation',
+        conversationId,
+      })
+      messages.forEach((message) => this.saveMessage(conversationId, message))
+    } catch (error) {
+      console.warn('Failed to save conversation messages to storage:', error)
+      throw new ValidationError('Failed to save conversation messages', 'messages')
+    }
+  }
+
+  // Incremental write of a single message, inserting it at the end if it is new
+  static saveMessage(conversationId: string, message: Message): void {
+    try {
+      if (!this.db) {
+        const messages = this.loadConversationMessages(conversationId)
+        const index = messages.findIndex((m) => m.id === message.id)
+        if (index === -1) {
+          messages.push(message)
+        } else {
+          messages[index] = message
+        }
+        this.writeItem(conversationMessagesKey(conversationId), JSON.stringify(messages))
+        return
+      }
+
+      const records = this.conversationRecords(conversationId)
+      const existing = records.get(message.id)
+      const order =
+        existing?.order ??
+        [...records.values()].reduce((max, record) => Math.max(max, record.order), -1) + 1
+      const record: MessageRecord = {
+        conversationId,
+        id: message.id,
+        order,
+        message: toStorableMessage(message),
+      }
+
+      records.set(message.id, record)
+      this.queueWrite(`message:${conversationId}:${message.id}`, { type: 'putMessage', record })
+    } catch (error) {
+      console.warn('Failed to save message to storage:', error)
+      throw new ValidationError('Failed to save message', 'messages')
+    }
+  }
+
+  static deleteMessage(conversationId: string, messageId: number): void {
+    try {
+      if (!this.db) {
+        const messages = this.loadConversationMessages(conversationId)
+        this.writeItem(
+          conversationMessagesKey(conversationId),
+          JSON.stringify(messages.filter((m) => m.id !== messageId)),
+        )
+        return
+      }
+
+      this.conversationRecords(conversationId).delete(messageId)
+      this.queueWrite(`message:${conversationId}:${messageId}`, {
+        type: 'deleteMessage',
+        conversationId,
+        id: messageId,
+      })
+    } catch (error) {
+      console.warn('Failed to delete message from storage:', error)
+    }
+  }
+
+  static loadConversationMessages(conversationId: string): Message[] {
+    try {
+      if (this.db) {
+        const records = this.messageCache.get(conversationId)
+        if (!records) return []
+
+        return [...records.values()]
+          .sort((a, b) => a.order - b.order)
+          .map((record) => ({ ...record.message }))
+      }
+
+      const stored = this.readItem(conversationMessagesKey(conversationId))
+      if (!stored) return []
+
+      const parsed = safeParseMessages(stored)
+      if (!parsed) {
+        console.warn('Invalid conversation messages in storage, clearing...')
+        this.removeItem(conversationMessagesKey(conversationId))
+        return []
+      }
+
+      return parsed
+    } catch (error) {
+      console.warn('Failed to load conversation messages from storage:', error)
+      return []
+    }
+  }
+
+  static deleteConversationMessages(conversationId: string): void {
+    try {
+      if (!this.db) {
+        this.removeItem(conversationMessagesKey(conversationId))
+        return
+      }
+
+      this.messageCache.delete(conversationId)
+      this.queueWrite(`conversation:${conversationId}`, {
+        type: 'clearConversation',
+        conversationId,
+      })
+    } catch (error) {
+      console.warn('Failed to delete conversation messages from storage:', error)
+    }
+  }
+
+  static saveActiveConversationId(conversationId: string): void {
+    try {
+      this.writeItem(STORAGE_KEYS.ACTIVE_CONVERSATION, JSON.stringify(conversationId))
+    } catch (error) {
+      console.warn('Failed to save active conversation to storage:', error)
+    }
+  }
+
+  static loadActiveConversationId(): string | null {
+    try {
+      const stored = this.readItem(STORAGE_KEYS.ACTIVE_CONVERSATION)
+      if (!stored) return null
+
+      const parsed = JSON.parse(stored)
+      return typeof parsed === 'string' && parsed !== '' ? parsed : null
+    } catch (error) {
+      console.warn('Failed to load active conversation from storage:', error)
+      return null
+    }
+  }
+
   // Contexts
   static saveContexts(contexts: ContextItem[]): void {
     try {
       console.log('StatePersistence.saveContexts called with:', contexts.length, 'contexts')
       const serialized = JSON.stringify(contexts)
-      localStorage.setItem(STORAGE_KEYS.CONTEXTS, serialized)
-      console.log('Contexts serialized and saved to localStorage with key:', STORAGE_KEYS.CONTEXTS)
+      this.writeItem(STORAGE_KEYS.CONTEXTS, serialized)
+      console.log('Contexts serialized and saved to storage with key:', STORAGE_KEYS.CONTEXTS)
     } catch (error) {
-      console.warn('Failed to save contexts to localStorage:', error)
+      console.warn('Failed to save contexts to storage:', error)
       throw new ValidationError('Failed to save contexts', 'contexts')
     }
   }
 
   static loadContexts(): ContextItem[] {
     try {
-      console.log('StatePersistence.loadContexts called, checking localStorage for key:', STORAGE_KEYS.CONTEXTS)
-      const stored = localStorage.getItem(STORAGE_KEYS.CONTEXTS)
+      console.log('StatePersistence.loadContexts called, checking storage for key:', STORAGE_KEYS.CONTEXTS)
+      const stored = this.readItem(STORAGE_KEYS.CONTEXTS)
       console.log('Raw stored data:', stored)
       if (!stored) {
         console.log('No stored contexts found')
@@ -74,15 +589,48 @@ export class StatePersistence {
 
       const parsed = safeParseContexts(stored)
       if (!parsed) {
-        console.warn('Invalid contexts data in localStorage, clearing...')
-        localStorage.removeItem(STORAGE_KEYS.CONTEXTS)
+        console.warn('Invalid contexts data in storage, clearing...')
+        this.removeItem(STORAGE_KEYS.CONTEXTS)
         return []
       }
 
-      console.log('Successfully loaded', parsed.length, 'contexts from localStorage')
+      console.log('Successfully loaded', parsed.length, 'contexts from storage')
       return parsed
     } catch (error) {
-      console.warn('Failed to load contexts from localStorage:', error)
+      console.warn('Failed to load contexts from storage:', error)
+      return []
+    }
+  }
+
+  // Personas
+  static savePersonas(personas: Persona[]): void {
+    try {
+      const serialized = JSON.stringify(personas)
+      this.writeItem(STORAGE_KEYS.PERSONAS, serialized)
+    } catch (error) {
+      console.warn('Failed to save personas to storage:', error)
+      throw new ValidationError('Failed to save personas', 'personas')
+    }
+  }
+
+  static loadPersonas(): Persona[] {
+    try {
+      const stored = this.readItem(STORAGE_KEYS.PERSONAS)
+      if (!stored) return []
+
+      const parsed = safeParsePersonas(stored)
+      if (!parsed) {
+        console.warn('Invalid personas data in storage, clearing...')
+        this.removeItem(STORAGE_KEYS.PERSONAS)
+        return []
+      }
+
+      return parsed.map((persona) => ({
+        ...persona,
+        params: persona.params ? sanitizeGenerationParams(persona.params) : undefined,
+      }))
+    } catch (error) {
+      console.warn('Failed to load personas from storage:', error)
       return []
     }
   }
@@ -91,27 +639,27 @@ export class StatePersistence {
   static saveActiveContexts(contextIds: string[]): void {
     try {
       const serialized = JSON.stringify(contextIds)
-      localStorage.setItem(STORAGE_KEYS.ACTIVE_CONTEXTS, serialized)
+      this.writeItem(STORAGE_KEYS.ACTIVE_CONTEXTS, serialized)
     } catch (error) {
-      console.warn('Failed to save active contexts to localStorage:', error)
+      console.warn('Failed to save active contexts to storage:', error)
     }
   }
 
   static loadActiveContexts(): string[] {
     try {
-      const stored = localStorage.getItem(STORAGE_KEYS.ACTIVE_CONTEXTS)
+      const stored = this.readItem(STORAGE_KEYS.ACTIVE_CONTEXTS)
       if (!stored) return []
 
       const parsed = JSON.parse(stored)
       if (!Array.isArray(parsed) || !parsed.every((id) => typeof id === 'string')) {
-        console.warn('Invalid active contexts data in localStorage, clearing...')
-        localStorage.removeItem(STORAGE_KEYS.ACTIVE_CONTEXTS)
+        console.warn('Invalid active contexts data in storage, clearing...')
+        this.removeItem(STORAGE_KEYS.ACTIVE_CONTEXTS)
         return []
       }
 
       return parsed
     } catch (error) {
-      console.warn('Failed to load active contexts from localStorage:', error)
+      console.warn('Failed to load active contexts from storage:', error)
       return []
     }
   }
@@ -119,18 +667,18 @@ export class StatePersistence {
   // Current Model
   static saveCurrentModel(model: string): void {
     try {
-      localStorage.setItem(STORAGE_KEYS.CURRENT_MODEL, model)
+      this.writeItem(STORAGE_KEYS.CURRENT_MODEL, model)
     } catch (error) {
-      console.warn('Failed to save current model to localStorage:', error)
+      console.warn('Failed to save current model to storage:', error)
     }
   }
 
   static loadCurrentModel(): string | null {
     try {
-      const stored = localStorage.getItem(STORAGE_KEYS.CURRENT_MODEL)
+      const stored = this.readItem(STORAGE_KEYS.CURRENT_MODEL)
       return stored || null
     } catch (error) {
-      console.warn('Failed to load current model from localStorage:', error)
+      console.warn('Failed to load current model from storage:', error)
       return null
     }
   }
@@ -138,30 +686,395 @@ export class StatePersistence {
   // LM Studio Base URL
   static saveLMStudioBaseUrl(url: string): void {
     try {
-      localStorage.setItem(STORAGE_KEYS.LMSTUDIO_BASE_URL, url)
+      this.writeItem(STORAGE_KEYS.LMSTUDIO_BASE_URL, url)
     } catch (error) {
-      console.warn('Failed to save LM Studio base URL to localStorage:', error)
+      console.warn('Failed to save LM Studio base URL to storage:', error)
     }
   }
 
   static loadLMStudioBaseUrl(): string | null {
     try {
-      const stored = localStorage.getItem(STORAGE_KEYS.LMSTUDIO_BASE_URL)
+      const stored = this.readItem(STORAGE_KEYS.LMSTUDIO_BASE_URL)
       return stored || null
     } catch (error) {
-      console.warn('Failed to load LM Studio base URL from localStorage:', error)
+      console.warn('Failed to load LM Studio base URL from storage:', error)
+      return null
+    }
+  }
+
+  // Which kind of server the base URL points at
+  static saveProvider(provider: ChatProvider): void {
+    try {
+      this.writeItem(STORAGE_KEYS.PROVIDER, provider)
+    } catch (error) {
+      console.warn('Failed to save provider to storage:', error)
+    }
+  }
+
+  static loadProvider(): ChatProvider {
+    try {
+      const stored = this.readItem(STORAGE_KEYS.PROVIDER)
+      return validateStorageData(STORAGE_KEYS.PROVIDER, stored)
+        ? (stored as ChatProvider)
+        : 'lmstudio'
+    } catch (error) {
+      console.warn('Failed to load provider from storage:', error)
+      return 'lmstudio'
+    }
+  }
+
+  // Generation parameter presets keyed by model id
+  static saveModelPresets(presets: Record<string, GenerationParams>): void {
+    try {
+      this.writeItem(STORAGE_KEYS.MODEL_PRESETS, JSON.stringify(presets))
+    } catch (error) {
+      console.warn('Failed to save model presets to storage:', error)
+    }
+  }
+
+  static loadModelPresets(): Record<string, GenerationParams> {
+    try {
+      const stored = this.readItem(STORAGE_KEYS.MODEL_PRESETS)
+      if (!stored) return {}
+
+      const parsed = JSON.parse(stored)
+      if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+        console.warn('Invalid model presets data in storage, clearing...')
+        this.removeItem(STORAGE_KEYS.MODEL_PRESETS)
+        return {}
+      }
+
+      return Object.fromEntries(
+        Object.entries(parsed).map(([model, params]) => [model, sanitizeGenerationParams(params)]),
+      )
+    } catch (error) {
+      console.warn('Failed to load model presets from storage:', error)
+      return {}
+    }
+  }
+
+  // Arena votes behind the local leaderboard
+  static saveArenaVotes(votes: ArenaVote[]): void {
+    try {
+      this.writeItem(STORAGE_KEYS.ARENA_VOTES, JSON.stringify(votes))
+    } catch (error) {
+      console.warn('Failed to save arena votes to storage:', error)
+    }
+  }
+
+  static loadArenaVotes(): ArenaVote[] {
+    try {
+      const stored = this.readItem(STORAGE_KEYS.ARENA_VOTES)
+      if (!stored) return []
+
+      const parsed = JSON.parse(stored)
+      if (!validateStorageData(STORAGE_KEYS.ARENA_VOTES, parsed)) {
+        console.warn('Invalid arena votes in storage, clearing...')
+        this.removeItem(STORAGE_KEYS.ARENA_VOTES)
+        return []
+      }
+
+      return reviveDates<ArenaVote>(parsed, ['timestamp'])
+    } catch (error) {
+      console.warn('Failed to load arena votes from storage:', error)
+      return []
+    }
+  }
+
+  // Named servers, without their API keys
+  static saveServerProfiles(profiles: ServerProfile[]): void {
+    try {
+      this.writeItem(STORAGE_KEYS.SERVER_PROFILES, JSON.stringify(profiles))
+    } catch (error) {
+      console.warn('Failed to save server profiles to storage:', error)
+    }
+  }
+
+  static loadServerProfiles(): ServerProfile[] {
+    try {
+      const stored = this.readItem(STORAGE_KEYS.SERVER_PROFILES)
+      if (!stored) return []
+
+      const parsed = JSON.parse(stored)
+      if (!validateStorageData(STORAGE_KEYS.SERVER_PROFILES, parsed)) {
+        console.warn('Invalid server profiles in storage, clearing...')
+        this.removeItem(STORAGE_KEYS.SERVER_PROFILES)
+        return []
+      }
+
+      return (parsed as ServerProfile[]).map((profile) => ({
+        ...profile,
+        defaultParams: profile.defaultParams
+          ? sanitizeGenerationParams(profile.defaultParams)
+          : undefined,
+      }))
+    } catch (error) {
+      console.warn('Failed to load server profiles from storage:', error)
+      return []
+    }
+  }
+
+  static saveActiveProfileId(profileId: string): void {
+    try {
+      this.writeItem(STORAGE_KEYS.ACTIVE_PROFILE, profileId)
+    } catch (error) {
+      console.warn('Failed to save active profile to storage:', error)
+    }
+  }
+
+  static loadActiveProfileId(): string | null {
+    try {
+      return this.readItem(STORAGE_KEYS.ACTIVE_PROFILE) || null
+    } catch (error) {
+      console.warn('Failed to load active profile from storage:', error)
       return null
     }
   }
 
+  // API keys and extra headers keyed by base URL
+  static saveServerCredentials(credentials: Record<string, ServerCredentials>): void {
+    try {
+      this.writeItem(STORAGE_KEYS.SERVER_CREDENTIALS, JSON.stringify(credentials))
+    } catch (error) {
+      console.warn('Failed to save server credentials to storage:', error)
+    }
+  }
+
+  static loadServerCredentials(): Record<string, ServerCredentials> {
+    try {
+      const stored = this.readItem(STORAGE_KEYS.SERVER_CREDENTIALS)
+      if (!stored) return {}
+
+      const parsed = JSON.parse(stored)
+      if (!validateStorageData(STORAGE_KEYS.SERVER_CREDENTIALS, parsed)) {
+        console.warn('Invalid server credentials in storage, clearing...')
+        this.removeItem(STORAGE_KEYS.SERVER_CREDENTIALS)
+        return {}
+      }
+
+      return parsed
+    } catch (error) {
+      console.warn('Failed to load server credentials from storage:', error)
+      return {}
+    }
+  }
+
+  // Names of the tools offered to the model
+  static saveEnabledTools(names: string[]): void {
+    try {
+      this.writeItem(STORAGE_KEYS.ENABLED_TOOLS, JSON.stringify(names))
+    } catch (error) {
+      console.warn('Failed to save enabled tools to storage:', error)
+    }
+  }
+
+  static loadEnabledTools(): string[] {
+    try {
+      const stored = this.readItem(STORAGE_KEYS.ENABLED_TOOLS)
+      if (!stored) return []
+
+      const parsed = JSON.parse(stored)
+      if (!validateStorageData(STORAGE_KEYS.ENABLED_TOOLS, parsed)) {
+        console.warn('Invalid enabled tools in storage, clearing...')
+        this.removeItem(STORAGE_KEYS.ENABLED_TOOLS)
+        return []
+      }
+
+      return parsed
+    } catch (error) {
+      console.warn('Failed to load enabled tools from storage:', error)
+      return []
+    }
+  }
+
+  static saveRetrievalSettings(settings: RetrievalSettings): void {
+    try {
+      this.writeItem(STORAGE_KEYS.RETRIEVAL_SETTINGS, JSON.stringify(settings))
+    } catch (error) {
+      console.warn('Failed to save retrieval settings to storage:', error)
+    }
+  }
+
+  static loadRetrievalSettings(): RetrievalSettings | null {
+    try {
+      const stored = this.readItem(STORAGE_KEYS.RETRIEVAL_SETTINGS)
+      if (!stored) return null
+
+      const parsed = JSON.parse(stored)
+      if (!validateStorageData(STORAGE_KEYS.RETRIEVAL_SETTINGS, parsed)) {
+        console.warn('Invalid retrieval settings in storage, clearing...')
+        this.removeItem(STORAGE_KEYS.RETRIEVAL_SETTINGS)
+        return null
+      }
+
+      return parsed
+    } catch (error) {
+      console.warn('Failed to load retrieval settings from storage:', error)
+      return null
+    }
+  }
+
+  // Context window overrides keyed by model id
+  static saveContextWindows(windows: Record<string, number>): void {
+    try {
+      this.writeItem(STORAGE_KEYS.CONTEXT_WINDOWS, JSON.stringify(windows))
+    } catch (error) {
+      console.warn('Failed to save context windows to storage:', error)
+    }
+  }
+
+  static loadContextWindows(): Record<string, number> {
+    try {
+      const stored = this.readItem(STORAGE_KEYS.CONTEXT_WINDOWS)
+      if (!stored) return {}
+
+      const parsed = JSON.parse(stored)
+      if (!validateStorageData(STORAGE_KEYS.CONTEXT_WINDOWS, parsed)) {
+        console.warn('Invalid context windows data in storage, clearing...')
+        this.removeItem(STORAGE_KEYS.CONTEXT_WINDOWS)
+        return {}
+      }
+
+      return parsed
+    } catch (error) {
+      console.warn('Failed to load context windows from storage:', error)
+      return {}
+    }
+  }
+
+  // Embedded context chunks are read and written on demand rather than kept in memory
+  static async loadEmbeddings(contextId: string, model: string): Promise<EmbeddingRecord | null> {
+    try {
+      if (!this.db) return this.embeddingFallback.get(`${contextId}\n${model}`) ?? null
+
+      const store = this.db.transaction(DB_STORES.EMBEDDINGS).objectStore(DB_STORES.EMBEDDINGS)
+      const record: EmbeddingRecord | undefined = await requestToPromise(
+        store.get([contextId, model]),
+      )
+      return record ?? null
+    } catch (error) {
+      console.warn('Failed to load embeddings from storage:', error)
+      return null
+    }
+  }
+
+  static async saveEmbeddings(record: EmbeddingRecord): Promise<void> {
+    try {
+      if (!this.db) {
+        this.embeddingFallback.set(`${record.contextId}\n${record.model}`, record)
+        return
+      }
+
+      const transaction = this.db.transaction(DB_STORES.EMBEDDINGS, 'readwrite')
+      transaction.objectStore(DB_STORES.EMBEDDINGS).put(record)
+      await transactionDone(transaction)
+    } catch (error) {
+      console.warn('Failed to save embeddings to storage:', error)
+    }
+  }
+
+  // The context's embeddings for every model
+  static async deleteEmbeddings(contextId: string): Promise<void> {
+    try {
+      if (!this.db) {
+        ;[...this.embeddingFallback.keys()]
+          .filter((key) => key.startsWith(`${contextId}\n`))
+          .forEach((key) => this.embeddingFallback.delete(key))
+        return
+      }
+
+      // Any [contextId, model] key sorts between [contextId] and [contextId, []]
+      const transaction = this.db.transaction(DB_STORES.EMBEDDINGS, 'readwrite')
+      transaction
+        .objectStore(DB_STORES.EMBEDDINGS)
+        .delete(IDBKeyRange.bound([contextId], [contextId, []]))
+      await transactionDone(transaction)
+    } catch (error) {
+      console.warn('Failed to delete embeddings from storage:', error)
+    }
+  }
+
+  // Every message embedded with the model, across all conversations
+  static async loadMessageEmbeddings(model: string): Promise<MessageEmbeddingRecord[]> {
+    try {
+      if (!this.db) {
+        return [...this.messageEmbeddingFallback.values()].filter(
+          (record) => record.model === model,
+        )
+      }
+
+      const store = this.db
+        .transaction(DB_STORES.MESSAGE_EMBEDDINGS)
+        .objectStore(DB_STORES.MESSAGE_EMBEDDINGS)
+      return await requestToPromise(store.index('model').getAll(model))
+    } catch (error) {
+      console.warn('Failed to load message embeddings from storage:', error)
+      return []
+    }
+  }
+
+  static async saveMessageEmbeddings(records: MessageEmbeddingRecord[]): Promise<void> {
+    try {
+      if (!this.db) {
+        records.forEach((record) =>
+          this.messageEmbeddingFallback.set(
+            `${record.conversationId}\n${record.messageId}\n${record.model}`,
+            record,
+          ),
+        )
+        return
+      }
+
+      const transaction = this.db.transaction(DB_STORES.MESSAGE_EMBEDDINGS, 'readwrite')
+      const store = transaction.objectStore(DB_STORES.MESSAGE_EMBEDDINGS)
+      records.forEach((record) => store.put(record))
+      await transactionDone(transaction)
+    } catch (error) {
+      console.warn('Failed to save message embeddings to storage:', error)
+    }
+  }
+
+  // The conversation's message embeddings for every model
+  static async deleteConversationEmbeddings(conversationId: string): Promise<void> {
+    try {
+      if (!this.db) {
+        ;[...this.messageEmbeddingFallback.keys()]
+          .filter((key) => key.startsWith(`${conversationId}\n`))
+          .forEach((key) => this.messageEmbeddingFallback.delete(key))
+        return
+      }
+
+      const transaction = this.db.transaction(DB_STORES.MESSAGE_EMBEDDINGS, 'readwrite')
+      transaction
+        .objectStore(DB_STORES.MESSAGE_EMBEDDINGS)
+        .delete(IDBKeyRange.bound([conversationId], [conversationId, []]))
+      await transactionDone(transaction)
+    } catch (error) {
+      console.warn('Failed to delete message embeddings from storage:', error)
+    }
+  }
+
   // Clear all data
   static clearAll(): void {
     try {
+      this.embeddingFallback.clear()
+      this.messageEmbeddingFallback.clear()
+      if (this.db) {
+        this.settingsCache.clear()
+        this.messageCache.clear()
+        this.pendingWrites.clear()
+        this.queueWrite('all', { type: 'clearAll' })
+        return
+      }
+
+      this.loadConversations().forEach((conversation) => {
+        this.removeItem(conversationMessagesKey(conversation.id))
+      })
       Object.values(STORAGE_KEYS).forEach((key) => {
-        localStorage.removeItem(key)
+        this.removeItem(key)
       })
     } catch (error) {
-      console.warn('Failed to clear localStorage:', error)
+      console.warn('Failed to clear storage:', error)
     }
   }
 
@@ -169,13 +1082,24 @@ export class StatePersistence {
   static exportState(): string {
     try {
       const state = {
-        messages: this.loadMessages(),
+        conversations: this.loadConversations().map((conversation) => ({
+          ...conversation,
+          messages: this.loadConversationMessages(conversation.id),
+        })),
+        activeConversationId: this.loadActiveConversationId(),
         contexts: this.loadContexts(),
         activeContexts: this.loadActiveContexts(),
+        personas: this.loadPersonas(),
         currentModel: this.loadCurrentModel(),
         lmStudioBaseUrl: this.loadLMStudioBaseUrl(),
+        provider: this.loadProvider(),
+        serverProfiles: this.loadServerProfiles(),
+        arenaVotes: this.loadArenaVotes(),
+        activeProfileId: this.loadActiveProfileId(),
+        modelPresets: this.loadModelPresets(),
+        contextWindows: this.loadContextWindows(),
         timestamp: new Date().toISOString(),
-        version: '1.0.0',
+        version: EXPORT_VERSION,
       }
 
       return JSON.stringify(state, null, 2)
@@ -186,24 +1110,60 @@ export class StatePersistence {
 
   static importState(json: string): void {
     try {
-      const state = JSON.parse(json)
+      const parsed = JSON.parse(json)
 
       // Validate the imported state
-      if (!state.version || !state.timestamp) {
+      if (!parsed.version || !parsed.timestamp) {
         throw new ValidationError('Invalid state format', 'import')
       }
 
+      // Bring older exports up to the current format before importing
+      const state = migrateExportedState(parsed)
+
       // Import each part with validation
-      if (state.messages) {
-        const messages = validateMessagesArray(state.messages)
-        this.saveMessages(messages)
+      if (Array.isArray(state.conversations)) {
+        const imported = state.conversations
+        const conversations = validateConversationsArray(
+          reviveDates(imported, ['createdAt', 'updatedAt']),
+        )
+        conversations.forEach((conversation, index) => {
+          const messages = validateMessagesArray(
+            reviveDates(imported[index].messages ?? [], ['timestamp']),
+          )
+          this.saveConversationMessages(conversation.id, messages)
+        })
+        // Only keep the metadata in the index, messages live under their own key
+        this.saveConversations(
+          conversations.map((conversation) => {
+            const metadata: Conversation & { messages?: unknown } = { ...conversation }
+            delete metadata.messages
+            return {
+              ...metadata,
+              params: metadata.params ? sanitizeGenerationParams(metadata.params) : undefined,
+            }
+          }),
+        )
+      }
+
+      if (state.activeConversationId && typeof state.activeConversationId === 'string') {
+        this.saveActiveConversationId(state.activeConversationId)
       }
 
-      if (state.contexts) {
+      if (Array.isArray(state.contexts)) {
         const contexts = validateContextsArray(state.contexts)
         this.saveContexts(contexts)
       }
 
+      if (Array.isArray(state.personas)) {
+        const personas = validatePersonasArray(state.personas)
+        this.savePersonas(
+          personas.map((persona) => ({
+            ...persona,
+            params: persona.params ? sanitizeGenerationParams(persona.params) : undefined,
+          })),
+        )
+      }
+
       if (state.activeContexts) {
         if (
           Array.isArray(state.activeContexts) &&
@@ -220,6 +1180,55 @@ export class StatePersistence {
       if (state.lmStudioBaseUrl && typeof state.lmStudioBaseUrl === 'string') {
         this.saveLMStudioBaseUrl(state.lmStudioBaseUrl)
       }
+
+      if (validateStorageData(STORAGE_KEYS.PROVIDER, state.provider)) {
+        this.saveProvider(state.provider as ChatProvider)
+      }
+
+      if (validateStorageData(STORAGE_KEYS.SERVER_PROFILES, state.serverProfiles)) {
+        const imported = state.serverProfiles as ServerProfile[]
+        this.saveServerProfiles([
+          ...this.loadServerProfiles().filter((p) => !imported.some((i) => i.id === p.id)),
+          ...imported.map((profile) => ({
+            ...profile,
+            defaultParams: profile.defaultParams
+              ? sanitizeGenerationParams(profile.defaultParams)
+              : undefined,
+          })),
+        ])
+      }
+
+      if (validateStorageData(STORAGE_KEYS.ARENA_VOTES, state.arenaVotes)) {
+        const existing = this.loadArenaVotes()
+        const imported = reviveDates<ArenaVote>(state.arenaVotes as unknown[], ['timestamp'])
+        this.saveArenaVotes([
+          ...existing,
+          ...imported.filter((vote) => !existing.some((e) => e.id === vote.id)),
+        ])
+      }
+
+      if (state.activeProfileId && typeof state.activeProfileId === 'string') {
+        this.saveActiveProfileId(state.activeProfileId)
+      }
+
+      if (state.modelPresets && typeof state.modelPresets === 'object') {
+        this.saveModelPresets({
+          ...this.loadModelPresets(),
+          ...Object.fromEntries(
+            Object.entries(state.modelPresets).map(([model, params]) => [
+              model,
+              sanitizeGenerationParams(params),
+            ]),
+          ),
+        })
+      }
+
+      if (validateStorageData(STORAGE_KEYS.CONTEXT_WINDOWS, state.contextWindows)) {
+        this.saveContextWindows({
+          ...this.loadContextWindows(),
+          ...(state.contextWindows as Record<string, number>),
+        })
+      }
     } catch (error) {
       if (error instanceof ValidationError) {
         throw error
@@ -233,7 +1242,7 @@ export class StatePersistence {
     const issues: string[] = []
 
     try {
-      // Check if localStorage is available
+      // Check if localStorage is available (still used as the fallback backend)
       const testKey = 'yokai-chat-health-check'
       localStorage.setItem(testKey, 'test')
       localStorage.removeItem(testKey)
@@ -244,7 +1253,7 @@ export class StatePersistence {
     // Check each stored value
     Object.values(STORAGE_KEYS).forEach((key) => {
       try {
-        const stored = localStorage.getItem(key)
+        const stored = this.readItem(key)
         if (stored) {
           const parsed = JSON.parse(stored)
           if (!validateStorageData(key, parsed)) {
@@ -0,0 +1,78 @@
+// Reasoning models think out loud before answering. Some servers send that separately
+// (reasoning_content, Ollama's thinking), others leave <think>...</think> in the text.
+
+const OPEN_TAG = '<think>'
+const CLOSE_TAG = '</think>'
+
+export interface ReasoningParts {
+  content: string
+  reasoning: string
+}
+
+// Length of the longest end of text that could be the start of tag
+const partialTagLength = (text: string, tag: string) => {
+  for (let length = Math.min(tag.length - 1, text.length); length > 0; length--) {
+    if (text.endsWith(tag.slice(0, length))) return length
+  }
+  return 0
+}
+
+// Separates <think> blocks from the answer as the text streams in. A tag can be split
+// across chunks, so a possible start of one is held back until the next chunk shows
+// whether it is.
+export class ThinkTagSplitter {
+  private buffer = ''
+  private inThink = false
+  // The line breaks between </think> and the answer aren't part of it
+  private trimNext = false
+
+  push(text: string): ReasoningParts {
+    const parts: ReasoningParts = { content: '', reasoning: '' }
+    this.buffer += text
+
+    while (this.buffer !== '') {
+      const tag = this.inThink ? CLOSE_TAG : OPEN_TAG
+      const index = this.buffer.indexOf(tag)
+      if (index !== -1) {
+        this.emit(parts, this.buffer.slice(0, index))
+        this.buffer = this.buffer.slice(index + tag.length)
+        this.inThink = !this.inThink
+        this.trimNext = !this.inThink
+        continue
+      }
+
+      const held = partialTagLength(this.buffer, tag)
+      this.emit(parts, this.buffer.slice(0, this.buffer.length - held))
+      this.buffer = this.buffer.slice(this.buffer.length - held)
+      break
+    }
+    return parts
+  }
+
+  // Whatever was held back once the stream ends
+  flush(): ReasoningParts {
+    const parts: ReasoningParts = { content: '', reasoning: '' }
+    this.emit(parts, this.buffer)
+    this.buffer = ''
+    return parts
+  }
+
+  private emit(parts: ReasoningParts, text: string) {
+    if (this.inThink) {
+      parts.reasoning += text
+      return
+    }
+
+    const content = this.trimNext ? text.trimStart() : text
+    if (content !== '') this.trimNext = false
+    parts.content += content
+  }
+}
+
+// The answer alone, for replies that still have their thinking inline
+export function stripReasoning(text: string): string {
+  if (!text.includes(OPEN_TAG)) return text
+
+  const splitter = new ThinkTagSplitter()
+  return splitter.push(text).content + splitter.flush().content
+}
@@ -0,0 +1,116 @@
+import type { Citation, ContextItem } from '@/types/chat'
+import type { EmbeddingRecord } from './database'
+import { RETRIEVAL_CONFIG } from '@/constants'
+
+export interface TextChunk {
+  text: string
+  // Offset of the chunk in the context's content
+  start: number
+}
+
+// Where to end a chunk, best first: a blank line, a line break, the end of a sentence, a space
+const BREAKS = [/\n\s*\n/g, /\n/g, /[.!?](?=\s)/g, /\s/g]
+
+// The last break in the second half of the window, so chunks never get too small
+function findBreak(text: string, from: number, to: number): number {
+  const window = text.slice(from, to)
+  for (const pattern of BREAKS) {
+    let last = -1
+    for (const match of window.matchAll(pattern)) {
+      const end = match.index + match[0].length
+      if (end >= window.length / 2) last = end
+    }
+    if (last !== -1) return from + last
+  }
+  return to
+}
+
+// Cuts text into chunks of up to size characters at natural breaks, each starting overlap
+// characters before the previous one ended
+export function chunkText(
+  text: string,
+  size: number = RETRIEVAL_CONFIG.CHUNK_CHARS,
+  overlap: number = RETRIEVAL_CONFIG.CHUNK_OVERLAP,
+): TextChunk[] {
+  const chunks: TextChunk[] = []
+  let start = 0
+
+  while (start < text.length) {
+    const end = start + size >= text.length ? text.length : findBreak(text, start, start + size)
+    const chunk = text.slice(start, end)
+    if (chunk.trim()) chunks.push({ text: chunk.trim(), start: start + chunk.search(/\S/) })
+    if (end >= text.length) break
+
+    // Begin the overlap at a word boundary, and always move forward
+    const next = Math.max(end - overlap, start + 1)
+    const space = text.slice(next, end).search(/\s/)
+    start = space === -1 ? next : next + space + 1
+  }
+  return chunks
+}
+
+// FNV-1a, enough to tell whether a context changed since it was embedded
+export function hashText(text: string): string {
+  let hash = 0x811c9dc5
+  for (let index = 0; index < text.length; index++) {
+    hash ^= text.charCodeAt(index)
+    hash = Math.imul(hash, 0x01000193)
+  }
+  return `${(hash >>> 0).toString(16)}-${text.length}`
+}
+
+// What is embedded for a context, changes whenever the stored chunks would
+export const contextHash = (context: ContextItem) =>
+  hashText(
+    `${RETRIEVAL_CONFIG.CHUNK_CHARS}:${RETRIEVAL_CONFIG.CHUNK_OVERLAP}\n${context.title}\n${context.content}`,
+  )
+
+// The title goes along with every chunk, it often says what the chunk is about
+export const embeddingInput = (context: ContextItem, chunk: TextChunk) =>
+  `${context.title}\n\n${chunk.text}`
+
+export function cosineSimilarity(a: ArrayLike<number>, b: ArrayLike<number>): number {
+  let dot = 0
+  let normA = 0
+  let normB = 0
+  for (let index = 0; index < Math.min(a.length, b.length); index++) {
+    dot += a[index] * b[index]
+    normA += a[index] * a[index]
+    normB += b[index] * b[index]
+  }
+  return normA === 0 || normB === 0 ? 0 : dot / Math.sqrt(normA * normB)
+}
+
+// The topK chunks most similar to the query across the records, best first
+export function rankChunks(
+  query: ArrayLike<number>,
+  records: EmbeddingRecord[],
+  titles: Record<string, string>,
+  topK: number,
+  minScore: number = RETRIEVAL_CONFIG.MIN_SCORE,
+): Citation[] {
+  return records
+    .flatMap((record) =>
+      record.chunks.map((chunk) => ({
+        contextId: record.contextId,
+        title: titles[record.contextId] ?? record.contextId,
+        text: chunk.text,
+        score: cosineSimilarity(query, chunk.vector),
+      })),
+    )
+    .filter((citation) => citation.score >= minScore)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, topK)
+}
+
+// The passages as the model sees them, numbered the way the reply cites them
+export function formatRetrievedContext(citations: Citation[]): string {
+  const passages = citations.map(
+    (citation, index) => `[${index + 1}] ${citation.title}\n${citation.text}`,
+  )
+  return [
+    "Passages from the user's saved contexts that may help with the next message. " +
+      'When you use one, cite it by its number, like [1].',
+    ...passages,
+  ].join('\n\n')
+}
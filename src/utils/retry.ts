@@ -0,0 +1,53 @@
+import { ApiError, ConnectionError } from '@/errors/ApiError'
+import { RETRY_CONFIG } from '@/constants'
+
+// Worth trying again: the server couldn't be reached, is rate limiting us or failed on its
+// side. Bad requests, auth failures and unknown models fail the same way every time.
+export function isRetryableError(error: unknown): error is ApiError {
+  if (error instanceof ConnectionError) return true
+  return (
+    error instanceof ApiError &&
+    (error.code === 'RATE_LIMIT_ERROR' || error.code === 'SERVER_ERROR')
+  )
+}
+
+// Retry-After is either a number of seconds or an HTTP date
+export function parseRetryAfter(
+  value: string | null,
+  now: number = Date.now(),
+): number | undefined {
+  if (!value) return undefined
+
+  const trimmed = value.trim()
+  if (/^\d+$/.test(trimmed)) return Number(trimmed) * 1000
+
+  const date = Date.parse(trimmed)
+  return Number.isNaN(date) ? undefined : Math.max(0, date - now)
+}
+
+// Exponential backoff with jitter, so clients that failed together don't retry together.
+// attempt counts from 0 for the first retry.
+export function backoffDelay(attempt: number, random: () => number = Math.random): number {
+  const ceiling = Math.min(RETRY_CONFIG.MAX_DELAY_MS, RETRY_CONFIG.BASE_DELAY_MS * 2 ** attempt)
+  return Math.round(ceiling / 2 + (random() * ceiling) / 2)
+}
+
+// How long to wait before retrying after error, or null when it shouldn't be retried
+export function retryDelay(error: unknown, attempt: number): number | null {
+  if (!isRetryableError(error)) return null
+  if (error.retryAfterMs === undefined) return backoffDelay(attempt)
+  return error.retryAfterMs <= RETRY_CONFIG.MAX_RETRY_AFTER_MS ? error.retryAfterMs : null
+}
+
+// Resolves after ms, or as soon as signal aborts
+export function waitFor(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    const done = () => {
+      clearTimeout(timer)
+      signal?.removeEventListener('abort', done)
+      resolve()
+    }
+    const timer = setTimeout(done, ms)
+    signal?.addEventListener('abort', done, { once: true })
+  })
+}
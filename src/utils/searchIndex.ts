@@ -0,0 +1,278 @@
+import type { Message } from '@/types/chat'
+
+export interface SearchDocument {
+  id: string
+  kind: 'message' | 'context'
+  text: string
+  // Indexed along with the text, e.g. a context title
+  title?: string
+  // Shown with the result but not searched, e.g. the conversation a message belongs to
+  source?: string
+  role?: Message['role']
+  model?: string
+  timestamp?: Date
+  conversationId?: string
+  messageId?: number
+  contextId?: string
+}
+
+export interface SearchQuery {
+  terms: string[]
+  phrases: string[][]
+  role?: Message['role']
+  model?: string
+  after?: Date
+  before?: Date
+  kind?: SearchDocument['kind']
+}
+
+export interface SearchSnippet {
+  text: string
+  highlights: Array<[start: number, end: number]>
+}
+
+export interface SearchResult {
+  document: SearchDocument
+  score: number
+  snippet: SearchSnippet
+}
+
+const TOKEN_PATTERN = /[\p{L}\p{N}_]+/gu
+
+interface Token {
+  term: string
+  start: number
+  end: number
+}
+
+const tokenizeWithOffsets = (text: string): Token[] =>
+  Array.from(text.matchAll(TOKEN_PATTERN), (match) => ({
+    term: match[0].toLowerCase(),
+    start: match.index ?? 0,
+    end: (match.index ?? 0) + match[0].length,
+  }))
+
+export const tokenize = (text: string): string[] =>
+  tokenizeWithOffsets(text).map((token) => token.term)
+
+const ROLE_ALIASES: Record<string, Message['role']> = {
+  user: 'user',
+  me: 'user',
+  assistant: 'assistant',
+  ai: 'assistant',
+  developer: 'developer',
+  context: 'developer',
+}
+
+const parseDate = (value: string, endOfDay: boolean): Date | undefined => {
+  const date = new Date(value)
+  if (Number.isNaN(date.getTime())) return undefined
+  // A bare day like 2025-01-31 should include that whole day as an upper bound
+  if (endOfDay && /^\d{4}-\d{2}-\d{2}$/.test(value)) {
+    date.setUTCHours(23, 59, 59, 999)
+  }
+  return date
+}
+
+// Supports plain words, "quoted phrases", role:, model:, after:, before: and in:messages|contexts
+export const parseSearchQuery = (input: string): SearchQuery => {
+  const query: SearchQuery = { terms: [], phrases: [] }
+  const parts = input.match(/"[^"]*"|\S+/g) ?? []
+
+  parts.forEach((part) => {
+    if (part.startsWith('"')) {
+      const phrase = tokenize(part)
+      if (phrase.length > 1) query.phrases.push(phrase)
+      else query.terms.push(...phrase)
+      return
+    }
+
+    const filter = part.match(/^(role|model|after|before|in):(.+)$/i)
+    if (!filter) {
+      query.terms.push(...tokenize(part))
+      return
+    }
+
+    const [, key, value] = filter
+    switch (key.toLowerCase()) {
+      case 'role':
+        query.role = ROLE_ALIASES[value.toLowerCase()] ?? query.role
+        break
+      case 'model':
+        query.model = value.toLowerCase()
+        break
+      case 'after':
+        query.after = parseDate(value, false) ?? query.after
+        break
+      case 'before':
+        query.before = parseDate(value, true) ?? query.before
+        break
+      case 'in':
+        if (/^messages?$/i.test(value)) query.kind = 'message'
+        if (/^contexts?$/i.test(value)) query.kind = 'context'
+        break
+    }
+  })
+
+  return query
+}
+
+export const isEmptyQuery = (query: SearchQuery) =>
+  query.terms.length === 0 &&
+  query.phrases.length === 0 &&
+  !query.role &&
+  !query.model &&
+  !query.after &&
+  !query.before &&
+  !query.kind
+
+// Cut a window of text around the first match and mark every query term inside it
+export const buildSnippet = (text: string, query: SearchQuery, radius = 80): SearchSnippet => {
+  const wanted = new Set([...query.terms, ...query.phrases.flat()])
+  const tokens = tokenizeWithOffsets(text).filter((token) => wanted.has(token.term))
+
+  const center = tokens[0]?.start ?? 0
+  const start = Math.max(0, center - radius)
+  const end = Math.min(text.length, center + radius * 2)
+  const prefix = start > 0 ? '…' : ''
+  const suffix = end < text.length ? '…' : ''
+  const shift = prefix.length - start
+
+  return {
+    // One space per whitespace character keeps the highlight offsets valid
+    text: `${prefix}${text.slice(start, end)}${suffix}`.replace(/\s/g, ' '),
+    highlights: tokens
+      .filter((token) => token.start >= start && token.end <= end)
+      .map((token) => [token.start + shift, token.end + shift]),
+  }
+}
+
+// Break a snippet into plain and matched pieces so the UI can mark them without v-html
+export const splitSnippet = (snippet: SearchSnippet): Array<{ text: string; match: boolean }> => {
+  const parts: Array<{ text: string; match: boolean }> = []
+  let cursor = 0
+
+  snippet.highlights.forEach(([start, end]) => {
+    if (start > cursor) parts.push({ text: snippet.text.slice(cursor, start), match: false })
+    parts.push({ text: snippet.text.slice(start, end), match: true })
+    cursor = end
+  })
+  if (cursor < snippet.text.length) parts.push({ text: snippet.text.slice(cursor), match: false })
+
+  return parts
+}
+
+// Positional inverted index: term -> document id -> positions of the term in the document
+export class SearchIndex {
+  private postings = new Map<string, Map<string, number[]>>()
+  private documents = new Map<string, SearchDocument>()
+
+  get size(): number {
+    return this.documents.size
+  }
+
+  add(document: SearchDocument): void {
+    this.remove(document.id)
+    this.documents.set(document.id, document)
+
+    tokenize(`${document.title ?? ''} ${document.text}`).forEach((term, position) => {
+      let entries = this.postings.get(term)
+      if (!entries) {
+        entries = new Map()
+        this.postings.set(term, entries)
+      }
+      const positions = entries.get(document.id)
+      if (positions) positions.push(position)
+      else entries.set(document.id, [position])
+    })
+  }
+
+  remove(id: string): void {
+    const document = this.documents.get(id)
+    if (!document) return
+
+    new Set(tokenize(`${document.title ?? ''} ${document.text}`)).forEach((term) => {
+      const entries = this.postings.get(term)
+      entries?.delete(id)
+      if (entries?.size === 0) this.postings.delete(term)
+    })
+    this.documents.delete(id)
+  }
+
+  // Drop every document matching the predicate, e.g. all messages of one conversation
+  removeWhere(predicate: (document: SearchDocument) => boolean): void {
+    Array.from(this.documents.values())
+      .filter(predicate)
+      .forEach((document) => this.remove(document.id))
+  }
+
+  clear(): void {
+    this.postings.clear()
+    this.documents.clear()
+  }
+
+  search(query: SearchQuery, limit = 50): SearchResult[] {
+    if (isEmptyQuery(query)) return []
+
+    const required = [...new Set([...query.terms, ...query.phrases.flat()])]
+    let candidates: string[] | undefined
+
+    // Every term has to appear, start from the rarest one to keep the candidate set small
+    required
+      .map((term) => this.postings.get(term) ?? new Map<string, number[]>())
+      .sort((a, b) => a.size - b.size)
+      .forEach((entries) => {
+        candidates = (candidates ?? Array.from(entries.keys())).filter((id) => entries.has(id))
+      })
+
+    const ids = candidates ?? Array.from(this.documents.keys())
+    const total = this.documents.size
+
+    return ids
+      .map((id) => this.documents.get(id))
+      .filter((document): document is SearchDocument => !!document)
+      .filter((document) => this.matchesFilters(document, query))
+      .filter((document) => query.phrases.every((phrase) => this.hasPhrase(document.id, phrase)))
+      .map((document) => ({
+        document,
+        score: required.reduce((score, term) => {
+          const entries = this.postings.get(term)
+          const frequency = entries?.get(document.id)?.length ?? 0
+          return score + frequency * Math.log(1 + total / (entries?.size ?? 1))
+        }, 0),
+        snippet: buildSnippet(document.text, query),
+      }))
+      .sort(
+        (a, b) =>
+          b.score - a.score ||
+          (b.document.timestamp?.getTime() ?? 0) - (a.document.timestamp?.getTime() ?? 0),
+      )
+      .slice(0, limit)
+  }
+
+  private matchesFilters(document: SearchDocument, query: SearchQuery): boolean {
+    if (query.kind && document.kind !== query.kind) return false
+    if (query.role && document.role !== query.role) return false
+    if (query.model && !document.model?.toLowerCase().includes(query.model)) return false
+
+    const time = document.timestamp?.getTime()
+    if (query.after && (time === undefined || time < query.after.getTime())) return false
+    if (query.before && (time === undefined || time > query.before.getTime())) return false
+
+    return true
+  }
+
+  private hasPhrase(id: string, phrase: string[]): boolean {
+    const [first, ...rest] = phrase
+    const starts = this.postings.get(first)?.get(id) ?? []
+
+    return starts.some((start) =>
+      rest.every((term, offset) =>
+        this.postings
+          .get(term)
+          ?.get(id)
+          ?.includes(start + offset + 1),
+      ),
+    )
+  }
+}
@@ -0,0 +1,73 @@
+import type { Message } from '@/types/chat'
+import type { MessageEmbeddingRecord } from './database'
+import { SEMANTIC_SEARCH_CONFIG } from '@/constants'
+import { stripReasoning } from './reasoning'
+import { cosineSimilarity } from './retrieval'
+
+// What is embedded for a message: its visible text, cut to what embedding models take.
+// Empty for messages not worth finding, like contexts or a reply still without text.
+export function messageEmbeddingInput(message: Message): string {
+  if (message.role !== 'user' && message.role !== 'assistant') return ''
+  const text = message.role === 'assistant' ? stripReasoning(message.content) : message.content
+  return text.trim().slice(0, SEMANTIC_SEARCH_CONFIG.MESSAGE_CHARS)
+}
+
+export interface MessageMatch {
+  record: MessageEmbeddingRecord
+  score: number
+}
+
+// The messages closest to the query, best first
+export function rankMessages(
+  query: ArrayLike<number>,
+  records: Iterable<MessageEmbeddingRecord>,
+  limit: number = SEMANTIC_SEARCH_CONFIG.MAX_RESULTS,
+  minScore: number = SEMANTIC_SEARCH_CONFIG.MIN_SCORE,
+): MessageMatch[] {
+  return [...records]
+    .map((record) => ({ record, score: cosineSimilarity(query, record.vector) }))
+    .filter((match) => match.score >= minScore)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit)
+}
+
+// The average direction of the vectors, what a conversation is about as a whole
+export function meanVector(vectors: ArrayLike<number>[]): Float32Array {
+  const mean = new Float32Array(vectors[0]?.length ?? 0)
+  vectors.forEach((vector) => {
+    // Unit length first so long and short messages weigh the same
+    const norm = Math.sqrt(Array.from(vector).reduce((sum, value) => sum + value * value, 0))
+    if (norm === 0) return
+    for (let index = 0; index < mean.length; index++) mean[index] += vector[index] / norm
+  })
+  return mean
+}
+
+// Other conversations ranked by how close their mean vector is to the given one's
+export function similarConversations(
+  conversationId: string,
+  records: Iterable<MessageEmbeddingRecord>,
+  limit: number = SEMANTIC_SEARCH_CONFIG.SIMILAR_CONVERSATIONS,
+  minScore: number = SEMANTIC_SEARCH_CONFIG.MIN_SCORE,
+): Array<{ conversationId: string; score: number }> {
+  const byConversation = new Map<string, Float32Array[]>()
+  for (const record of records) {
+    const vectors = byConversation.get(record.conversationId) ?? []
+    vectors.push(record.vector)
+    byConversation.set(record.conversationId, vectors)
+  }
+
+  const own = byConversation.get(conversationId)
+  if (!own) return []
+  const target = meanVector(own)
+
+  return [...byConversation]
+    .filter(([id]) => id !== conversationId)
+    .map(([id, vectors]) => ({
+      conversationId: id,
+      score: cosineSimilarity(target, meanVector(vectors)),
+    }))
+    .filter((match) => match.score >= minScore)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit)
+}
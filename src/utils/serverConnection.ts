@@ -0,0 +1,48 @@
+// Turning what the user types on the landing page into a base URL and request headers
+
+// A bare /v1 is what the built-in providers add themselves, so it is swapped for the
+// selected provider's path rather than kept as a custom one
+const DEFAULT_API_PATH = /^\/v1\/?$/
+
+// "host:port", "https://host/api/v1" etc. A path the user typed is kept, otherwise the
+// provider's default API path is appended
+export function buildBaseUrl(input: string, apiPath: string): string {
+  const trimmed = input.trim()
+  if (!trimmed) return ''
+
+  const withScheme = /^https?:\/\//i.test(trimmed) ? trimmed : `http://${trimmed}`
+  const [, origin, path] = withScheme.match(/^(https?:\/\/[^/]+)(.*)$/i) ?? [, withScheme, '']
+  const customPath = DEFAULT_API_PATH.test(path) ? '' : path.replace(/\/+$/, '')
+  return `${origin}${customPath || apiPath}`
+}
+
+// Inverse of buildBaseUrl for filling the address field from a saved URL
+export function formatAddress(baseUrl: string, apiPath: string): string {
+  try {
+    const url = new URL(baseUrl)
+    const host = url.protocol === 'https:' ? `https://${url.host}` : url.host
+    const path = url.pathname.replace(/\/+$/, '')
+    return path === apiPath ? host : `${host}${path}`
+  } catch {
+    return baseUrl.replace(/^http:\/\//, '').replace(/\/v1\/?$/, '')
+  }
+}
+
+// One "Name: value" pair per line, lines without a colon are ignored
+export function parseHeaderLines(text: string): Record<string, string> {
+  const headers: Record<string, string> = {}
+  text.split('\n').forEach((line) => {
+    const colon = line.indexOf(':')
+    if (colon <= 0) return
+
+    const name = line.slice(0, colon).trim()
+    if (name) headers[name] = line.slice(colon + 1).trim()
+  })
+  return headers
+}
+
+export function formatHeaderLines(headers: Record<string, string> = {}): string {
+  return Object.entries(headers)
+    .map(([name, value]) => `${name}: ${value}`)
+    .join('\n')
+}
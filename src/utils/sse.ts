@@ -0,0 +1,145 @@
+// Incremental readers for streamed replies. Network reads can end anywhere: inside a line,
+// between the \r and \n of a line break, or in the middle of a multi-byte character.
+
+// One dispatched server-sent event. Multi-line data fields are joined with \n.
+export interface SseEvent {
+  event: string
+  data: string
+  id: string
+  retry?: number
+}
+
+// Splits text into lines as it arrives, whatever mix of \n, \r\n and \r the server uses.
+// Text after the last line break is held back until the rest of its line arrives.
+export class LineSplitter {
+  private buffer = ''
+  private pendingCr = false
+
+  push(text: string): string[] {
+    if (text === '') return []
+
+    // The \n that completes a \r\n split across two reads
+    const input = this.pendingCr && text.startsWith('\n') ? text.slice(1) : text
+    this.pendingCr = text.endsWith('\r')
+
+    this.buffer += input
+    const lines = this.buffer.split(/\r\n|\r|\n/)
+    this.buffer = lines.pop() ?? ''
+    return lines
+  }
+
+  // Whatever is left once the stream ends, as a last line
+  flush(): string[] {
+    const rest = this.buffer
+    this.buffer = ''
+    this.pendingCr = false
+    return rest === '' ? [] : [rest]
+  }
+}
+
+// Server-sent events as the HTML spec interprets them: data lines accumulate until a blank
+// line dispatches the event, lines starting with ':' are comments (keepalives), and the
+// last event id carries over to later events.
+export class SseParser {
+  private lines = new LineSplitter()
+  private eventType = ''
+  private data: string[] = []
+  private lastEventId = ''
+  private retry?: number
+
+  push(text: string): SseEvent[] {
+    return this.lines.push(text).flatMap((line) => this.processLine(line))
+  }
+
+  // The spec drops an event the stream ended in the middle of, but plenty of servers
+  // close the connection without the final blank line, so it's dispatched instead
+  flush(): SseEvent[] {
+    return [...this.lines.flush().flatMap((line) => this.processLine(line)), ...this.dispatch()]
+  }
+
+  private processLine(line: string): SseEvent[] {
+    if (line === '') return this.dispatch()
+    if (line.startsWith(':')) return []
+
+    const colon = line.indexOf(':')
+    const field = colon === -1 ? line : line.slice(0, colon)
+    let value = colon === -1 ? '' : line.slice(colon + 1)
+    if (value.startsWith(' ')) value = value.slice(1)
+
+    switch (field) {
+      case 'event':
+        this.eventType = value
+        break
+      case 'data':
+        this.data.push(value)
+        break
+      case 'id':
+        if (!value.includes('\0')) this.lastEventId = value
+        break
+      case 'retry':
+        if (/^\d+$/.test(value)) this.retry = Number(value)
+        break
+    }
+    return []
+  }
+
+  private dispatch(): SseEvent[] {
+    const data = this.data
+    const eventType = this.eventType
+    this.data = []
+    this.eventType = ''
+    if (data.length === 0) return []
+
+    const event: SseEvent = {
+      event: eventType || 'message',
+      data: data.join('\n'),
+      id: this.lastEventId,
+    }
+    if (this.retry !== undefined) event.retry = this.retry
+    return [event]
+  }
+}
+
+// Reads a byte stream until it ends or signal aborts, decoding text as it goes
+async function* readText(
+  stream: ReadableStream<Uint8Array>,
+  signal?: AbortSignal,
+): AsyncGenerator<string> {
+  const reader = stream.getReader()
+  const decoder = new TextDecoder()
+
+  try {
+    while (!signal?.aborted) {
+      const { done, value } = await reader.read()
+      if (done) break
+      yield decoder.decode(value, { stream: true })
+    }
+    yield decoder.decode()
+  } finally {
+    reader.releaseLock()
+  }
+}
+
+// Lines of a newline-delimited stream, such as Ollama's NDJSON replies
+export async function* readLines(
+  stream: ReadableStream<Uint8Array>,
+  signal?: AbortSignal,
+): AsyncGenerator<string> {
+  const splitter = new LineSplitter()
+  for await (const text of readText(stream, signal)) {
+    yield* splitter.push(text)
+  }
+  if (!signal?.aborted) yield* splitter.flush()
+}
+
+// Events of a text/event-stream reply, such as OpenAI-style chat completion chunks
+export async function* readSseEvents(
+  stream: ReadableStream<Uint8Array>,
+  signal?: AbortSignal,
+): AsyncGenerator<SseEvent> {
+  const parser = new SseParser()
+  for await (const text of readText(stream, signal)) {
+    yield* parser.push(text)
+  }
+  if (!signal?.aborted) yield* parser.flush()
+}
@@ -3,6 +3,13 @@ export const truncateText = (text: string, maxLength: number, suffix = '...'): s
   return text.substring(0, maxLength) + suffix
 }
 
+// Body of the developer message that carries a context, extractFilename reads it back
+export const formatContextMessage = (context: {
+  type: string
+  title: string
+  content: string
+}): string => `[${context.type.toUpperCase()}] ${context.title}\n\n${context.content}`
+
 export const extractFilename = (content: string): string => {
   // Look for [TYPE] pattern at the beginning
   const match = content.match(/^\[([^\]]+)\]\s+(.+)/)
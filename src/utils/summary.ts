@@ -0,0 +1,63 @@
+import type { ApiMessage } from '@/types/api'
+import type { ConversationSummary } from '@/types/chat'
+import { estimateMessageTokens, estimateTokens, type TokenEstimator } from './tokenBudget'
+
+export const SUMMARY_INSTRUCTIONS =
+  'You maintain a running summary of a chat so it can replace the original messages as context. ' +
+  'Merge the new messages into the summary so far. Keep names, facts, decisions, code identifiers ' +
+  'and open questions; drop small talk. Reply with the updated summary only.'
+
+// How the summary is pinned in place of the messages it covers
+export const summaryToMessage = (summary: ConversationSummary): ApiMessage => ({
+  role: 'system',
+  content: `Summary of the earlier conversation:\n${summary.content}`,
+})
+
+const speaker = (role: ApiMessage['role']) => (role === 'user' ? 'User' : 'Assistant')
+
+export const buildSummaryRequest = (
+  previousSummary: string,
+  messages: ApiMessage[],
+): ApiMessage[] => [
+  { role: 'system', content: SUMMARY_INSTRUCTIONS },
+  {
+    role: 'user',
+    content: [
+      previousSummary ? `Summary so far:\n${previousSummary}` : 'There is no summary yet.',
+      'New messages:',
+      ...messages.map((msg) => `${speaker(msg.role)}: ${msg.content}`),
+    ].join('\n\n'),
+  },
+]
+
+// Fold messages into the summary a chunk at a time so every request fits in tokenLimit.
+// A single message larger than the limit is still sent on its own.
+export async function summarizeInChunks(
+  messages: ApiMessage[],
+  previousSummary: string,
+  complete: (request: ApiMessage[]) => Promise<string>,
+  tokenLimit: number,
+  estimate: TokenEstimator = estimateTokens,
+): Promise<string> {
+  let summary = previousSummary
+  let start = 0
+
+  while (start < messages.length) {
+    let used = buildSummaryRequest(summary, []).reduce(
+      (total, msg) => total + estimateMessageTokens(msg, estimate),
+      0,
+    )
+    let end = start
+    while (end < messages.length) {
+      const tokens = estimateMessageTokens(messages[end], estimate)
+      if (end > start && used + tokens > tokenLimit) break
+      used += tokens
+      end++
+    }
+
+    summary = (await complete(buildSummaryRequest(summary, messages.slice(start, end)))) || summary
+    start = end
+  }
+
+  return summary
+}
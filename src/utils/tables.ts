@@ -0,0 +1,124 @@
+import { DOCUMENT_CONFIG } from '@/constants'
+
+export type ColumnType = 'integer' | 'number' | 'boolean' | 'date' | 'text' | 'empty'
+
+// Rows of a CSV or TSV file. Quoted fields may hold delimiters, line breaks and "" for a quote.
+export function parseDelimited(text: string, delimiter: string): string[][] {
+  const rows: string[][] = []
+  let row: string[] = []
+  let field = ''
+  let quoted = false
+
+  for (let index = 0; index < text.length; index++) {
+    const char = text[index]
+    if (quoted) {
+      if (char !== '"') {
+        field += char
+      } else if (text[index + 1] === '"') {
+        field += '"'
+        index++
+      } else {
+        quoted = false
+      }
+    } else if (char === '"' && field === '') {
+      quoted = true
+    } else if (char === delimiter) {
+      row.push(field)
+      field = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[index + 1] === '\n') index++
+      row.push(field)
+      rows.push(row)
+      row = []
+      field = ''
+    } else {
+      field += char
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    row.push(field)
+    rows.push(row)
+  }
+  return rows.filter((cells) => cells.some((cell) => cell.trim() !== ''))
+}
+
+// Tab for .tsv, otherwise whichever of , ; | and tab the header line uses most
+export function detectDelimiter(text: string, filename = ''): string {
+  if (/\.tsv$/i.test(filename)) return '\t'
+
+  const header = text.slice(0, text.search(/\r?\n|$/))
+  const counts = [',', ';', '\t', '|'].map((delimiter) => ({
+    delimiter,
+    count: header.split(delimiter).length - 1,
+  }))
+  const best = counts.reduce((a, b) => (b.count > a.count ? b : a))
+  return best.count > 0 ? best.delimiter : ','
+}
+
+const COLUMN_TYPE_TESTS: Array<[ColumnType, (value: string) => boolean]> = [
+  ['integer', (value) => /^[+-]?\d+$/.test(value)],
+  ['number', (value) => /^[+-]?(\d+\.?\d*|\.\d+)(e[+-]?\d+)?$/i.test(value)],
+  ['boolean', (value) => /^(true|false|yes|no)$/i.test(value)],
+  ['date', (value) => /^\d{4}-\d{2}-\d{2}([ T]\d{2}:\d{2}(:\d{2})?)?/.test(value)],
+]
+
+// The narrowest type every non-empty value fits
+export function inferColumnType(values: string[]): ColumnType {
+  const present = values.map((value) => value.trim()).filter((value) => value !== '')
+  if (present.length === 0) return 'empty'
+
+  const match = COLUMN_TYPE_TESTS.find(([, test]) => present.every(test))
+  return match ? match[0] : 'text'
+}
+
+const escapeCell = (cell: string) =>
+  cell
+    .replace(/\|/g, '\\|')
+    .replace(/\s*\r?\n\s*/g, ' ')
+    .trim()
+
+// A markdown table with the first row as its header. Short rows are padded.
+export function markdownTable(rows: string[][]): string {
+  if (rows.length === 0) return ''
+
+  const width = Math.max(...rows.map((row) => row.length))
+  const line = (row: string[]) =>
+    `| ${Array.from({ length: width }, (_, index) => escapeCell(row[index] ?? '')).join(' | ')} |`
+
+  return [line(rows[0]), line(Array(width).fill('---')), ...rows.slice(1).map(line)].join('\n')
+}
+
+// Up to count rows spread evenly over the whole table
+const sampleRows = (rows: string[][], count: number) => {
+  if (rows.length <= count) return rows
+  const step = rows.length / count
+  return Array.from({ length: count }, (_, index) => rows[Math.floor(index * step)])
+}
+
+// A table as the model should see it: its size, a schema inferred from rows sampled across
+// it, then its first rows
+export function describeTable(rows: string[][]): string {
+  if (rows.length === 0) return ''
+
+  const [header, ...body] = rows
+  const sample = sampleRows(body, DOCUMENT_CONFIG.SCHEMA_SAMPLE_ROWS)
+  const schema = header.map((name, column) => {
+    const values = sample.map((row) => row[column] ?? '')
+    const examples = [...new Set(values.map((value) => value.trim()).filter(Boolean))]
+      .slice(0, DOCUMENT_CONFIG.SCHEMA_EXAMPLES)
+      .join(', ')
+    return [name || `Column ${column + 1}`, inferColumnType(values), examples]
+  })
+
+  const preview = body.slice(0, DOCUMENT_CONFIG.TABLE_PREVIEW_ROWS)
+  const parts = [
+    `${body.length} rows × ${header.length} columns`,
+    markdownTable([['Column', 'Type', 'Examples'], ...schema]),
+    markdownTable([header, ...preview]),
+  ]
+  if (body.length > preview.length) {
+    parts.push(`…and ${body.length - preview.length} more rows`)
+  }
+  return parts.join('\n\n')
+}
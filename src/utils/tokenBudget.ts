@@ -0,0 +1,95 @@
+import type { ApiMessage } from '@/types/api'
+import { DEFAULT_CONTEXT_WINDOW, IMAGE_CONFIG, MODEL_CONTEXT_WINDOWS } from '@/constants'
+
+// Any function that turns text into an approximate token count, so a real
+// tokenizer can replace the heuristic without touching the budgeting code
+export type TokenEstimator = (text: string) => number
+
+// Role markers and separators the chat template adds around every message
+export const MESSAGE_TOKEN_OVERHEAD = 4
+
+export interface ContextBudget {
+  contextWindow: number
+  reservedForReply: number
+  usedTokens: number
+  availableTokens: number
+  droppedCount: number
+}
+
+export interface FittedHistory {
+  messages: ApiMessage[]
+  budget: ContextBudget
+}
+
+interface FitOptions {
+  pinned: ApiMessage[]
+  history: ApiMessage[]
+  prompt: string
+  contextWindow: number
+  maxTokens?: number
+  estimate?: TokenEstimator
+}
+
+// Roughly four characters per token for English prose and code, and never less
+// than one token per word so short-word text is not undercounted
+export const estimateTokens: TokenEstimator = (text) => {
+  if (!text) return 0
+  const words = text.trim().split(/\s+/).filter(Boolean).length
+  return Math.max(Math.ceil(text.length / 4), words)
+}
+
+export const estimateMessageTokens = (
+  message: ApiMessage,
+  estimate: TokenEstimator = estimateTokens,
+): number =>
+  estimate(message.content) +
+  (message.images?.length ?? 0) * IMAGE_CONFIG.TOKEN_ESTIMATE +
+  MESSAGE_TOKEN_OVERHEAD
+
+export const resolveContextWindow = (model: string, overrides: Record<string, number> = {}) => {
+  if (overrides[model]) return overrides[model]
+  return (
+    MODEL_CONTEXT_WINDOWS.find(({ pattern }) => pattern.test(model))?.tokens ??
+    DEFAULT_CONTEXT_WINDOW
+  )
+}
+
+// Room kept free for the answer, capped so a large max_tokens cannot starve the history
+export const replyReserve = (contextWindow: number, maxTokens?: number) =>
+  Math.min(maxTokens ?? Math.floor(contextWindow / 4), Math.floor(contextWindow / 2))
+
+// Pinned messages and the prompt always go out; history is added newest-first while it fits
+export const fitToContextWindow = ({
+  pinned,
+  history,
+  prompt,
+  contextWindow,
+  maxTokens,
+  estimate = estimateTokens,
+}: FitOptions): FittedHistory => {
+  const reservedForReply = replyReserve(contextWindow, maxTokens)
+  const availableTokens = contextWindow - reservedForReply
+
+  let usedTokens =
+    pinned.reduce((total, message) => total + estimateMessageTokens(message, estimate), 0) +
+    (prompt ? estimate(prompt) + MESSAGE_TOKEN_OVERHEAD : 0)
+
+  let firstKept = history.length
+  for (let index = history.length - 1; index >= 0; index--) {
+    const tokens = estimateMessageTokens(history[index], estimate)
+    if (usedTokens + tokens > availableTokens) break
+    usedTokens += tokens
+    firstKept = index
+  }
+
+  return {
+    messages: [...pinned, ...history.slice(firstKept)],
+    budget: {
+      contextWindow,
+      reservedForReply,
+      usedTokens,
+      availableTokens,
+      droppedCount: firstKept,
+    },
+  }
+}
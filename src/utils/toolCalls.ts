@@ -0,0 +1,38 @@
+import type { ToolCall, ToolCallDelta } from '@/types/api'
+
+// Puts streamed tool calls back together. Each delta names the call it belongs to by index,
+// the first one brings the id and name and the arguments arrive a few characters at a time.
+export class ToolCallAccumulator {
+  private calls: ToolCall[] = []
+
+  push(deltas: ToolCallDelta[]) {
+    for (const delta of deltas) {
+      const call = (this.calls[delta.index] ??= {
+        id: '',
+        type: 'function',
+        function: { name: '', arguments: '' },
+      })
+      if (delta.id) call.id = delta.id
+      if (delta.function?.name) call.function.name = delta.function.name
+      if (delta.function?.arguments) call.function.arguments += delta.function.arguments
+    }
+  }
+
+  // The finished calls in order, with ids made up for servers that leave them out
+  finish(): ToolCall[] {
+    return this.calls
+      .filter((call) => call !== undefined)
+      .map((call, index) => ({ ...call, id: call.id || `call_${index}` }))
+  }
+}
+
+// Models write the arguments as JSON text, and not always valid JSON
+export function parseToolArguments(text: string): Record<string, unknown> {
+  if (text.trim() === '') return {}
+
+  const parsed: unknown = JSON.parse(text)
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    throw new Error('Tool arguments must be a JSON object')
+  }
+  return parsed as Record<string, unknown>
+}
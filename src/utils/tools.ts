@@ -0,0 +1,259 @@
+import type { ToolCall, ToolDefinition } from '@/types/api'
+import type { ContextItem } from '@/types/chat'
+import { TOOL_CONFIG } from '@/constants'
+import { tokenize } from './searchIndex'
+import { parseToolArguments } from './toolCalls'
+
+// A function the model can call, run here in the browser
+export interface LocalTool {
+  name: string
+  description: string
+  // JSON Schema of the arguments object
+  parameters: Record<string, unknown>
+  run: (args: Record<string, unknown>) => string | Promise<string>
+}
+
+// The tools the model can be offered. Register more to plug them in, a tool with the
+// name of one already registered replaces it.
+export class ToolRegistry {
+  private tools = new Map<string, LocalTool>()
+
+  register(tool: LocalTool) {
+    this.tools.set(tool.name, tool)
+  }
+
+  unregister(name: string) {
+    this.tools.delete(name)
+  }
+
+  get(name: string): LocalTool | undefined {
+    return this.tools.get(name)
+  }
+
+  list(): LocalTool[] {
+    return [...this.tools.values()]
+  }
+
+  // What the request offers the model, limited to the given registered tools
+  definitions(names: string[]): ToolDefinition[] {
+    return this.list()
+      .filter((tool) => names.includes(tool.name))
+      .map((tool) => ({
+        type: 'function',
+        function: {
+          name: tool.name,
+          description: tool.description,
+          parameters: tool.parameters,
+        },
+      }))
+  }
+
+  // Runs what the model asked for and returns the text to send back. Throws when the tool
+  // is unknown, the arguments aren't JSON or the tool itself fails.
+  async run(call: ToolCall): Promise<string> {
+    const tool = this.get(call.function.name)
+    if (!tool) {
+      throw new Error(`Unknown tool: ${call.function.name}`)
+    }
+
+    const output = await tool.run(parseToolArguments(call.function.arguments))
+    return output.length > TOOL_CONFIG.MAX_RESULT_CHARS
+      ? `${output.slice(0, TOOL_CONFIG.MAX_RESULT_CHARS)}\n[truncated]`
+      : output
+  }
+}
+
+const FUNCTIONS: Record<string, (...args: number[]) => number> = {
+  sqrt: Math.sqrt,
+  abs: Math.abs,
+  sin: Math.sin,
+  cos: Math.cos,
+  tan: Math.tan,
+  asin: Math.asin,
+  acos: Math.acos,
+  atan: Math.atan,
+  ln: Math.log,
+  log: Math.log10,
+  exp: Math.exp,
+  round: Math.round,
+  floor: Math.floor,
+  ceil: Math.ceil,
+  min: Math.min,
+  max: Math.max,
+  pow: Math.pow,
+}
+
+const CONSTANTS: Record<string, number> = {
+  pi: Math.PI,
+  e: Math.E,
+}
+
+// Only the names listed above, not what every object inherits like constructor or toString
+const isOwn = (table: object, name: string) => Object.prototype.hasOwnProperty.call(table, name)
+
+// Arithmetic without eval: numbers, + - * / % ^, parentheses, the functions and constants
+// above. ^ binds tighter than unary minus and groups to the right, so -2^2 is -4.
+export function evaluateExpression(expression: string): number {
+  const tokens = expression.match(/\d*\.?\d+(?:e[+-]?\d+)?|[a-z]+|\*\*|[-+*/%^(),]|\S/gi) ?? []
+  let position = 0
+
+  const peek = () => tokens[position]
+  const next = () => tokens[position++]
+  const expect = (token: string) => {
+    if (next() !== token) throw new Error(`Expected "${token}" in ${expression}`)
+  }
+
+  const parseSum = (): number => {
+    let value = parseProduct()
+    while (peek() === '+' || peek() === '-') {
+      value = next() === '+' ? value + parseProduct() : value - parseProduct()
+    }
+    return value
+  }
+
+  const parseProduct = (): number => {
+    let value = parseUnary()
+    while (peek() === '*' || peek() === '/' || peek() === '%') {
+      const operator = next()
+      const right = parseUnary()
+      value = operator === '*' ? value * right : operator === '/' ? value / right : value % right
+    }
+    return value
+  }
+
+  const parseUnary = (): number => {
+    if (peek() === '-') {
+      next()
+      return -parseUnary()
+    }
+    if (peek() === '+') {
+      next()
+      return parseUnary()
+    }
+    return parsePower()
+  }
+
+  const parsePower = (): number => {
+    const base = parseAtom()
+    if (peek() === '^' || peek() === '**') {
+      next()
+      return base ** parseUnary()
+    }
+    return base
+  }
+
+  const parseAtom = (): number => {
+    const token = next()
+    if (token === undefined) throw new Error(`Unexpected end of ${expression}`)
+
+    if (token === '(') {
+      const value = parseSum()
+      expect(')')
+      return value
+    }
+    if (/^\d*\.?\d/.test(token)) return Number(token)
+
+    const name = token.toLowerCase()
+    if (isOwn(CONSTANTS, name)) return CONSTANTS[name]
+    if (isOwn(FUNCTIONS, name)) {
+      expect('(')
+      const args = [parseSum()]
+      while (peek() === ',') {
+        next()
+        args.push(parseSum())
+      }
+      expect(')')
+      return FUNCTIONS[name](...args)
+    }
+    throw new Error(`Unexpected "${token}" in ${expression}`)
+  }
+
+  const value = parseSum()
+  if (position < tokens.length) {
+    throw new Error(`Unexpected "${tokens[position]}" in ${expression}`)
+  }
+  return value
+}
+
+export const calculatorTool: LocalTool = {
+  name: 'calculator',
+  description:
+    'Evaluates an arithmetic expression exactly. Supports + - * / % ^, parentheses, ' +
+    'sqrt, abs, sin, cos, tan, ln, log, exp, round, floor, ceil, min, max, pow, pi and e.',
+  parameters: {
+    type: 'object',
+    properties: {
+      expression: { type: 'string', description: 'For example (3 + 4) * sqrt(2)' },
+    },
+    required: ['expression'],
+  },
+  run: ({ expression }) => {
+    if (typeof expression !== 'string') throw new Error('expression must be a string')
+    const value = evaluateExpression(expression)
+    if (!Number.isFinite(value)) throw new Error(`${expression} has no finite value`)
+    return String(value)
+  },
+}
+
+export const createCurrentTimeTool = (now: () => Date = () => new Date()): LocalTool => ({
+  name: 'current_time',
+  description: "Returns the current date and time, in the user's time zone unless one is given.",
+  parameters: {
+    type: 'object',
+    properties: {
+      timeZone: { type: 'string', description: 'IANA time zone such as Europe/Paris' },
+    },
+  },
+  run: ({ timeZone }) => {
+    const date = now()
+    const zone = typeof timeZone === 'string' && timeZone ? timeZone : undefined
+    const local = date.toLocaleString('en-US', {
+      timeZone: zone,
+      dateStyle: 'full',
+      timeStyle: 'long',
+    })
+    return `${local} (${date.toISOString()})`
+  },
+})
+
+// Finds the saved contexts sharing the most words with the query, titles count double
+export const createContextSearchTool = (getContexts: () => ContextItem[]): LocalTool => ({
+  name: 'search_contexts',
+  description:
+    "Searches the user's saved contexts (notes, documents, code) and returns the best matches.",
+  parameters: {
+    type: 'object',
+    properties: {
+      query: { type: 'string', description: 'Words to look for' },
+    },
+    required: ['query'],
+  },
+  run: ({ query }) => {
+    if (typeof query !== 'string') throw new Error('query must be a string')
+    const terms = new Set(tokenize(query))
+
+    const matches = getContexts()
+      .map((context) => {
+        const titleTerms = new Set(tokenize(context.title))
+        const contentTerms = new Set(tokenize(context.content))
+        let score = 0
+        terms.forEach((term) => {
+          if (titleTerms.has(term)) score += 2
+          if (contentTerms.has(term)) score += 1
+        })
+        return { context, score }
+      })
+      .filter(({ score }) => score > 0)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, TOOL_CONFIG.CONTEXT_SEARCH_RESULTS)
+
+    if (matches.length === 0) return 'No saved contexts match the query.'
+    return matches.map(({ context }) => `## ${context.title}\n${context.content}`).join('\n\n')
+  },
+})
+
+export const createBuiltinTools = (getContexts: () => ContextItem[]): LocalTool[] => [
+  calculatorTool,
+  createCurrentTimeTool(),
+  createContextSearchTool(getContexts),
+]
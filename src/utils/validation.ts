@@ -1,5 +1,20 @@
-import type { Message, ContextItem, ChatState } from '@/types/chat'
-import { PROGRAMMING_LANGUAGES, CONTEXT_TYPES } from '@/constants'
+import type {
+  Message,
+  ContextItem,
+  ChatState,
+  Conversation,
+  ConversationSummary,
+  Persona,
+  ArenaVote,
+  RequestAttempt,
+  ToolCallRecord,
+  ImageAttachment,
+  GenerationInfo,
+  Citation,
+  RetrievalSettings,
+} from '@/types/chat'
+import type { ServerProfile } from '@/types/api'
+import { PROGRAMMING_LANGUAGES, CONTEXT_TYPES, CHAT_PROVIDERS } from '@/constants'
 
 // Type Guards
 export function isMessage(obj: unknown): obj is Message {
@@ -9,11 +24,124 @@ export function isMessage(obj: unknown): obj is Message {
 
   return (
     typeof message.id === 'number' &&
+    (message.parentId === undefined ||
+      message.parentId === null ||
+      typeof message.parentId === 'number') &&
     typeof message.role === 'string' &&
     ['user', 'assistant', 'developer'].includes(message.role) &&
     typeof message.content === 'string' &&
     (message.timestamp === undefined || message.timestamp instanceof Date) &&
-    (message.context === undefined || Array.isArray(message.context))
+    (message.context === undefined || Array.isArray(message.context)) &&
+    (message.model === undefined || typeof message.model === 'string') &&
+    (message.reasoning === undefined || typeof message.reasoning === 'string') &&
+    (message.reasoningMs === undefined || typeof message.reasoningMs === 'number') &&
+    (message.images === undefined ||
+      (Array.isArray(message.images) && message.images.every(isImageAttachment))) &&
+    (message.toolCalls === undefined ||
+      (Array.isArray(message.toolCalls) && message.toolCalls.every(isToolCallRecord))) &&
+    (message.citations === undefined ||
+      (Array.isArray(message.citations) && message.citations.every(isCitation))) &&
+    (message.attempts === undefined ||
+      (Array.isArray(message.attempts) && message.attempts.every(isRequestAttempt))) &&
+    (message.generation === undefined || isGenerationInfo(message.generation))
+  )
+}
+
+export function isGenerationInfo(obj: unknown): obj is GenerationInfo {
+  if (!obj || typeof obj !== 'object') return false
+
+  const info = obj as Record<string, unknown>
+  const isOptionalNumber = (value: unknown) => value === undefined || typeof value === 'number'
+
+  return (
+    typeof info.endpoint === 'string' &&
+    typeof info.params === 'object' &&
+    info.params !== null &&
+    (info.finishReason === undefined || typeof info.finishReason === 'string') &&
+    isOptionalNumber(info.promptTokens) &&
+    isOptionalNumber(info.completionTokens) &&
+    isOptionalNumber(info.timeToFirstTokenMs) &&
+    isOptionalNumber(info.tokensPerSecond)
+  )
+}
+
+export function isImageAttachment(obj: unknown): obj is ImageAttachment {
+  if (!obj || typeof obj !== 'object') return false
+
+  const image = obj as Record<string, unknown>
+
+  return (
+    typeof image.name === 'string' &&
+    typeof image.dataUrl === 'string' &&
+    image.dataUrl.startsWith('data:image/') &&
+    typeof image.width === 'number' &&
+    typeof image.height === 'number'
+  )
+}
+
+export function isToolCallRecord(obj: unknown): obj is ToolCallRecord {
+  if (!obj || typeof obj !== 'object') return false
+
+  const call = obj as Record<string, unknown>
+
+  return (
+    typeof call.name === 'string' &&
+    typeof call.arguments === 'string' &&
+    ['pending', 'denied', 'done', 'error'].includes(call.status as string) &&
+    (call.result === undefined || typeof call.result === 'string')
+  )
+}
+
+export function isCitation(obj: unknown): obj is Citation {
+  if (!obj || typeof obj !== 'object') return false
+
+  const citation = obj as Record<string, unknown>
+
+  return (
+    typeof citation.contextId === 'string' &&
+    typeof citation.title === 'string' &&
+    typeof citation.text === 'string' &&
+    typeof citation.score === 'number'
+  )
+}
+
+export function isRetrievalSettings(obj: unknown): obj is RetrievalSettings {
+  if (!obj || typeof obj !== 'object') return false
+
+  const settings = obj as Record<string, unknown>
+
+  return (
+    typeof settings.enabled === 'boolean' &&
+    typeof settings.embeddingModel === 'string' &&
+    Number.isInteger(settings.topK) &&
+    (settings.topK as number) > 0
+  )
+}
+
+export function isRequestAttempt(obj: unknown): obj is RequestAttempt {
+  if (!obj || typeof obj !== 'object') return false
+
+  const attempt = obj as Record<string, unknown>
+
+  return (
+    typeof attempt.server === 'string' &&
+    typeof attempt.model === 'string' &&
+    (attempt.error === undefined || typeof attempt.error === 'string')
+  )
+}
+
+export function isArenaVote(obj: unknown): obj is ArenaVote {
+  if (!obj || typeof obj !== 'object') return false
+
+  const vote = obj as Record<string, unknown>
+
+  return (
+    typeof vote.id === 'string' &&
+    Array.isArray(vote.models) &&
+    vote.models.every((model) => typeof model === 'string') &&
+    (vote.winner === null || typeof vote.winner === 'string') &&
+    typeof vote.prompt === 'string' &&
+    vote.timestamp instanceof Date
   )
 }
 
@@ -29,7 +157,75 @@ export function isContextItem(obj: unknown): obj is ContextItem {
     typeof context.title === 'string' &&
     typeof context.content === 'string' &&
     (context.language === undefined ||
-      PROGRAMMING_LANGUAGES.some((l) => l.value === context.language))
+      PROGRAMMING_LANGUAGES.some((l) => l.value === context.language)) &&
+    (context.group === undefined || typeof context.group === 'string')
+  )
+}
+
+export function isConversation(obj: unknown): obj is Conversation {
+  if (!obj || typeof obj !== 'object') return false
+
+  const conversation = obj as Record<string, unknown>
+
+  return (
+    typeof conversation.id === 'string' &&
+    typeof conversation.title === 'string' &&
+    typeof conversation.model === 'string' &&
+    Array.isArray(conversation.activeContextIds) &&
+    conversation.activeContextIds.every((id) => typeof id === 'string') &&
+    (conversation.params === undefined ||
+      (typeof conversation.params === 'object' && conversation.params !== null)) &&
+    (conversation.systemPrompt === undefined || typeof conversation.systemPrompt === 'string') &&
+    (conversation.personaId === undefined || typeof conversation.personaId === 'string') &&
+    (conversation.activeLeafId === undefined || typeof conversation.activeLeafId === 'number') &&
+    (conversation.autoSummarize === undefined || typeof conversation.autoSummarize === 'boolean') &&
+    (conversation.summary === undefined || isConversationSummary(conversation.summary)) &&
+    (conversation.importedFrom === undefined || typeof conversation.importedFrom === 'string') &&
+    (conversation.profileId === undefined || typeof conversation.profileId === 'string') &&
+    conversation.createdAt instanceof Date &&
+    conversation.updatedAt instanceof Date &&
+    typeof conversation.messageCount === 'number'
+  )
+}
+
+export function isConversationSummary(obj: unknown): obj is ConversationSummary {
+  if (!obj || typeof obj !== 'object') return false
+
+  const summary = obj as Record<string, unknown>
+
+  return typeof summary.content === 'string' && typeof summary.throughId === 'number'
+}
+
+export function isPersona(obj: unknown): obj is Persona {
+  if (!obj || typeof obj !== 'object') return false
+
+  const persona = obj as Record<string, unknown>
+
+  return (
+    typeof persona.id === 'string' &&
+    typeof persona.name === 'string' &&
+    typeof persona.systemPrompt === 'string' &&
+    (persona.params === undefined ||
+      (typeof persona.params === 'object' && persona.params !== null)) &&
+    (persona.model === undefined || typeof persona.model === 'string')
+  )
+}
+
+export function isServerProfile(obj: unknown): obj is ServerProfile {
+  if (!obj || typeof obj !== 'object') return false
+
+  const profile = obj as Record<string, unknown>
+
+  return (
+    typeof profile.id === 'string' &&
+    typeof profile.name === 'string' &&
+    CHAT_PROVIDERS.some((p) => p.value === profile.provider) &&
+    typeof profile.baseUrl === 'string' &&
+    (profile.defaultModel === undefined || typeof profile.defaultModel === 'string') &&
+    (profile.defaultParams === undefined ||
+      (typeof profile.defaultParams === 'object' && profile.defaultParams !== null)) &&
+    (profile.fallbackProfileId === undefined || typeof profile.fallbackProfileId === 'string') &&
+    (profile.fallbackModel === undefined || typeof profile.fallbackModel === 'string')
   )
 }
 
@@ -63,6 +259,20 @@ export function validateContextItem(context: unknown): ContextItem {
   return context
 }
 
+export function validateConversation(conversation: unknown): Conversation {
+  if (!isConversation(conversation)) {
+    throw new Error('Invalid conversation format')
+  }
+  return conversation
+}
+
+export function validatePersona(persona: unknown): Persona {
+  if (!isPersona(persona)) {
+    throw new Error('Invalid persona format')
+  }
+  return persona
+}
+
 export function validateChatState(state: unknown): ChatState {
   if (!isChatState(state)) {
     throw new Error('Invalid chat state format')
@@ -74,6 +284,7 @@ export function validateChatState(state: unknown): ChatState {
 export function sanitizeMessage(message: Message): Message {
   return {
     id: Math.max(0, Math.floor(message.id)),
+    parentId: message.parentId,
     role: message.role,
     content: String(message.content).trim(),
     timestamp: message.timestamp instanceof Date ? message.timestamp : new Date(),
@@ -124,6 +335,54 @@ export function validateContextsArray(contexts: unknown[]): ContextItem[] {
   })
 }
 
+export function validateConversationsArray(conversations: unknown[]): Conversation[] {
+  if (!Array.isArray(conversations)) {
+    throw new Error('Conversations must be an array')
+  }
+
+  return conversations.map((conversation, index) => {
+    try {
+      return validateConversation(conversation)
+    } catch (error) {
+      throw new Error(
+        `Invalid conversation at index ${index}: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      )
+    }
+  })
+}
+
+export function validatePersonasArray(personas: unknown[]): Persona[] {
+  if (!Array.isArray(personas)) {
+    throw new Error('Personas must be an array')
+  }
+
+  return personas.map((persona, index) => {
+    try {
+      return validatePersona(persona)
+    } catch (error) {
+      throw new Error(
+        `Invalid persona at index ${index}: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      )
+    }
+  })
+}
+
+// JSON round-trips turn Date fields into ISO strings, restore them before validating
+export function reviveDates<T>(items: unknown[], fields: string[]): T[] {
+  return items.map((item) => {
+    if (!item || typeof item !== 'object') return item as T
+
+    const revived = { ...(item as Record<string, unknown>) }
+    fields.forEach((field) => {
+      const value = revived[field]
+      if (typeof value === 'string' || typeof value === 'number') {
+        revived[field] = new Date(value)
+      }
+    })
+    return revived as T
+  })
+}
+
 // Safe Parsing Functions
 export function safeParseJSON<T>(json: string, validator: (obj: unknown) => obj is T): T | null {
   try {
@@ -141,7 +400,7 @@ export function safeParseMessages(json: string): Message[] | null {
   try {
     const parsed = JSON.parse(json)
     if (Array.isArray(parsed)) {
-      return validateMessagesArray(parsed)
+      return validateMessagesArray(reviveDates(parsed, ['timestamp']))
     }
     return null
   } catch {
@@ -161,6 +420,33 @@ export function safeParseContexts(json: string): ContextItem[] | null {
   }
 }
 
+export function safeParseConversations(json: string): Conversation[] | null {
+  try {
+    const parsed = JSON.parse(json)
+    if (Array.isArray(parsed)) {
+      return validateConversationsArray(reviveDates(parsed, ['createdAt', 'updatedAt']))
+    }
+    return null
+  } catch {
+    return null
+  }
+}
+
+export function safeParsePersonas(json: string): Persona[] | null {
+  try {
+    const parsed = JSON.parse(json)
+    if (Array.isArray(parsed)) {
+      return validatePersonasArray(parsed)
+    }
+    return null
+  } catch {
+    return null
+  }
+}
+
+const isRecordOf = (data: unknown, isValue: (value: unknown) => boolean): boolean =>
+  !!data && typeof data === 'object' && !Array.isArray(data) && Object.values(data).every(isValue)
+
 // Storage Validation
 export function validateStorageData(key: string, data: unknown): boolean {
   switch (key) {
@@ -172,6 +458,45 @@ export function validateStorageData(key: string, data: unknown): boolean {
       return typeof data === 'string' && data.length > 0
     case 'yokai-chat-lmstudio-base-url':
       return typeof data === 'string'
+    case 'yokai-chat-provider':
+      return CHAT_PROVIDERS.some((p) => p.value === data)
+    case 'yokai-chat-conversations':
+      return (
+        Array.isArray(data) &&
+        reviveDates<unknown>(data, ['createdAt', 'updatedAt']).every(isConversation)
+      )
+    case 'yokai-chat-active-conversation':
+      return typeof data === 'string'
+    case 'yokai-chat-model-presets':
+      return !!data && typeof data === 'object' && !Array.isArray(data)
+    case 'yokai-chat-context-windows':
+      return (
+        !!data &&
+        typeof data === 'object' &&
+        !Array.isArray(data) &&
+        Object.values(data).every((tokens) => Number.isInteger(tokens) && tokens > 0)
+      )
+    case 'yokai-chat-personas':
+      return Array.isArray(data) && data.every(isPersona)
+    case 'yokai-chat-arena-votes':
+      return Array.isArray(data) && reviveDates<unknown>(data, ['timestamp']).every(isArenaVote)
+    case 'yokai-chat-server-profiles':
+      return Array.isArray(data) && data.every(isServerProfile)
+    case 'yokai-chat-active-profile':
+      return typeof data === 'string'
+    case 'yokai-chat-enabled-tools':
+      return Array.isArray(data) && data.every((name) => typeof name === 'string')
+    case 'yokai-chat-retrieval-settings':
+      return isRetrievalSettings(data)
+    case 'yokai-chat-server-credentials':
+      return isRecordOf(data, (entry) => {
+        if (!entry || typeof entry !== 'object' || Array.isArray(entry)) return false
+        const { apiKey, headers } = entry as Record<string, unknown>
+        return (
+          (apiKey === undefined || typeof apiKey === 'string') &&
+          (headers === undefined || isRecordOf(headers, (v) => typeof v === 'string'))
+        )
+      })
     default:
       return false
   }
@@ -0,0 +1,81 @@
+// Reads .zip archives with what the browser already has: the central directory is parsed
+// by hand and deflated entries go through DecompressionStream.
+
+export interface ZipEntry {
+  path: string
+  size: number
+  read: () => Promise<Uint8Array>
+}
+
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50
+const CENTRAL_DIRECTORY_HEADER = 0x02014b50
+const LOCAL_FILE_HEADER = 0x04034b50
+const STORED = 0
+const DEFLATED = 8
+
+async function inflateRaw(data: Uint8Array): Promise<Uint8Array> {
+  const body = new Response(data).body
+  if (!body) throw new Error('Could not read zip entry')
+  const stream = body.pipeThrough(new DecompressionStream('deflate-raw'))
+  return new Uint8Array(await new Response(stream).arrayBuffer())
+}
+
+// The end record sits in the last 22 bytes, or further back when the archive has a comment
+function findEndOfCentralDirectory(view: DataView): number {
+  const earliest = Math.max(0, view.byteLength - 22 - 0xffff)
+  for (let offset = view.byteLength - 22; offset >= earliest; offset--) {
+    if (view.getUint32(offset, true) === END_OF_CENTRAL_DIRECTORY) return offset
+  }
+  throw new Error('Not a zip file')
+}
+
+// Files in the archive, without directories. Entries are decompressed when read.
+export function readZip(data: Uint8Array): ZipEntry[] {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength)
+  const end = findEndOfCentralDirectory(view)
+  const count = view.getUint16(end + 10, true)
+  let offset = view.getUint32(end + 16, true)
+
+  const decoder = new TextDecoder()
+  const entries: ZipEntry[] = []
+
+  for (let index = 0; index < count; index++) {
+    if (view.getUint32(offset, true) !== CENTRAL_DIRECTORY_HEADER) {
+      throw new Error('Corrupt zip file')
+    }
+    const method = view.getUint16(offset + 10, true)
+    const compressedSize = view.getUint32(offset + 20, true)
+    const size = view.getUint32(offset + 24, true)
+    const nameLength = view.getUint16(offset + 28, true)
+    const extraLength = view.getUint16(offset + 30, true)
+    const commentLength = view.getUint16(offset + 32, true)
+    const localOffset = view.getUint32(offset + 42, true)
+    const path = decoder.decode(data.subarray(offset + 46, offset + 46 + nameLength))
+    offset += 46 + nameLength + extraLength + commentLength
+
+    if (path.endsWith('/')) continue
+
+    entries.push({
+      path,
+      size,
+      read: async () => {
+        if (view.getUint32(localOffset, true) !== LOCAL_FILE_HEADER) {
+          throw new Error(`Corrupt zip entry ${path}`)
+        }
+        // The local header has its own name and extra field lengths
+        const start =
+          localOffset +
+          30 +
+          view.getUint16(localOffset + 26, true) +
+          view.getUint16(localOffset + 28, true)
+        const compressed = data.subarray(start, start + compressedSize)
+
+        if (method === STORED) return compressed
+        if (method === DEFLATED) return inflateRaw(compressed)
+        throw new Error(`${path} uses an unsupported compression method`)
+      },
+    })
+  }
+
+  return entries
+}
@@ -1,5 +1,5 @@
 import { describe, it, expect, vi } from 'vitest'
-import { render } from '@testing-library/vue'
+import { render, fireEvent } from '@testing-library/vue'
 import { createTestingPinia } from '@pinia/testing'
 import MessageList from '@/components/MessageList.vue'
 import type { Message } from '@/types/chat'
@@ -129,4 +129,60 @@ describe('MessageList', () => {
     // Should use regular message list
     expect(container.querySelector('.message-list-container')).toBeInTheDocument()
   })
+
+  it('navigates between branches of a message', async () => {
+    const { getByText, getByTitle, emitted } = render(MessageList, {
+      props: { messages: mockMessages, branches: { 2: { index: 1, count: 3 } } },
+      global: {
+        plugins: [createTestingPinia({ createSpy: vi.fn })],
+      },
+    })
+
+    expect(getByText('2/3')).toBeInTheDocument()
+
+    await fireEvent.click(getByTitle('Next version'))
+    await fireEvent.click(getByTitle('Previous version'))
+
+    expect(emitted()['switch-branch']).toEqual([
+      [2, 1],
+      [2, -1],
+    ])
+  })
+
+  it('emits the edited content of a user message', async () => {
+    const { getByTitle, getByLabelText, getByText, emitted } = render(MessageList, {
+      props: { messages: mockMessages },
+      global: {
+        plugins: [createTestingPinia({ createSpy: vi.fn })],
+      },
+    })
+
+    await fireEvent.click(getByTitle('Edit and resend'))
+    await fireEvent.update(getByLabelText('Edit message'), 'Hello again')
+    await fireEvent.click(getByText('Save & send'))
+
+    expect(emitted().edit).toEqual([[1, 'Hello again']])
+  })
+
+  it('offers to continue only the newest reply cut off by the token limit', async () => {
+    const generation = { endpoint: 'http://127.0.0.1:1234/v1', params: {}, finishReason: 'length' }
+    const messages: Message[] = [
+      { id: 1, role: 'user', content: 'Write a story' },
+      { id: 2, parentId: 1, role: 'assistant', content: 'Once upon', generation },
+    ]
+    const { getByTitle, queryByTitle, emitted, rerender } = render(MessageList, {
+      props: { messages },
+      global: {
+        plugins: [createTestingPinia({ createSpy: vi.fn })],
+      },
+    })
+
+    await fireEvent.click(getByTitle('Continue generating'))
+    expect(emitted().continue).toEqual([[2]])
+
+    await rerender({
+      messages: [messages[0], { ...messages[1], generation: { ...generation, finishReason: 'stop' } }],
+    })
+    expect(queryByTitle('Continue generating')).toBeNull()
+  })
 })
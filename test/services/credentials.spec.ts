@@ -0,0 +1,51 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { createApiService } from '@/services'
+import { invalidateAllCache } from '@/utils/requestCache'
+
+describe('server credentials', () => {
+  const baseUrl = 'https://llm.example.com/v1'
+  const credentials = { apiKey: 'sk-test', headers: { 'X-Tenant': 'team-a' } }
+
+  const sentHeaders = (fetchSpy: ReturnType<typeof vi.spyOn>) => {
+    const [, init] = fetchSpy.mock.calls[0] as [string, RequestInit]
+    return init.headers as Record<string, string>
+  }
+
+  beforeEach(() => {
+    vi.resetAllMocks()
+    invalidateAllCache()
+  })
+
+  it('sends the bearer key and extra headers with chat requests', async () => {
+    const fetchSpy = vi.spyOn(global, 'fetch').mockResolvedValue({ ok: true } as Response)
+
+    await createApiService('openai', baseUrl, credentials).testChat('qwen2.5-7b')
+
+    expect(fetchSpy.mock.calls[0][0]).toBe(`${baseUrl}/chat/completions`)
+    expect(sentHeaders(fetchSpy)).toMatchObject({
+      Authorization: 'Bearer sk-test',
+      'X-Tenant': 'team-a',
+    })
+  })
+
+  it('sends them when listing models too', async () => {
+    const fetchSpy = vi.spyOn(global, 'fetch').mockResolvedValue({
+      ok: true,
+      status: 200,
+      json: async () => ({ data: [{ id: 'qwen2.5-7b' }] }),
+    } as Response)
+
+    const models = await createApiService('openai', baseUrl, credentials).getAvailableModels()
+
+    expect(models).toEqual(['qwen2.5-7b'])
+    expect(sentHeaders(fetchSpy).Authorization).toBe('Bearer sk-test')
+  })
+
+  it('sends no Authorization header without a key', async () => {
+    const fetchSpy = vi.spyOn(global, 'fetch').mockResolvedValue({ ok: true } as Response)
+
+    await createApiService('lmstudio', baseUrl).testChat('qwen2.5-7b')
+
+    expect(sentHeaders(fetchSpy).Authorization).toBeUndefined()
+  })
+})
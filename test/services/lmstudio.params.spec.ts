@@ -0,0 +1,108 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { createLMStudioService } from '@/services/lmstudio'
+
+describe('LMStudioService generation params', () => {
+  const baseUrl = 'http://example.com:1234/v1'
+
+  const mockStreamResponse = () =>
+    vi.spyOn(global, 'fetch').mockResolvedValue({
+      ok: true,
+      status: 200,
+      body: new ReadableStream({
+        start(controller) {
+          controller.close()
+        },
+      }),
+    } as Response)
+
+  const sentBody = (fetchSpy: ReturnType<typeof mockStreamResponse>) => {
+    const [, init] = fetchSpy.mock.calls[0] as [string, RequestInit]
+    return JSON.parse(init.body as string)
+  }
+
+  beforeEach(() => {
+    vi.resetAllMocks()
+  })
+
+  it('falls back to the default temperature and max_tokens', async () => {
+    const fetchSpy = mockStreamResponse()
+
+    await createLMStudioService(baseUrl).sendMessageStream('hi', 'test-model', () => {})
+
+    const body = sentBody(fetchSpy)
+    expect(body.temperature).toBe(0.7)
+    expect(body.max_tokens).toBe(2048)
+  })
+
+  it('sends the provided sampling parameters', async () => {
+    const fetchSpy = mockStreamResponse()
+
+    await createLMStudioService(baseUrl).sendMessageStream(
+      'hi',
+      'test-model',
+      () => {},
+      undefined,
+      undefined,
+      [],
+      { temperature: 0.1, top_k: 20, stop: ['</s>'], seed: 42, repeat_penalty: 1.1 },
+    )
+
+    const body = sentBody(fetchSpy)
+    expect(body).toMatchObject({
+      model: 'test-model',
+      stream: true,
+      temperature: 0.1,
+      max_tokens: 2048,
+      top_k: 20,
+      stop: ['</s>'],
+      seed: 42,
+      repeat_penalty: 1.1,
+    })
+  })
+
+  it('sends attached images as image_url content parts after the text', async () => {
+    const fetchSpy = mockStreamResponse()
+    const image = 'data:image/jpeg;base64,/9j/4AAQ'
+
+    await createLMStudioService(baseUrl).streamChat(
+      [
+        { role: 'developer', content: 'Context' },
+        { role: 'user', content: 'What is this?', images: [image] },
+      ],
+      'qwen2-vl',
+      () => {},
+    )
+
+    expect(sentBody(fetchSpy).messages).toEqual([
+      { role: 'system', content: 'Context' },
+      {
+        role: 'user',
+        content: [
+          { type: 'text', text: 'What is this?' },
+          { type: 'image_url', image_url: { url: image } },
+        ],
+      },
+    ])
+  })
+
+  it('embeds through /embeddings and orders the vectors by input', async () => {
+    const fetchSpy = vi.spyOn(global, 'fetch').mockResolvedValue({
+      ok: true,
+      status: 200,
+      json: async () => ({
+        data: [
+          { index: 1, embedding: [0, 1] },
+          { index: 0, embedding: [1, 0] },
+        ],
+      }),
+    } as Response)
+
+    const vectors = await createLMStudioService(baseUrl).embed(['first', 'second'], 'embed-model')
+
+    expect(vectors).toEqual([
+      [1, 0],
+      [0, 1],
+    ])
+    expect(fetchSpy.mock.calls[0][0]).toBe(`${baseUrl}/embeddings`)
+  })
+})
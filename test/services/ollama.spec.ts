@@ -0,0 +1,174 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { createOllamaService } from '@/services/ollama'
+import { invalidateAllCache } from '@/utils/requestCache'
+
+describe('OllamaService', () => {
+  const baseUrl = 'http://example.com:11434'
+
+  // Hands the body out in the given pieces so lines can be split across reads
+  const ndjsonResponse = (pieces: string[]) =>
+    ({
+      ok: true,
+      status: 200,
+      body: new ReadableStream({
+        start(controller) {
+          const encoder = new TextEncoder()
+          pieces.forEach((piece) => controller.enqueue(encoder.encode(piece)))
+          controller.close()
+        },
+      }),
+    }) as Response
+
+  beforeEach(() => {
+    vi.resetAllMocks()
+    invalidateAllCache()
+  })
+
+  it('streams message content from NDJSON lines split across reads', async () => {
+    const lines = [
+      { message: { role: 'assistant', content: 'Hel' }, done: false },
+      { message: { role: 'assistant', content: 'lo!' }, done: false },
+      { message: { role: 'assistant', content: '' }, done: true, done_reason: 'stop' },
+    ].map((line) => JSON.stringify(line) + '\n')
+    const joined = lines.join('')
+    vi.spyOn(global, 'fetch').mockResolvedValue(
+      ndjsonResponse([joined.slice(0, 20), joined.slice(20, 70), joined.slice(70)]),
+    )
+
+    const chunks: string[] = []
+    await createOllamaService(baseUrl).sendMessageStream('hi', 'llama3.1', (c) => chunks.push(c))
+
+    expect(chunks.join('')).toBe('Hello!')
+  })
+
+  it('returns the done reason and token counts from the final line', async () => {
+    const final = { message: { content: '' }, done: true, done_reason: 'length' }
+    vi.spyOn(global, 'fetch').mockResolvedValue(
+      ndjsonResponse([JSON.stringify({ ...final, prompt_eval_count: 26, eval_count: 256 })]),
+    )
+
+    const result = await createOllamaService(baseUrl).sendMessageStream('hi', 'llama3.1', () => {})
+
+    expect(result).toEqual({
+      finishReason: 'length',
+      usage: { promptTokens: 26, completionTokens: 256 },
+    })
+  })
+
+  it('posts to /api/chat and maps max_tokens to num_predict', async () => {
+    const fetchSpy = vi.spyOn(global, 'fetch').mockResolvedValue(ndjsonResponse([]))
+
+    await createOllamaService(baseUrl).sendMessageStream(
+      'hi',
+      'llama3.1',
+      () => {},
+      undefined,
+      undefined,
+      [{ role: 'developer', content: 'Context' }],
+      { temperature: 0.1, max_tokens: 256, top_k: 20 },
+    )
+
+    const [url, init] = fetchSpy.mock.calls[0] as [string, RequestInit]
+    const body = JSON.parse(init.body as string)
+    expect(url).toBe(`${baseUrl}/api/chat`)
+    expect(body.messages[0]).toEqual({ role: 'system', content: 'Context' })
+    expect(body.options).toMatchObject({ temperature: 0.1, num_predict: 256, top_k: 20 })
+    expect(body.options.max_tokens).toBeUndefined()
+  })
+
+  it('sends attached images as plain base64', async () => {
+    const fetchSpy = vi.spyOn(global, 'fetch').mockResolvedValue(ndjsonResponse([]))
+
+    await createOllamaService(baseUrl).streamChat(
+      [{ role: 'user', content: 'What is this?', images: ['data:image/png;base64,iVBORw0K'] }],
+      'llava',
+      () => {},
+    )
+
+    const [, init] = fetchSpy.mock.calls[0] as [string, RequestInit]
+    expect(JSON.parse(init.body as string).messages[0]).toEqual({
+      role: 'user',
+      content: 'What is this?',
+      images: ['iVBORw0K'],
+    })
+  })
+
+  it('sends malformed tool call arguments back as an empty object', async () => {
+    const fetchSpy = vi.spyOn(global, 'fetch').mockResolvedValue(ndjsonResponse([]))
+
+    await createOllamaService(baseUrl).streamChat(
+      [
+        {
+          role: 'assistant',
+          content: '',
+          tool_calls: [
+            { id: 'call_0', type: 'function', function: { name: 'search', arguments: '{"q": ' } },
+          ],
+        },
+        { role: 'tool', tool_call_id: 'call_0', content: 'Error: bad arguments' },
+      ],
+      'llama3.1',
+      () => {},
+    )
+
+    const [, init] = fetchSpy.mock.calls[0] as [string, RequestInit]
+    expect(JSON.parse(init.body as string).messages[0].tool_calls).toEqual([
+      { function: { name: 'search', arguments: {} } },
+    ])
+  })
+
+  it('reports a streamed error line', async () => {
+    vi.spyOn(global, 'fetch').mockResolvedValue(
+      ndjsonResponse([JSON.stringify({ error: 'model "nope" not found' }) + '\n']),
+    )
+    const onError = vi.fn()
+
+    await expect(
+      createOllamaService(baseUrl).sendMessageStream('hi', 'nope', () => {}, onError),
+    ).rejects.toThrow()
+    expect(onError).toHaveBeenCalledWith('model "nope" not found')
+  })
+
+  it('lists pulled models from /api/tags', async () => {
+    const fetchSpy = vi.spyOn(global, 'fetch').mockResolvedValue({
+      ok: true,
+      status: 200,
+      json: async () => ({ models: [{ name: 'llama3.1:8b' }, { name: 'qwen2.5:7b' }] }),
+    } as Response)
+
+    const models = await createOllamaService(baseUrl).getAvailableModels()
+
+    expect(models).toEqual(['llama3.1:8b', 'qwen2.5:7b'])
+    expect(fetchSpy.mock.calls[0][0]).toBe(`${baseUrl}/api/tags`)
+  })
+
+  it('embeds a batch of texts with /api/embed', async () => {
+    const fetchSpy = vi.spyOn(global, 'fetch').mockResolvedValue({
+      ok: true,
+      status: 200,
+      json: async () => ({ embeddings: [[0.1, 0.2], [0.3, 0.4]] }),
+    } as Response)
+
+    const vectors = await createOllamaService(baseUrl).embed(['one', 'two'], 'nomic-embed-text')
+
+    const [url, init] = fetchSpy.mock.calls[0] as [string, RequestInit]
+    expect(vectors).toEqual([[0.1, 0.2], [0.3, 0.4]])
+    expect(url).toBe(`${baseUrl}/api/embed`)
+    expect(JSON.parse(init.body as string)).toEqual({
+      model: 'nomic-embed-text',
+      input: ['one', 'two'],
+    })
+  })
+
+  it('testChat sends a one-token, non-streaming request', async () => {
+    const fetchSpy = vi.spyOn(global, 'fetch').mockResolvedValue({ ok: true } as Response)
+
+    const ok = await createOllamaService(baseUrl).testChat('llama3.1')
+
+    const [url, init] = fetchSpy.mock.calls[0] as [string, RequestInit]
+    const body = JSON.parse(init.body as string)
+    expect(ok).toBe(true)
+    expect(url).toBe(`${baseUrl}/api/chat`)
+    expect(body).toMatchObject({ model: 'llama3.1', stream: false, options: { num_predict: 1 } })
+  })
+})
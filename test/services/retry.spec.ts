@@ -0,0 +1,96 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { createApiService } from '@/services'
+import { ConnectionError, ErrorFactory } from '@/errors/ApiError'
+
+describe('chat request retries', () => {
+  const baseUrl = 'http://127.0.0.1:1234/v1'
+  const messages = [{ role: 'user' as const, content: 'Hi' }]
+
+  const reply = {
+    ok: true,
+    status: 200,
+    json: async () => ({ choices: [{ message: { content: 'Hello' } }] }),
+  } as Response
+
+  const failure = (status: number, retryAfter?: string) =>
+    ({
+      ok: false,
+      status,
+      statusText: 'Error',
+      headers: new Headers(retryAfter ? { 'Retry-After': retryAfter } : {}),
+    }) as Response
+
+  beforeEach(() => {
+    vi.resetAllMocks()
+    vi.useFakeTimers()
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('retries 5xx responses and connection errors until the server answers', async () => {
+    const fetchSpy = vi
+      .spyOn(global, 'fetch')
+      .mockResolvedValueOnce(failure(503))
+      .mockRejectedValueOnce(new TypeError('Failed to fetch'))
+      .mockResolvedValueOnce(reply)
+    const service = createApiService('lmstudio', baseUrl)
+    const onRetry = vi.fn()
+    service.onRetry = onRetry
+
+    const result = service.complete(messages, 'qwen')
+    await vi.runAllTimersAsync()
+
+    expect(await result).toBe('Hello')
+    expect(fetchSpy).toHaveBeenCalledTimes(3)
+    expect(onRetry.mock.calls.map(([event]) => event.attempt)).toEqual([1, 2])
+  })
+
+  it('waits as long as Retry-After asks', async () => {
+    vi.spyOn(global, 'fetch').mockResolvedValueOnce(failure(429, '2')).mockResolvedValueOnce(reply)
+    const service = createApiService('lmstudio', baseUrl)
+    const onRetry = vi.fn()
+    service.onRetry = onRetry
+
+    const result = service.complete(messages, 'qwen')
+    await vi.runAllTimersAsync()
+
+    expect(await result).toBe('Hello')
+    expect(onRetry.mock.calls[0][0].delayMs).toBe(2000)
+  })
+
+  it('does not retry errors that would fail again', async () => {
+    const fetchSpy = vi.spyOn(global, 'fetch').mockResolvedValue(failure(401))
+    const service = createApiService('lmstudio', baseUrl)
+
+    await expect(service.complete(messages, 'qwen')).rejects.toMatchObject({ code: 'AUTH_ERROR' })
+    expect(fetchSpy).toHaveBeenCalledTimes(1)
+  })
+
+  it('gives up after the configured number of retries', async () => {
+    const fetchSpy = vi.spyOn(global, 'fetch').mockResolvedValue(failure(500))
+    const service = createApiService('lmstudio', baseUrl)
+
+    const result = service.complete(messages, 'qwen')
+    const assertion = expect(result).rejects.toMatchObject({ code: 'SERVER_ERROR' })
+    await vi.runAllTimersAsync()
+
+    await assertion
+    expect(fetchSpy).toHaveBeenCalledTimes(4)
+  })
+
+  it('treats only a rejected fetch as an unreachable server', async () => {
+    const fetchSpy = vi.spyOn(global, 'fetch').mockRejectedValue(new TypeError('Load failed'))
+    const service = createApiService('lmstudio', baseUrl)
+
+    const result = service.complete(messages, 'qwen')
+    const assertion = expect(result).rejects.toBeInstanceOf(ConnectionError)
+    await vi.runAllTimersAsync()
+
+    await assertion
+    expect(fetchSpy).toHaveBeenCalledTimes(4)
+    const bug = new TypeError("Cannot read properties of undefined (reading 'choices')")
+    expect(ErrorFactory.fromFetchError(bug, 'lmstudio')).not.toBeInstanceOf(ConnectionError)
+  })
+})
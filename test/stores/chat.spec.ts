@@ -1,7 +1,10 @@
-import { describe, it, expect, beforeEach } from 'vitest'
+import { describe, it, expect, beforeEach, vi } from 'vitest'
 import { setActivePinia, createPinia } from 'pinia'
+import { nextTick } from 'vue'
 import { useChatStore } from '@/stores/chat'
 import type { Message } from '@/types/chat'
+import { SEMANTIC_SEARCH_CONFIG } from '@/constants'
+import { StatePersistence } from '@/utils/persistence'
 
 describe('Chat Store', () => {
   beforeEach(() => {
@@ -158,4 +161,91 @@ describe('Chat Store', () => {
     expect(store.isStreaming).toBe(false)
     expect(store.isTyping).toBe(false)
   })
+
+  it('replaces summarized turns with the pinned summary', () => {
+    localStorage.clear()
+    const store = useChatStore()
+    store.createConversation()
+    store.setCurrentModel('some-unknown-model')
+    store.setContextWindow('some-unknown-model', 200)
+    store.setConversationParams({ max_tokens: 100 })
+
+    const first = store.createUserMessage('first question '.repeat(40))
+    store.createAssistantMessage()
+    store.createUserMessage('latest question')
+
+    expect(store.buildChatHistory('').dropped.map((m) => m.id)).toContain(first.id)
+
+    store.setAutoSummarize(true)
+    store.setConversationSummary({ content: 'They asked a long question.', throughId: first.id })
+
+    const { messages, dropped } = store.buildChatHistory('')
+    expect(messages[0]).toEqual({
+      role: 'system',
+      content: 'Summary of the earlier conversation:\nThey asked a long question.',
+    })
+    expect(messages.some((m) => m.content.startsWith('first question'))).toBe(false)
+    expect(dropped).toEqual([])
+  })
+
+  it('sends active contexts whole when retrieval fails', async () => {
+    localStorage.clear()
+    const store = useChatStore()
+    store.createConversation()
+    vi.spyOn(console, 'log').mockImplementation(() => {})
+    store.saveContext({ id: 'notes', type: 'text', title: 'Notes', content: 'The answer is 42.' })
+    store.setActiveContexts(['notes'])
+    store.setRetrievalSettings({ enabled: true, embeddingModel: 'embed' })
+    const sentContexts = () =>
+      store.buildChatHistory('').messages.filter((m) => m.content.includes('The answer is 42.'))
+
+    expect(sentContexts()).toHaveLength(0)
+
+    global.fetch = vi.fn().mockRejectedValue(new Error('Network error'))
+    await expect(store.retrieveCitations('what is the answer?')).rejects.toThrow()
+
+    expect(sentContexts()).toHaveLength(1)
+  })
+
+  it('embeds new messages for search by meaning without a search', async () => {
+    localStorage.clear()
+    const store = useChatStore()
+    const conversation = store.createConversation()
+    await nextTick()
+    store.setRetrievalSettings({ embeddingModel: 'embed-messages' })
+    global.fetch = vi.fn().mockResolvedValue({
+      ok: true,
+      json: async () => ({ data: [{ index: 0, embedding: [0.6, 0.8] }] }),
+    })
+    vi.useFakeTimers()
+
+    const message = store.createUserMessage('How do I bake bread?')
+    await vi.advanceTimersByTimeAsync(SEMANTIC_SEARCH_CONFIG.INDEX_DELAY)
+    vi.useRealTimers()
+
+    await vi.waitFor(async () => {
+      const records = await StatePersistence.loadMessageEmbeddings('embed-messages')
+      expect(records).toEqual([
+        expect.objectContaining({ conversationId: conversation.id, messageId: message.id }),
+      ])
+    })
+    expect(global.fetch).toHaveBeenCalledTimes(1)
+  })
+
+  it('finds replies by the model that wrote them', () => {
+    localStorage.clear()
+    const store = useChatStore()
+    store.setCurrentModel('qwen')
+    store.createConversation()
+    const question = store.createUserMessage('Tell me about tides')
+    const reply = store.createAssistantMessage()
+    store.updateMessage(reply.id, { content: 'Tides follow the moon.', model: 'llama' })
+
+    expect(store.search('tides model:llama').map((result) => result.document.messageId)).toEqual([
+      reply.id,
+    ])
+    expect(store.search('tides model:qwen').map((result) => result.document.messageId)).toEqual([
+      question.id,
+    ])
+  })
 })
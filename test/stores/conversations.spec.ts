@@ -0,0 +1,204 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+import { nextTick } from 'vue'
+import { setActivePinia, createPinia } from 'pinia'
+import { useConversationsStore } from '@/stores/conversations'
+import { useMessagesStore } from '@/stores/messages'
+import { useContextsStore } from '@/stores/contexts'
+import { useModelsStore } from '@/stores/models'
+import { StatePersistence, STORAGE_KEYS } from '@/utils/persistence'
+import { DEFAULT_CONVERSATION_TITLE } from '@/constants'
+
+describe('Conversations Store', () => {
+  beforeEach(() => {
+    localStorage.clear()
+    setActivePinia(createPinia())
+  })
+
+  it('creates a conversation on first load', () => {
+    const store = useConversationsStore()
+
+    store.loadConversationsFromStorage()
+
+    expect(store.conversations).toHaveLength(1)
+    expect(store.activeConversation?.title).toBe(DEFAULT_CONVERSATION_TITLE)
+    expect(StatePersistence.loadActiveConversationId()).toBe(store.activeConversationId)
+  })
+
+  it('keeps messages separate per conversation', () => {
+    const store = useConversationsStore()
+    const messagesStore = useMessagesStore()
+
+    const first = store.createConversation()
+    messagesStore.createUserMessage('First thread')
+
+    const second = store.createConversation()
+    expect(messagesStore.messages.some((m) => m.content === 'First thread')).toBe(false)
+    messagesStore.createUserMessage('Second thread')
+
+    store.switchConversation(first.id)
+    expect(messagesStore.messages.map((m) => m.content)).toContain('First thread')
+    expect(messagesStore.messages.map((m) => m.content)).not.toContain('Second thread')
+
+    store.switchConversation(second.id)
+    expect(messagesStore.messages.map((m) => m.content)).toContain('Second thread')
+  })
+
+  it('titles a new conversation after the first user message', async () => {
+    const store = useConversationsStore()
+    const messagesStore = useMessagesStore()
+
+    const conversation = store.createConversation()
+    messagesStore.createUserMessage('How do I debounce a watcher?')
+    await nextTick()
+
+    const updated = store.conversations.find((c) => c.id === conversation.id)
+    expect(updated?.title).toBe('How do I debounce a watcher?')
+    expect(updated?.messageCount).toBe(2)
+  })
+
+  it('renames a conversation and ignores blank titles', () => {
+    const store = useConversationsStore()
+    const conversation = store.createConversation()
+
+    store.renameConversation(conversation.id, '  Websocket debugging  ')
+    expect(store.activeConversation?.title).toBe('Websocket debugging')
+
+    store.renameConversation(conversation.id, '   ')
+    expect(store.activeConversation?.title).toBe('Websocket debugging')
+  })
+
+  it('duplicates a conversation with its messages', () => {
+    const store = useConversationsStore()
+    const messagesStore = useMessagesStore()
+
+    const original = store.createConversation('Original')
+    messagesStore.createUserMessage('Copy me')
+
+    const copy = store.duplicateConversation(original.id)
+
+    expect(copy?.title).toBe('Original (copy)')
+    expect(store.activeConversationId).toBe(copy?.id)
+    expect(messagesStore.messages.map((m) => m.content)).toContain('Copy me')
+    expect(StatePersistence.loadConversationMessages(original.id)).toHaveLength(2)
+  })
+
+  it('deletes the active conversation and falls back to another', () => {
+    const store = useConversationsStore()
+
+    const first = store.createConversation()
+    const second = store.createConversation()
+
+    store.deleteConversation(second.id)
+
+    expect(store.conversations.map((c) => c.id)).toEqual([first.id])
+    expect(store.activeConversationId).toBe(first.id)
+    expect(StatePersistence.loadConversationMessages(second.id)).toEqual([])
+  })
+
+  it('stops a streaming reply on switch and saves the rest of it to its conversation', () => {
+    const store = useConversationsStore()
+    const messagesStore = useMessagesStore()
+
+    const first = store.createConversation()
+    messagesStore.createUserMessage('Tell me a story')
+    const reply = messagesStore.createAssistantMessage()
+    const abortController = new AbortController()
+    messagesStore.setAbortController(abortController)
+    messagesStore.setStreaming(true)
+    messagesStore.updateMessage(reply.id, { content: 'Once upon' })
+
+    const second = store.createConversation()
+    expect(abortController.signal.aborted).toBe(true)
+    expect(messagesStore.isStreaming).toBe(false)
+
+    // What the stopped stream reports last lands in the first conversation only
+    messagesStore.updateMessage(reply.id, { content: 'Once upon a time', model: 'm' })
+    expect(messagesStore.allMessages.some((m) => m.id === reply.id)).toBe(false)
+
+    store.switchConversation(first.id)
+    expect(messagesStore.messages.find((m) => m.id === reply.id)).toMatchObject({
+      content: 'Once upon a time',
+      model: 'm',
+    })
+    expect(StatePersistence.loadConversationMessages(second.id).map((m) => m.id)).not.toContain(
+      reply.id,
+    )
+  })
+
+  it('starts a fresh conversation when the last one is deleted', () => {
+    const store = useConversationsStore()
+    const only = store.createConversation()
+
+    store.deleteConversation(only.id)
+
+    expect(store.conversations).toHaveLength(1)
+    expect(store.activeConversationId).not.toBe(only.id)
+  })
+
+  it('restores model and active contexts when switching', async () => {
+    const store = useConversationsStore()
+    const modelsStore = useModelsStore()
+    const contextsStore = useContextsStore()
+
+    modelsStore.setCurrentModel('model-a')
+    const first = store.createConversation()
+    contextsStore.setActiveContexts(['ctx-1'])
+    await nextTick()
+
+    store.createConversation()
+    modelsStore.setCurrentModel('model-b')
+    await nextTick()
+    expect(contextsStore.activeContextIds).toEqual([])
+
+    store.switchConversation(first.id)
+    expect(modelsStore.currentModel).toBe('model-a')
+    expect(contextsStore.activeContextIds).toEqual(['ctx-1'])
+  })
+
+  it('migrates the legacy single message list into a conversation', () => {
+    localStorage.setItem(
+      STORAGE_KEYS.MESSAGES,
+      JSON.stringify([
+        { id: 1, role: 'user', content: 'Old chat', timestamp: new Date().toISOString() },
+        { id: 2, role: 'assistant', content: 'Old reply', timestamp: new Date().toISOString() },
+      ]),
+    )
+
+    const store = useConversationsStore()
+    const messagesStore = useMessagesStore()
+    store.loadConversationsFromStorage()
+
+    expect(store.conversations).toHaveLength(1)
+    expect(store.activeConversation?.title).toBe('Old chat')
+    expect(messagesStore.messages.map((m) => m.content)).toEqual(['Old chat', 'Old reply'])
+    expect(localStorage.getItem(STORAGE_KEYS.MESSAGES)).toBeNull()
+  })
+
+  it('merges imported conversations and skips ones imported before', () => {
+    const store = useConversationsStore()
+    const messagesStore = useMessagesStore()
+    store.loadConversationsFromStorage()
+
+    const imported = {
+      sourceId: 'chatgpt:conv-1',
+      title: 'Imported chat',
+      model: 'gpt-4o',
+      createdAt: new Date('2024-03-10T12:00:00Z'),
+      updatedAt: new Date('2024-03-10T12:05:00Z'),
+      messages: [
+        { id: 1, parentId: null, role: 'user' as const, content: 'Question' },
+        { id: 2, parentId: 1, role: 'assistant' as const, content: 'Answer' },
+      ],
+      activeLeafId: 2,
+    }
+
+    const added = store.importConversations([imported])
+    expect(added).toHaveLength(1)
+    expect(store.conversations).toHaveLength(2)
+    expect(added[0].messageCount).toBe(2)
+    expect(store.importConversations([imported])).toHaveLength(0)
+
+    store.switchConversation(added[0].id)
+    expect(messagesStore.messages.map((m) => m.content)).toEqual(['Question', 'Answer'])
+  })
+})
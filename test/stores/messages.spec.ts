@@ -0,0 +1,96 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+import { nextTick } from 'vue'
+import { setActivePinia, createPinia } from 'pinia'
+import { useMessagesStore } from '@/stores/messages'
+import { useConversationsStore } from '@/stores/conversations'
+import { StatePersistence } from '@/utils/persistence'
+import type { Message } from '@/types/chat'
+
+const contents = (messages: Message[]) => messages.map((m) => m.content)
+
+describe('Messages Store branching', () => {
+  beforeEach(() => {
+    localStorage.clear()
+    setActivePinia(createPinia())
+  })
+
+  it('keeps regenerated replies as sibling branches', () => {
+    const store = useMessagesStore()
+
+    const question = store.createUserMessage('Question')
+    const first = store.createAssistantMessage()
+    store.updateMessage(first.id, { content: 'First answer' })
+
+    const second = store.createAssistantMessage(question.id)
+    store.updateMessage(second.id, { content: 'Second answer' })
+
+    expect(contents(store.messages).slice(1)).toEqual(['Question', 'Second answer'])
+    expect(store.branchPositions[second.id]).toEqual({ index: 1, count: 2 })
+
+    store.switchBranch(second.id, -1)
+    expect(contents(store.messages).slice(1)).toEqual(['Question', 'First answer'])
+    expect(store.branchPositions[first.id]).toEqual({ index: 0, count: 2 })
+  })
+
+  it('follows the newest replies when switching to an edited prompt', () => {
+    const store = useMessagesStore()
+
+    const original = store.createUserMessage('Original')
+    store.createAssistantMessage()
+
+    const edited = store.createUserMessage('Edited', undefined, original.parentId)
+    const reply = store.createAssistantMessage()
+    store.updateMessage(reply.id, { content: 'Reply to edit' })
+
+    store.switchBranch(edited.id, -1)
+    expect(contents(store.messages).slice(1)).toEqual(['Original', ''])
+
+    store.switchBranch(original.id, 1)
+    expect(contents(store.messages).slice(1)).toEqual(['Edited', 'Reply to edit'])
+    expect(store.allMessages).toHaveLength(5)
+  })
+
+  it('moves replies up to the parent when a message is removed', () => {
+    const store = useMessagesStore()
+
+    const question = store.createUserMessage('Question')
+    const answer = store.createAssistantMessage()
+
+    store.removeMessage(question.id)
+
+    expect(store.messages.map((m) => m.id)).not.toContain(question.id)
+    expect(store.messages[store.messages.length - 1].id).toBe(answer.id)
+  })
+
+  it('links messages saved before branching existed in list order', () => {
+    const store = useMessagesStore()
+    const legacy: Message[] = [
+      { id: 1, role: 'assistant', content: 'Welcome' },
+      { id: 2, role: 'user', content: 'Hi' },
+      { id: 3, role: 'assistant', content: 'Hello' },
+    ]
+
+    store.setConversationMessages('legacy', legacy)
+
+    expect(store.messages.map((m) => m.parentId)).toEqual([null, 1, 2])
+    expect(StatePersistence.loadConversationMessages('legacy')[2].parentId).toBe(2)
+  })
+
+  it('restores the selected branch when switching conversations', async () => {
+    const conversations = useConversationsStore()
+    const store = useMessagesStore()
+
+    const first = conversations.createConversation()
+    const question = store.createUserMessage('Question')
+    const answer = store.createAssistantMessage()
+    store.createAssistantMessage(question.id)
+    store.switchBranch(answer.id, 0)
+    await nextTick()
+
+    conversations.createConversation()
+    await nextTick()
+    conversations.switchConversation(first.id)
+
+    expect(store.messages[store.messages.length - 1].id).toBe(answer.id)
+  })
+})
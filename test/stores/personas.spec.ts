@@ -0,0 +1,82 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+import { setActivePinia, createPinia } from 'pinia'
+import { usePersonasStore } from '@/stores/personas'
+import { useConversationsStore } from '@/stores/conversations'
+import { useModelsStore } from '@/stores/models'
+import { StatePersistence } from '@/utils/persistence'
+import type { Persona } from '@/types/chat'
+
+const reviewer: Persona = {
+  id: 'reviewer',
+  name: '  Code reviewer ',
+  systemPrompt: 'Review the code for bugs.',
+  params: { temperature: 0.2 },
+  model: 'qwen2.5-coder',
+}
+
+describe('Personas Store', () => {
+  beforeEach(() => {
+    localStorage.clear()
+    setActivePinia(createPinia())
+  })
+
+  it('saves, updates and deletes personas in storage', () => {
+    const store = usePersonasStore()
+
+    store.savePersona(reviewer)
+    expect(StatePersistence.loadPersonas()).toEqual([{ ...reviewer, name: 'Code reviewer' }])
+
+    store.savePersona({ ...reviewer, name: 'Strict reviewer', params: {}, model: '' })
+    expect(store.personas).toHaveLength(1)
+    expect(store.personas[0]).toEqual({
+      id: 'reviewer',
+      name: 'Strict reviewer',
+      systemPrompt: 'Review the code for bugs.',
+      params: undefined,
+      model: undefined,
+    })
+
+    store.deletePersona('reviewer')
+    expect(StatePersistence.loadPersonas()).toEqual([])
+  })
+
+  it('starts a conversation with the persona prompt, params and model', () => {
+    const conversations = useConversationsStore()
+    const modelsStore = useModelsStore()
+    modelsStore.setCurrentModel('llama-3')
+
+    const conversation = conversations.createConversation(undefined, reviewer)
+
+    expect(conversation.systemPrompt).toBe('Review the code for bugs.')
+    expect(conversation.params).toEqual({ temperature: 0.2 })
+    expect(conversation.personaId).toBe('reviewer')
+    expect(modelsStore.currentModel).toBe('qwen2.5-coder')
+  })
+
+  it('edits the system prompt of the active conversation only', () => {
+    const conversations = useConversationsStore()
+
+    const first = conversations.createConversation()
+    conversations.setSystemPrompt('  Answer in French.  ')
+    const second = conversations.createConversation()
+
+    expect(conversations.conversations.find((c) => c.id === first.id)?.systemPrompt).toBe(
+      'Answer in French.',
+    )
+    expect(second.systemPrompt).toBeUndefined()
+
+    conversations.switchConversation(first.id)
+    conversations.setSystemPrompt('')
+    expect(conversations.activeConversation?.systemPrompt).toBeUndefined()
+  })
+
+  it('round-trips personas through export and import', () => {
+    StatePersistence.savePersonas([reviewer])
+    const exported = StatePersistence.exportState()
+
+    localStorage.clear()
+    StatePersistence.importState(exported)
+
+    expect(StatePersistence.loadPersonas()).toEqual([reviewer])
+  })
+})
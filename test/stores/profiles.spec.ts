@@ -0,0 +1,126 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+import { setActivePinia, createPinia } from 'pinia'
+import { useProfilesStore } from '@/stores/profiles'
+import { useConversationsStore } from '@/stores/conversations'
+import { useModelsStore } from '@/stores/models'
+import { useChatStore } from '@/stores/chat'
+import { StatePersistence } from '@/utils/persistence'
+import type { ServerProfile } from '@/types/api'
+
+const laptop: ServerProfile = {
+  id: 'laptop',
+  name: 'Laptop',
+  provider: 'lmstudio',
+  baseUrl: 'http://127.0.0.1:1234/v1',
+  defaultModel: 'qwen2.5-7b-instruct',
+}
+
+const gpuBox: ServerProfile = {
+  id: 'gpu',
+  name: 'GPU box',
+  provider: 'ollama',
+  baseUrl: 'http://10.0.0.5:11434',
+  defaultModel: 'llama3.1:70b',
+  defaultParams: { temperature: 0.3 },
+}
+
+describe('Profiles Store', () => {
+  beforeEach(() => {
+    localStorage.clear()
+    setActivePinia(createPinia())
+  })
+
+  it('points the models store at the activated profile', () => {
+    const store = useProfilesStore()
+    const modelsStore = useModelsStore()
+    store.saveProfile(laptop)
+    store.saveProfile(gpuBox)
+
+    store.activateProfile('gpu')
+
+    expect(modelsStore.provider).toBe('ollama')
+    expect(modelsStore.lmStudioBaseUrl).toBe('http://10.0.0.5:11434')
+    expect(modelsStore.currentModel).toBe('llama3.1:70b')
+    expect(StatePersistence.loadActiveProfileId()).toBe('gpu')
+  })
+
+  it('layers the profile defaults under model presets and conversation params', () => {
+    const store = useProfilesStore()
+    const chatStore = useChatStore()
+    store.saveProfile(gpuBox)
+    store.activateProfile('gpu')
+
+    expect(chatStore.generationParams.temperature).toBe(0.3)
+
+    chatStore.setModelPreset('llama3.1:70b', { temperature: 0.9 })
+    expect(chatStore.generationParams.temperature).toBe(0.9)
+  })
+
+  it('remembers the profile per conversation and switches back to it', () => {
+    const store = useProfilesStore()
+    const conversationsStore = useConversationsStore()
+    const modelsStore = useModelsStore()
+    store.saveProfile(laptop)
+    store.saveProfile(gpuBox)
+    store.activateProfile('laptop')
+
+    const onLaptop = conversationsStore.createConversation('On the laptop')
+    const onGpu = conversationsStore.createConversation('On the GPU box')
+    conversationsStore.switchProfile('gpu')
+    expect(conversationsStore.activeConversation?.profileId).toBe('gpu')
+
+    conversationsStore.switchConversation(onLaptop.id)
+    expect(store.activeProfileId).toBe('laptop')
+    expect(modelsStore.lmStudioBaseUrl).toBe(laptop.baseUrl)
+
+    conversationsStore.switchConversation(onGpu.id)
+    expect(store.activeProfileId).toBe('gpu')
+  })
+
+  it('creates a profile for a server saved before profiles existed', () => {
+    StatePersistence.saveLMStudioBaseUrl('http://192.168.1.20:1234/v1')
+    const store = useProfilesStore()
+
+    store.loadProfilesFromStorage()
+
+    expect(store.profiles).toHaveLength(1)
+    expect(store.profiles[0]).toMatchObject({
+      name: 'LM Studio (192.168.1.20:1234)',
+      provider: 'lmstudio',
+      baseUrl: 'http://192.168.1.20:1234/v1',
+    })
+    expect(store.activeProfileId).toBe(store.profiles[0].id)
+  })
+
+  it('keeps API keys out of exported state', () => {
+    const store = useProfilesStore()
+    const modelsStore = useModelsStore()
+    store.saveProfile(gpuBox)
+    modelsStore.setServerCredentials(gpuBox.baseUrl, { apiKey: 'sk-secret' })
+
+    const exported = StatePersistence.exportState()
+
+    expect(JSON.parse(exported).serverProfiles).toHaveLength(1)
+    expect(exported).not.toContain('sk-secret')
+  })
+
+  it('fails over to another profile until that profile is deleted', () => {
+    const store = useProfilesStore()
+    const modelsStore = useModelsStore()
+    store.saveProfile({ ...laptop, fallbackProfileId: 'gpu', fallbackModel: ' llama3.1:8b ' })
+    store.saveProfile(gpuBox)
+    store.activateProfile('laptop')
+
+    expect(modelsStore.currentModel).toBe('qwen2.5-7b-instruct')
+    expect(store.failoverTarget).toEqual({
+      provider: 'ollama',
+      baseUrl: 'http://10.0.0.5:11434',
+      model: 'llama3.1:8b',
+    })
+
+    store.deleteProfile('gpu')
+
+    expect(store.getProfile('laptop')?.fallbackProfileId).toBeUndefined()
+    expect(store.failoverTarget).toBeUndefined()
+  })
+})
@@ -0,0 +1,49 @@
+import { describe, it, expect } from 'vitest'
+import { computeLeaderboard } from '@/utils/arena'
+import type { ArenaVote } from '@/types/chat'
+
+const vote = (models: string[], winner: string | null, minute: number): ArenaVote => ({
+  id: `vote-${minute}`,
+  models,
+  winner,
+  prompt: 'Hi',
+  timestamp: new Date(2024, 0, 1, 12, minute),
+})
+
+describe('computeLeaderboard', () => {
+  it('moves the winner up and the loser down by the same amount', () => {
+    const [first, second] = computeLeaderboard([vote(['llama', 'qwen'], 'qwen', 0)])
+
+    expect(first).toMatchObject({ model: 'qwen', rating: 1016, wins: 1, losses: 0, rounds: 1 })
+    expect(second).toMatchObject({ model: 'llama', rating: 984, wins: 0, losses: 1, rounds: 1 })
+  })
+
+  it('counts a tie for everyone without moving equal ratings', () => {
+    const board = computeLeaderboard([vote(['llama', 'qwen', 'phi'], null, 0)])
+
+    expect(board).toHaveLength(3)
+    board.forEach((entry) => expect(entry).toMatchObject({ rating: 1000, ties: 1, rounds: 1 }))
+  })
+
+  it('lets the winner of a multi-way round beat every other model', () => {
+    const board = computeLeaderboard([vote(['llama', 'qwen', 'phi', 'gemma'], 'phi', 0)])
+
+    expect(board[0]).toMatchObject({ model: 'phi', wins: 1 })
+    expect(board[0].rating).toBeGreaterThan(1040)
+    board.slice(1).forEach((entry) => {
+      expect(entry.losses).toBe(1)
+      expect(entry.rating).toBeLessThan(1000)
+    })
+  })
+
+  it('replays votes oldest first regardless of stored order', () => {
+    const votes = [vote(['llama', 'qwen'], 'llama', 5), vote(['llama', 'qwen'], 'qwen', 0)]
+
+    const board = computeLeaderboard(votes)
+    const reversed = computeLeaderboard([...votes].reverse())
+
+    expect(board).toEqual(reversed)
+    // The upset comes last, so llama gains more than it lost
+    expect(board[0].model).toBe('llama')
+  })
+})
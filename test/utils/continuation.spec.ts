@@ -0,0 +1,24 @@
+import { describe, it, expect } from 'vitest'
+import { continuationMessages } from '@/utils/continuation'
+import { CONTINUE_INSTRUCTION } from '@/constants'
+import type { ApiMessage } from '@/types/api'
+
+describe('continuationMessages', () => {
+  const history: ApiMessage[] = [{ role: 'user', content: 'Write a story' }]
+
+  it('ends with the partial reply as a prefill where the server continues it', () => {
+    expect(continuationMessages(history, 'Once upon', 'ollama')).toEqual([
+      ...history,
+      { role: 'assistant', content: 'Once upon' },
+    ])
+  })
+
+  it('asks the model to go on everywhere else', () => {
+    const messages = continuationMessages(history, 'Once upon', 'lmstudio')
+
+    expect(messages.slice(1)).toEqual([
+      { role: 'assistant', content: 'Once upon' },
+      { role: 'user', content: CONTINUE_INSTRUCTION },
+    ])
+  })
+})
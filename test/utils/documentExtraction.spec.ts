@@ -0,0 +1,241 @@
+import { describe, it, expect } from 'vitest'
+import {
+  documentKind,
+  extractDocument,
+  htmlToMarkdown,
+  joinSections,
+  notebookToMarkdown,
+  parseSectionSelection,
+} from '@/utils/documentExtraction'
+import { extractPdfPages } from '@/utils/pdf'
+
+const encoder = new TextEncoder()
+
+const deflate = async (text: string) =>
+  new Uint8Array(
+    await new Response(
+      new Response(encoder.encode(text)).body!.pipeThrough(new CompressionStream('deflate')),
+    ).arrayBuffer(),
+  )
+
+const toBinary = (bytes: Uint8Array) => String.fromCharCode(...bytes)
+
+// A PDF from "num -> body" objects. Offsets are left out, the reader doesn't need them.
+const buildPdf = (objects: string[]) =>
+  Uint8Array.from(
+    `%PDF-1.4\n${objects.map((body, index) => `${index + 1} 0 obj\n${body}\nendobj\n`).join('')}` +
+      'trailer\n<< /Root 1 0 R >>\n%%EOF',
+    (char) => char.charCodeAt(0),
+  )
+
+const stream = (data: string, extra = '') =>
+  `<< /Length ${data.length}${extra} >>\nstream\n${data}\nendstream`
+
+// A zip with stored entries
+function buildZip(files: Record<string, string>) {
+  const parts: Uint8Array[] = []
+  const central: Uint8Array[] = []
+  let offset = 0
+  for (const [path, content] of Object.entries(files)) {
+    const name = encoder.encode(path)
+    const data = encoder.encode(content)
+    const local = new DataView(new ArrayBuffer(30))
+    local.setUint32(0, 0x04034b50, true)
+    local.setUint32(18, data.length, true)
+    local.setUint32(22, data.length, true)
+    local.setUint16(26, name.length, true)
+    parts.push(new Uint8Array(local.buffer), name, data)
+
+    const header = new DataView(new ArrayBuffer(46))
+    header.setUint32(0, 0x02014b50, true)
+    header.setUint32(20, data.length, true)
+    header.setUint32(24, data.length, true)
+    header.setUint16(28, name.length, true)
+    header.setUint32(42, offset, true)
+    central.push(new Uint8Array(header.buffer), name)
+    offset += 30 + name.length + data.length
+  }
+  const end = new DataView(new ArrayBuffer(22))
+  end.setUint32(0, 0x06054b50, true)
+  end.setUint16(10, Object.keys(files).length, true)
+  end.setUint32(16, offset, true)
+
+  const all = [...parts, ...central, new Uint8Array(end.buffer)]
+  const zip = new Uint8Array(all.reduce((total, part) => total + part.length, 0))
+  all.reduce((position, part) => (zip.set(part, position), position + part.length), 0)
+  return zip
+}
+
+describe('PDF extraction', () => {
+  it('reads pages in order with inherited fonts, word gaps and line breaks', async () => {
+    const cmap = [
+      'begincmap',
+      '1 begincodespacerange <0000> <FFFF> endcodespacerange',
+      '1 beginbfchar <0003> <00E9> endbfchar',
+      '1 beginbfrange <0010> <0012> <0041> endbfrange',
+      'endcmap',
+    ].join('\n')
+    const compressed = toBinary(await deflate('BT /F2 10 Tf <001000110012> Tj T* <0003> Tj ET'))
+
+    const pdf = buildPdf([
+      '<< /Type /Catalog /Pages 2 0 R >>',
+      '<< /Type /Pages /Kids [3 0 R 5 0 R] /Count 2 /Resources << /Font << /F1 6 0 R >> >> >>',
+      '<< /Type /Page /Parent 2 0 R /Contents 4 0 R >>',
+      stream(
+        'BT /F1 12 Tf 72 712 Td (Hello \\(PDF\\)) Tj 0 -14 Td [(Wor) -20 (ld) -300 (again)] TJ ET',
+      ),
+      '<< /Type /Page /Parent 2 0 R /Contents 7 0 R /Resources << /Font << /F2 8 0 R >> >> >>',
+      '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica >>',
+      stream(compressed, ' /Filter /FlateDecode'),
+      '<< /Type /Font /Subtype /Type0 /ToUnicode 9 0 R >>',
+      stream(cmap),
+    ])
+
+    expect(await extractPdfPages(pdf)).toEqual(['Hello (PDF)\nWorld again', 'ABC\né'])
+  })
+
+  it('refuses encrypted and non-PDF files', async () => {
+    await expect(extractPdfPages(encoder.encode('hello'))).rejects.toThrow('Not a PDF')
+    await expect(
+      extractPdfPages(encoder.encode('%PDF-1.7\ntrailer << /Root 1 0 R /Encrypt 5 0 R >>')),
+    ).rejects.toThrow('Encrypted')
+  })
+
+  it('reports a PDF without any text', async () => {
+    const pdf = buildPdf([
+      '<< /Type /Catalog /Pages 2 0 R >>',
+      '<< /Type /Pages /Kids [3 0 R] /Count 1 >>',
+      '<< /Type /Page /Parent 2 0 R >>',
+    ])
+
+    await expect(extractDocument('scan.pdf', pdf)).rejects.toThrow('Scanned PDFs need OCR')
+  })
+})
+
+describe('Office documents', () => {
+  it('turns a Word document into markdown', async () => {
+    const docx = buildZip({
+      'word/document.xml': `<?xml version="1.0"?>
+        <w:document xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main">
+          <w:body>
+            <w:p><w:pPr><w:pStyle w:val="Heading2"/></w:pPr><w:r><w:t>Plan</w:t></w:r></w:p>
+            <w:p><w:r><w:t xml:space="preserve">First </w:t></w:r><w:r><w:t>step</w:t></w:r></w:p>
+            <w:p><w:pPr><w:numPr><w:numId w:val="1"/></w:numPr></w:pPr><w:r><w:t>Item</w:t></w:r></w:p>
+            <w:tbl>
+              <w:tr><w:tc><w:p><w:r><w:t>Key</w:t></w:r></w:p></w:tc><w:tc><w:p><w:r><w:t>Value</w:t></w:r></w:p></w:tc></w:tr>
+              <w:tr><w:tc><w:p><w:r><w:t>a</w:t></w:r></w:p></w:tc><w:tc><w:p><w:r><w:t>1</w:t></w:r></w:p></w:tc></w:tr>
+            </w:tbl>
+          </w:body>
+        </w:document>`,
+    })
+
+    const document = await extractDocument('plan.docx', docx)
+
+    expect(joinSections(document)).toBe(
+      '## Plan\n\nFirst step\n\n- Item\n\n| Key | Value |\n| --- | --- |\n| a | 1 |',
+    )
+  })
+
+  it('reads every sheet of a workbook as a table', async () => {
+    const ns = 'xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main"'
+    const rels =
+      'xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships"'
+    const xlsx = buildZip({
+      'xl/workbook.xml': `<workbook ${ns} ${rels}><sheets>
+        <sheet name="People" sheetId="1" r:id="rId1"/><sheet name="Empty" sheetId="2" r:id="rId2"/>
+      </sheets></workbook>`,
+      'xl/_rels/workbook.xml.rels': `<Relationships>
+        <Relationship Id="rId1" Target="worksheets/sheet1.xml"/>
+        <Relationship Id="rId2" Target="/xl/worksheets/sheet2.xml"/>
+      </Relationships>`,
+      'xl/sharedStrings.xml': `<sst ${ns}><si><t>name</t></si><si><t>age</t></si><si><r><t>A</t></r><r><t>da</t></r></si></sst>`,
+      'xl/worksheets/sheet1.xml': `<worksheet ${ns}><sheetData>
+        <row r="1"><c r="A1" t="s"><v>0</v></c><c r="C1" t="s"><v>1</v></c></row>
+        <row r="2"><c r="A2" t="s"><v>2</v></c><c r="C2"><v>36</v></c></row>
+      </sheetData></worksheet>`,
+      'xl/worksheets/sheet2.xml': `<worksheet ${ns}><sheetData/></worksheet>`,
+    })
+
+    const document = await extractDocument('people.xlsx', xlsx)
+
+    expect(document.sections.map((section) => section.title)).toEqual(['People', 'Empty'])
+    expect(document.sections[0].content).toContain('| name |  | age |\n| --- | --- | --- |\n| Ada |  | 36 |')
+    expect(joinSections(document, [0])).toMatch(/^## People\n\n1 rows × 3 columns/)
+  })
+})
+
+describe('HTML and notebooks', () => {
+  it('keeps the main content of a page as markdown', () => {
+    const html = `<html><head><title>Docs</title><style>p {}</style></head><body>
+      <nav><a href="/">Home</a></nav>
+      <main>
+        <h1>Install</h1>
+        <p>Run   the <strong>installer</strong>, see <a href="https://x.dev">the site</a>.</p>
+        <ul><li>One</li><li>Two<ul><li>Nested</li></ul></li></ul>
+        <pre><code class="language-bash">npm i
+  --save</code></pre>
+        <table><tr><th>Flag</th><th>Meaning</th></tr><tr><td>-g</td><td>global</td></tr></table>
+        <script>alert(1)</script>
+      </main>
+    </body></html>`
+
+    expect(htmlToMarkdown(html)).toBe(
+      [
+        '# Install',
+        'Run the **installer**, see [the site](https://x.dev).',
+        '- One\n- Two\n  - Nested',
+        '```bash\nnpm i\n  --save\n```',
+        '| Flag | Meaning |\n| --- | --- |\n| -g | global |',
+      ].join('\n\n'),
+    )
+  })
+
+  it('fences code cells with their output', () => {
+    const notebook = JSON.stringify({
+      metadata: { language_info: { name: 'python' } },
+      cells: [
+        { cell_type: 'markdown', source: ['# Title\n', 'Intro'] },
+        {
+          cell_type: 'code',
+          source: 'print(1 + 1)',
+          outputs: [{ output_type: 'stream', text: ['2\n'] }],
+        },
+        { cell_type: 'code', source: 'x', outputs: [{ output_type: 'error', ename: 'NameError', evalue: "'x'" }] },
+        { cell_type: 'code', source: '', outputs: [] },
+      ],
+    })
+
+    expect(notebookToMarkdown(notebook)).toBe(
+      "# Title\nIntro\n\n```python\nprint(1 + 1)\n```\n\n```text\n2\n```\n\n```python\nx\n```\n\n```text\nNameError: 'x'\n```",
+    )
+    expect(() => notebookToMarkdown('{')).toThrow('Not a valid notebook')
+  })
+})
+
+describe('sections', () => {
+  it('knows which files are documents', () => {
+    expect(documentKind('Report.PDF')).toBe('pdf')
+    expect(documentKind('data.tsv')).toBe('csv')
+    expect(documentKind('main.ts')).toBeUndefined()
+  })
+
+  it('parses page selections', () => {
+    expect(parseSectionSelection('', 3)).toEqual([0, 1, 2])
+    expect(parseSectionSelection('3, 1-2, 2, 9, x', 4)).toEqual([0, 1, 2])
+    expect(parseSectionSelection('2-10', 4)).toEqual([1, 2, 3])
+  })
+
+  it('joins the chosen sections under their titles, skipping empty ones', () => {
+    const document = {
+      kind: 'pdf' as const,
+      sections: [
+        { title: 'Page 1', content: 'One' },
+        { title: 'Page 2', content: '' },
+        { title: 'Page 3', content: 'Three' },
+      ],
+    }
+
+    expect(joinSections(document)).toBe('## Page 1\n\nOne\n\n## Page 3\n\nThree')
+    expect(joinSections(document, [2])).toBe('## Page 3\n\nThree')
+  })
+})
@@ -0,0 +1,118 @@
+import { describe, it, expect } from 'vitest'
+import {
+  exportConversations,
+  toFineTuningJsonl,
+  toHtml,
+  toJson,
+  toMarkdown,
+  type ConversationExport,
+} from '@/utils/exporters'
+import type { Message } from '@/types/chat'
+
+const message = (
+  id: number,
+  role: Message['role'],
+  content: string,
+  parentId: number | null,
+): Message => ({
+  id,
+  role,
+  content,
+  parentId,
+  timestamp: new Date('2025-03-10T12:00:00Z'),
+})
+
+// Welcome message, a question and two alternative answers, the second one is shown
+const item = (): ConversationExport => ({
+  conversation: {
+    id: 'c1',
+    title: 'Async <errors>',
+    model: 'qwen2.5-7b-instruct',
+    activeContextIds: [],
+    params: { temperature: 0.2 },
+    systemPrompt: 'Be brief.',
+    activeLeafId: 4,
+    createdAt: new Date('2025-03-10T11:00:00Z'),
+    updatedAt: new Date('2025-03-10T12:00:00Z'),
+    messageCount: 3,
+  },
+  messages: [
+    message(1, 'assistant', 'Hello! How can I help?', null),
+    message(2, 'user', 'How do I catch errors in async code?', 1),
+    message(3, 'assistant', 'First answer', 2),
+    message(4, 'assistant', 'Use **try/catch** around await.', 2),
+  ],
+})
+
+describe('exporters', () => {
+  it('writes the visible branch as a Markdown transcript', () => {
+    const markdown = toMarkdown([item()])
+
+    expect(markdown).toContain('# Async <errors>')
+    expect(markdown).toContain('- Parameters: temperature=0.2')
+    expect(markdown).toContain('Use **try/catch** around await.')
+    expect(markdown).not.toContain('First answer')
+  })
+
+  it('renders assistant markdown and escapes everything else in HTML', () => {
+    const html = toHtml([item()], (md) => `<p>${md.replace(/\*\*(.+?)\*\*/, '<strong>$1</strong>')}</p>`)
+
+    expect(html).toMatch(/^<!DOCTYPE html>/)
+    expect(html).toContain('<title>Async &lt;errors&gt;</title>')
+    expect(html).toContain('<strong>try/catch</strong>')
+    expect(html).toContain('Be brief.')
+  })
+
+  it('keeps every branch, timestamps and parameters in JSON', () => {
+    const parsed = JSON.parse(toJson([item()]))
+
+    expect(parsed.version).toBeDefined()
+    expect(parsed.conversations[0].params).toEqual({ temperature: 0.2 })
+    expect(parsed.conversations[0].messages).toHaveLength(4)
+    expect(parsed.conversations[0].messages[0].timestamp).toBe('2025-03-10T12:00:00.000Z')
+  })
+
+  it('writes one fine-tuning example per conversation starting at the first question', () => {
+    const withoutReply: ConversationExport = {
+      ...item(),
+      conversation: { ...item().conversation, id: 'c2', activeLeafId: 2 },
+    }
+    const lines = toFineTuningJsonl([item(), withoutReply]).split('\n')
+
+    expect(lines).toHaveLength(1)
+    expect(JSON.parse(lines[0])).toEqual({
+      messages: [
+        { role: 'system', content: 'Be brief.' },
+        { role: 'user', content: 'How do I catch errors in async code?' },
+        { role: 'assistant', content: 'Use **try/catch** around await.' },
+      ],
+    })
+  })
+
+  it('ends a fine-tuning example before a reply that failed or was cut off', () => {
+    const unfinished = (finishReason: string): ConversationExport => ({
+      conversation: { ...item().conversation, activeLeafId: 6 },
+      messages: [
+        ...item().messages,
+        message(5, 'user', 'And in a loop?', 4),
+        { ...message(6, 'assistant', 'You can wrap each', 5), generation: { finishReason } },
+      ],
+    })
+
+    for (const reason of ['error', 'abort', 'length']) {
+      expect(JSON.parse(toFineTuningJsonl([unfinished(reason)])).messages).toEqual([
+        { role: 'system', content: 'Be brief.' },
+        { role: 'user', content: 'How do I catch errors in async code?' },
+        { role: 'assistant', content: 'Use **try/catch** around await.' },
+      ])
+    }
+    expect(JSON.parse(toFineTuningJsonl([unfinished('stop')])).messages).toHaveLength(5)
+  })
+
+  it('names the file after a single conversation', () => {
+    const file = exportConversations([item()], 'jsonl', (md) => md)
+
+    expect(file.filename).toBe('Async__errors_.jsonl')
+    expect(file.mimeType).toBe('application/jsonl')
+  })
+})
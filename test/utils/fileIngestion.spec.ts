@@ -0,0 +1,278 @@
+import { describe, it, expect, vi } from 'vitest'
+import {
+  buildFileTree,
+  defaultIngestionOptions,
+  detectLanguage,
+  ingestFiles,
+  isIgnored,
+  parseIgnoreRules,
+  toBundledContext,
+  type SourceFile,
+} from '@/utils/fileIngestion'
+import { readZip } from '@/utils/zip'
+import { useFileUpload } from '@/composables/useFileUpload'
+
+const encoder = new TextEncoder()
+
+const textFile = (path: string, content = `// ${path}`): SourceFile => {
+  const bytes = encoder.encode(content)
+  return { path, size: bytes.length, read: async () => bytes }
+}
+
+const bytesFile = (path: string, bytes: Uint8Array): SourceFile => ({
+  path,
+  size: bytes.length,
+  read: async () => bytes,
+})
+
+// A zip with the given entries, deflated ones compressed by the platform
+async function buildZip(entries: Array<{ path: string; content: string; deflate?: boolean }>) {
+  const locals: Uint8Array[] = []
+  const centrals: Uint8Array[] = []
+  let offset = 0
+
+  for (const entry of entries) {
+    const name = encoder.encode(entry.path)
+    const raw = encoder.encode(entry.content)
+    const data = entry.deflate
+      ? new Uint8Array(
+          await new Response(
+            new Response(raw).body!.pipeThrough(new CompressionStream('deflate-raw')),
+          ).arrayBuffer(),
+        )
+      : raw
+    const method = entry.deflate ? 8 : 0
+
+    const local = new DataView(new ArrayBuffer(30))
+    local.setUint32(0, 0x04034b50, true)
+    local.setUint16(8, method, true)
+    local.setUint32(18, data.length, true)
+    local.setUint32(22, raw.length, true)
+    local.setUint16(26, name.length, true)
+    locals.push(new Uint8Array(local.buffer), name, data)
+
+    const central = new DataView(new ArrayBuffer(46))
+    central.setUint32(0, 0x02014b50, true)
+    central.setUint16(10, method, true)
+    central.setUint32(20, data.length, true)
+    central.setUint32(24, raw.length, true)
+    central.setUint16(28, name.length, true)
+    central.setUint32(42, offset, true)
+    centrals.push(new Uint8Array(central.buffer), name)
+
+    offset += 30 + name.length + data.length
+  }
+
+  const centralSize = centrals.reduce((total, part) => total + part.length, 0)
+  const end = new DataView(new ArrayBuffer(22))
+  end.setUint32(0, 0x06054b50, true)
+  end.setUint16(8, entries.length, true)
+  end.setUint16(10, entries.length, true)
+  end.setUint32(12, centralSize, true)
+  end.setUint32(16, offset, true)
+
+  const parts = [...locals, ...centrals, new Uint8Array(end.buffer)]
+  const zip = new Uint8Array(parts.reduce((total, part) => total + part.length, 0))
+  let position = 0
+  parts.forEach((part) => {
+    zip.set(part, position)
+    position += part.length
+  })
+  return zip
+}
+
+describe('ignore rules', () => {
+  const ignored = (rules: string, path: string) => isIgnored(path, parseIgnoreRules(rules))
+
+  it('matches names at any depth unless the pattern has a slash', () => {
+    expect(ignored('*.log', 'debug.log')).toBe(true)
+    expect(ignored('*.log', 'logs/deep/debug.log')).toBe(true)
+    expect(ignored('/build', 'build/out.js')).toBe(true)
+    expect(ignored('/build', 'src/build/out.js')).toBe(false)
+    expect(ignored('docs/*.md', 'docs/a.md')).toBe(true)
+    expect(ignored('docs/*.md', 'docs/sub/a.md')).toBe(false)
+    expect(ignored('docs/**/*.md', 'docs/sub/a.md')).toBe(true)
+  })
+
+  it('limits trailing-slash patterns to directories', () => {
+    expect(ignored('node_modules/', 'web/node_modules/vue/index.js')).toBe(true)
+    expect(ignored('node_modules/', 'node_modules')).toBe(false)
+  })
+
+  it('lets a later negation win and skips comments', () => {
+    const rules = '# logs\n*.log\n!keep.log'
+    expect(ignored(rules, 'a.log')).toBe(true)
+    expect(ignored(rules, 'keep.log')).toBe(false)
+  })
+})
+
+describe('ingestFiles', () => {
+  it('applies exclude, include and .gitignore rules', async () => {
+    const { files, skipped } = await ingestFiles(
+      [
+        textFile('repo/src/main.ts'),
+        textFile('repo/src/generated/api.ts'),
+        textFile('repo/README.md'),
+        textFile('repo/node_modules/vue/index.js'),
+        textFile('repo/.gitignore', 'generated/\n'),
+      ],
+      { ...defaultIngestionOptions(), include: 'src/\n*.md' },
+    )
+
+    expect(files.map((file) => file.path)).toEqual(['repo/README.md', 'repo/src/main.ts'])
+    expect(files[1].language).toBe('typescript')
+    expect(skipped).toEqual([
+      { path: 'repo/.gitignore', reason: 'not included' },
+      { path: 'repo/node_modules/vue/index.js', reason: 'excluded' },
+      { path: 'repo/src/generated/api.ts', reason: 'excluded' },
+    ])
+  })
+
+  it('skips binaries, large files and whatever goes past the limits', async () => {
+    const { files, skipped } = await ingestFiles(
+      [
+        bytesFile('logo.png', new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0, 0, 0])),
+        bytesFile('latin1.txt', new Uint8Array([0x63, 0x61, 0x66, 0xe9])),
+        textFile('big.txt', 'x'.repeat(2000)),
+        textFile('a.txt'),
+        textFile('b.txt'),
+        textFile('c.txt'),
+      ],
+      { ...defaultIngestionOptions(), maxFileBytes: 1000, maxFiles: 2 },
+    )
+
+    expect(files.map((file) => file.path)).toEqual(['a.txt', 'b.txt'])
+    expect(skipped).toEqual([
+      { path: 'big.txt', reason: 'too large' },
+      { path: 'c.txt', reason: 'limit reached' },
+      { path: 'latin1.txt', reason: 'limit reached' },
+      { path: 'logo.png', reason: 'limit reached' },
+    ])
+
+    const rest = await ingestFiles(
+      [bytesFile('logo.png', new Uint8Array([0x89, 0x50, 0, 0])), textFile('a.txt')],
+      defaultIngestionOptions(),
+    )
+    expect(rest.skipped).toEqual([{ path: 'logo.png', reason: 'binary' }])
+  })
+
+  it('skips a file that fails to read and goes on with the others', async () => {
+    const broken: SourceFile = {
+      path: 'repo/broken.ts',
+      size: 10,
+      read: async () => {
+        throw new Error('Unsupported compression method 9')
+      },
+    }
+
+    const { files, skipped } = await ingestFiles(
+      [broken, { ...broken, path: 'repo/.gitignore' }, textFile('repo/main.ts')],
+      defaultIngestionOptions(),
+    )
+
+    expect(files.map((file) => file.path)).toEqual(['repo/main.ts'])
+    expect(skipped).toEqual([
+      { path: 'repo/.gitignore', reason: 'unreadable' },
+      { path: 'repo/broken.ts', reason: 'unreadable' },
+    ])
+  })
+})
+
+describe('bundling', () => {
+  it('draws the file tree with folders first', () => {
+    expect(buildFileTree(['README.md', 'src/b.ts', 'src/a/x.ts'])).toBe(
+      ['├── src/', '│   ├── a/', '│   │   └── x.ts', '│   └── b.ts', '└── README.md'].join('\n'),
+    )
+  })
+
+  it('treats path segments named like object properties as plain names', () => {
+    const tree = buildFileTree(['__proto__/x', 'constructor/y', 'toString'])
+
+    expect(tree).toBe(
+      ['├── __proto__/', '│   └── x', '├── constructor/', '│   └── y', '└── toString'].join('\n'),
+    )
+    expect('x' in {}).toBe(false)
+    expect(detectLanguage('a.constructor')).toBeUndefined()
+  })
+
+  it('puts every file into one context after the tree', () => {
+    const context = toBundledContext(
+      [{ path: 'src/a.ts', content: 'export {}', size: 9, language: 'typescript' }],
+      'repo',
+    )
+
+    expect(context.title).toBe('repo (1 files)')
+    expect(context.group).toBe('repo')
+    expect(context.content).toBe(
+      '```\n└── src/\n    └── a.ts\n```\n\n### src/a.ts\n```typescript\nexport {}\n```',
+    )
+  })
+})
+
+describe('dropping files on the upload zone', () => {
+  // jsdom's File has no arrayBuffer()
+  const file = (name: string, text: string) =>
+    Object.assign(new File([text], name), { arrayBuffer: async () => encoder.encode(text).buffer })
+
+  const drop = (files: File[]) =>
+    ({ preventDefault: () => {}, dataTransfer: { files, items: [] } }) as unknown as DragEvent
+
+  it('bundles every dropped file into one upload', async () => {
+    const onSuccess = vi.fn()
+
+    await useFileUpload().handleDrop(
+      drop([file('a.ts', 'export {}'), file('notes.md', '# Notes')]),
+      onSuccess,
+    )
+
+    expect(onSuccess).toHaveBeenCalledTimes(1)
+    const [content, language, title] = onSuccess.mock.calls[0]
+    expect(language).toBe('markdown')
+    expect(title).toBe('Dropped files (2 files)')
+    expect(content).toContain('### a.ts\n```typescript\nexport {}\n```')
+    expect(content).toContain('### notes.md\n```markdown\n# Notes\n```')
+  })
+
+  it('uploads a single dropped file as it is', async () => {
+    const onSuccess = vi.fn()
+
+    await useFileUpload().handleDrop(drop([file('run.py', 'print(1)')]), onSuccess)
+
+    expect(onSuccess).toHaveBeenCalledWith('print(1)', 'python', 'run.py')
+  })
+
+  it('keeps the files of each zip in a folder named after it', async () => {
+    const zipFile = async (name: string) => {
+      const bytes = await buildZip([{ path: 'README.md', content: `# ${name}` }])
+      return Object.assign(new File([bytes], name), { arrayBuffer: async () => bytes.buffer })
+    }
+
+    const sources = await useFileUpload().collectFiles([
+      await zipFile('first.zip'),
+      await zipFile('second.ZIP'),
+    ])
+
+    expect(sources.map((source) => source.path)).toEqual(['first/README.md', 'second/README.md'])
+  })
+})
+
+describe('readZip', () => {
+  it('lists files and reads stored and deflated entries', async () => {
+    const zip = await buildZip([
+      { path: 'repo/', content: '' },
+      { path: 'repo/README.md', content: '# Hello' },
+      { path: 'repo/src/main.ts', content: 'console.log("hi")\n'.repeat(20), deflate: true },
+    ])
+
+    const entries = readZip(zip)
+
+    expect(entries.map((entry) => entry.path)).toEqual(['repo/README.md', 'repo/src/main.ts'])
+    const decoder = new TextDecoder()
+    expect(decoder.decode(await entries[0].read())).toBe('# Hello')
+    expect(decoder.decode(await entries[1].read())).toBe('console.log("hi")\n'.repeat(20))
+  })
+
+  it('rejects data that is not a zip', () => {
+    expect(() => readZip(encoder.encode('definitely not a zip file at all'))).toThrow('Not a zip')
+  })
+})
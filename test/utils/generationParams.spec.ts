@@ -0,0 +1,35 @@
+import { describe, it, expect } from 'vitest'
+import { resolveGenerationParams, sanitizeGenerationParams } from '@/utils/generationParams'
+
+describe('generation params', () => {
+  it('drops unset and invalid values', () => {
+    expect(
+      sanitizeGenerationParams({
+        temperature: 0.4,
+        top_p: undefined,
+        top_k: Number.NaN,
+        max_tokens: '512',
+        stop: ['###', '', 3],
+      }),
+    ).toEqual({ temperature: 0.4, stop: ['###'] })
+  })
+
+  it('clamps to the allowed range and rounds integer params', () => {
+    expect(sanitizeGenerationParams({ temperature: 5, top_k: 39.6, seed: -3 })).toEqual({
+      temperature: 2,
+      top_k: 40,
+      seed: 0,
+    })
+  })
+
+  it('lets later layers override earlier ones', () => {
+    const resolved = resolveGenerationParams(
+      { temperature: 0.7, max_tokens: 2048 },
+      { temperature: 0.2, top_p: 0.9 },
+      undefined,
+      { max_tokens: 256 },
+    )
+
+    expect(resolved).toEqual({ temperature: 0.2, top_p: 0.9, max_tokens: 256 })
+  })
+})
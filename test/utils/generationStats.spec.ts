@@ -0,0 +1,83 @@
+import { describe, it, expect } from 'vitest'
+import {
+  buildGenerationInfo,
+  describeGeneration,
+  generationDetails,
+} from '@/utils/generationStats'
+import type { Message } from '@/types/chat'
+
+describe('generationStats', () => {
+  const endpoint = 'http://127.0.0.1:1234/v1'
+
+  it('measures time to first token and speed from the reported usage', () => {
+    const info = buildGenerationInfo(
+      endpoint,
+      { temperature: 0.7 },
+      'Hello there',
+      { startedAt: 1000, firstTokenAt: 1400, finishedAt: 3400 },
+      { finishReason: 'stop', usage: { promptTokens: 30, completionTokens: 100 } },
+    )
+
+    expect(info).toEqual({
+      endpoint,
+      params: { temperature: 0.7 },
+      finishReason: 'stop',
+      promptTokens: 30,
+      completionTokens: 100,
+      timeToFirstTokenMs: 400,
+      tokensPerSecond: 50,
+    })
+  })
+
+  it('estimates the speed when the server sends no usage', () => {
+    const content = 'word '.repeat(200)
+    const info = buildGenerationInfo(endpoint, {}, content, {
+      startedAt: 0,
+      firstTokenAt: 100,
+      finishedAt: 2100,
+    })
+
+    expect(info.completionTokens).toBeUndefined()
+    expect(info.tokensPerSecond).toBeGreaterThan(0)
+  })
+
+  it('leaves timing out when nothing was streamed', () => {
+    const info = buildGenerationInfo(endpoint, {}, '', { startedAt: 0, finishedAt: 500 })
+
+    expect(info.timeToFirstTokenMs).toBeUndefined()
+    expect(info.tokensPerSecond).toBeUndefined()
+  })
+
+  it('summarizes a reply and only mentions unusual finish reasons', () => {
+    const message: Message = {
+      id: 2,
+      role: 'assistant',
+      content: '…',
+      model: 'qwen2.5-7b',
+      generation: {
+        endpoint,
+        params: { temperature: 0.2, stop: ['###'] },
+        finishReason: 'length',
+        promptTokens: 30,
+        completionTokens: 512,
+        timeToFirstTokenMs: 350,
+        tokensPerSecond: 42.1,
+      },
+    }
+
+    expect(describeGeneration(message)).toEqual([
+      'qwen2.5-7b',
+      '30 → 512 tokens',
+      '0.3s to first token',
+      '42.1 tok/s',
+      'cut off at the token limit',
+    ])
+    expect(describeGeneration({ ...message, generation: { endpoint, params: {} } })).toEqual([
+      'qwen2.5-7b',
+    ])
+    expect(generationDetails(message)).toContainEqual([
+      'Parameters',
+      'temperature=0.2, stop=["###"]',
+    ])
+  })
+})
@@ -0,0 +1,31 @@
+import { describe, it, expect } from 'vitest'
+import { dataUrlToBase64, fitWithin, isImageFile } from '@/utils/images'
+import { estimateMessageTokens, MESSAGE_TOKEN_OVERHEAD } from '@/utils/tokenBudget'
+import { IMAGE_CONFIG } from '@/constants'
+
+describe('images', () => {
+  it('scales the longer side down to the limit and keeps the aspect ratio', () => {
+    expect(fitWithin(4000, 3000, 1024)).toEqual({ width: 1024, height: 768 })
+    expect(fitWithin(1000, 5000, 1024)).toEqual({ width: 205, height: 1024 })
+    expect(fitWithin(640, 480, 1024)).toEqual({ width: 640, height: 480 })
+    expect(fitWithin(10000, 1, 1024)).toEqual({ width: 1024, height: 1 })
+  })
+
+  it('takes the base64 data out of a data URI', () => {
+    expect(dataUrlToBase64('data:image/png;base64,iVBORw0K')).toBe('iVBORw0K')
+  })
+
+  it('recognizes image files by type', () => {
+    expect(isImageFile(new File([''], 'cat.png', { type: 'image/png' }))).toBe(true)
+    expect(isImageFile(new File([''], 'notes.txt', { type: 'text/plain' }))).toBe(false)
+  })
+
+  it('counts attached images towards the context budget', () => {
+    const text = { role: 'user' as const, content: 'Hi' }
+
+    expect(estimateMessageTokens({ ...text, images: ['a', 'b'] })).toBe(
+      estimateMessageTokens(text) + 2 * IMAGE_CONFIG.TOKEN_ESTIMATE,
+    )
+    expect(estimateMessageTokens(text)).toBeGreaterThan(MESSAGE_TOKEN_OVERHEAD)
+  })
+})
@@ -0,0 +1,150 @@
+import { describe, it, expect } from 'vitest'
+import { previewImport } from '@/utils/importers'
+import { pathTo } from '@/utils/messageTree'
+import type { ImportedConversation } from '@/utils/importers'
+
+const visibleContents = (conversation: ImportedConversation) =>
+  pathTo(conversation.messages, conversation.activeLeafId ?? null).map((m) => m.content)
+
+describe('importers', () => {
+  it('reads ChatGPT conversations.json with branches and a system prompt', () => {
+    const chatGpt = [
+      {
+        id: 'conv-1',
+        title: 'Regex help',
+        create_time: 1710000000.5,
+        update_time: 1710000100,
+        current_node: 'a2',
+        mapping: {
+          root: { id: 'root', message: null, parent: null, children: ['sys'] },
+          sys: {
+            id: 'sys',
+            parent: 'root',
+            message: {
+              author: { role: 'system' },
+              content: { content_type: 'text', parts: ['Answer tersely.'] },
+            },
+          },
+          u1: {
+            id: 'u1',
+            parent: 'sys',
+            message: {
+              author: { role: 'user' },
+              content: { content_type: 'text', parts: ['Match digits?'] },
+              create_time: 1710000001,
+            },
+          },
+          a1: {
+            id: 'a1',
+            parent: 'u1',
+            message: {
+              author: { role: 'assistant' },
+              content: { content_type: 'text', parts: ['Use [0-9]'] },
+              metadata: { model_slug: 'gpt-4o' },
+            },
+          },
+          a2: {
+            id: 'a2',
+            parent: 'u1',
+            message: {
+              author: { role: 'assistant' },
+              content: { content_type: 'text', parts: ['Use \\d+'] },
+              metadata: { model_slug: 'gpt-4o' },
+            },
+          },
+        },
+      },
+    ]
+
+    const preview = previewImport(JSON.stringify(chatGpt))
+    const [conversation] = preview.conversations
+
+    expect(preview.source).toBe('chatgpt')
+    expect(conversation.sourceId).toBe('chatgpt:conv-1')
+    expect(conversation.model).toBe('gpt-4o')
+    expect(conversation.systemPrompt).toBe('Answer tersely.')
+    expect(conversation.messages).toHaveLength(3)
+    expect(conversation.messages[0].parentId).toBeNull()
+    expect(visibleContents(conversation)).toEqual(['Match digits?', 'Use \\d+'])
+    expect(conversation.createdAt.getTime()).toBe(1710000000500)
+  })
+
+  it('reads Open WebUI exports from the history tree', () => {
+    const openWebUi = [
+      {
+        id: 'chat-9',
+        title: 'Shell question',
+        created_at: 1710000000,
+        chat: {
+          models: ['llama3.1:8b'],
+          system: 'You are a shell expert.',
+          history: {
+            currentId: 'm2',
+            messages: {
+              m1: { id: 'm1', parentId: null, role: 'user', content: 'List files', timestamp: 1710000001 },
+              m2: { id: 'm2', parentId: 'm1', role: 'assistant', content: 'ls -la', model: 'llama3.1:8b' },
+            },
+          },
+        },
+      },
+    ]
+
+    const preview = previewImport(JSON.stringify(openWebUi))
+    const [conversation] = preview.conversations
+
+    expect(preview.source).toBe('open-webui')
+    expect(conversation.title).toBe('Shell question')
+    expect(conversation.model).toBe('llama3.1:8b')
+    expect(conversation.systemPrompt).toBe('You are a shell expert.')
+    expect(visibleContents(conversation)).toEqual(['List files', 'ls -la'])
+  })
+
+  it('reads SillyTavern JSONL and turns swipes into branches', () => {
+    const lines = [
+      { user_name: 'You', character_name: 'Seraphina', create_date: '2024-03-10 @14h 32m 17s 123ms' },
+      { name: 'You', is_user: true, mes: 'Hello there', send_date: '2024-03-10 @14h 33m 00s' },
+      {
+        name: 'Seraphina',
+        is_user: false,
+        mes: 'Second greeting',
+        swipes: ['First greeting', 'Second greeting'],
+        swipe_id: 1,
+        extra: { model: 'mistral-nemo' },
+      },
+      { name: 'System', is_system: true, mes: 'hidden note' },
+    ]
+    const raw = lines.map((line) => JSON.stringify(line)).join('\n')
+
+    const preview = previewImport(raw)
+    const [conversation] = preview.conversations
+
+    expect(preview.source).toBe('sillytavern')
+    expect(conversation.title).toBe('Chat with Seraphina')
+    expect(conversation.model).toBe('mistral-nemo')
+    expect(conversation.messages.map((m) => m.content)).toEqual([
+      'Hello there',
+      'First greeting',
+      'Second greeting',
+    ])
+    expect(visibleContents(conversation)).toEqual(['Hello there', 'Second greeting'])
+  })
+
+  it('reports entries it cannot read and rejects unknown files', () => {
+    const chatGpt = [
+      { id: 'empty', title: 'Nothing', mapping: {} },
+      {
+        id: 'ok',
+        mapping: {
+          u: { id: 'u', parent: null, message: { author: { role: 'user' }, content: { parts: ['Hi'] } } },
+        },
+      },
+    ]
+
+    const preview = previewImport(JSON.stringify(chatGpt))
+    expect(preview.conversations).toHaveLength(1)
+    expect(preview.skipped).toEqual(['Entry 1: no messages'])
+
+    expect(() => previewImport('{"hello": "world"}')).toThrow(/Unrecognized export format/)
+    expect(() => previewImport('not json at all')).toThrow(/neither JSON nor JSON Lines/)
+  })
+})
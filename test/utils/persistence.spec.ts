@@ -0,0 +1,202 @@
+import 'fake-indexeddb/auto'
+import { IDBFactory } from 'fake-indexeddb'
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import {
+  StatePersistence,
+  STORAGE_KEYS,
+  EXPORT_VERSION,
+  conversationMessagesKey,
+  migrateExportedState,
+} from '@/utils/persistence'
+import { DB_NAME, DB_STORES, DB_VERSION, openDatabase, requestToPromise } from '@/utils/database'
+import type { Message } from '@/types/chat'
+
+const message = (id: number, content: string): Message => ({
+  id,
+  role: 'user',
+  content,
+  timestamp: new Date('2025-01-01T00:00:00Z'),
+})
+
+const readMessageRecords = async () => {
+  const db = await openDatabase()
+  const records = await requestToPromise(
+    db.transaction(DB_STORES.MESSAGES).objectStore(DB_STORES.MESSAGES).getAll(),
+  )
+  db.close()
+  return records
+}
+
+describe('StatePersistence with IndexedDB', () => {
+  beforeEach(() => {
+    globalThis.indexedDB = new IDBFactory()
+    localStorage.clear()
+  })
+
+  afterEach(async () => {
+    await StatePersistence.disconnect()
+  })
+
+  it('migrates existing localStorage keys once and removes them', async () => {
+    localStorage.setItem(STORAGE_KEYS.CURRENT_MODEL, 'qwen3-8b')
+    localStorage.setItem(
+      conversationMessagesKey('abc'),
+      JSON.stringify([message(1, 'first'), message(2, 'second')]),
+    )
+
+    await StatePersistence.initialize()
+
+    expect(StatePersistence.usesIndexedDb).toBe(true)
+    expect(StatePersistence.loadCurrentModel()).toBe('qwen3-8b')
+    expect(StatePersistence.loadConversationMessages('abc').map((m) => m.content)).toEqual([
+      'first',
+      'second',
+    ])
+    expect(localStorage.getItem(STORAGE_KEYS.CURRENT_MODEL)).toBeNull()
+    expect(localStorage.getItem(conversationMessagesKey('abc'))).toBeNull()
+
+    // A second start must not pick up keys written by an old tab
+    await StatePersistence.disconnect()
+    localStorage.setItem(STORAGE_KEYS.CURRENT_MODEL, 'stale')
+    await StatePersistence.initialize()
+    expect(StatePersistence.loadCurrentModel()).toBe('qwen3-8b')
+  })
+
+  it('writes messages incrementally and coalesces streamed updates', async () => {
+    await StatePersistence.initialize()
+
+    StatePersistence.saveMessage('abc', message(1, 'hello'))
+    StatePersistence.saveMessage('abc', { ...message(2, ''), role: 'assistant' })
+    StatePersistence.saveMessage('abc', { ...message(2, 'Hi'), role: 'assistant' })
+    StatePersistence.saveMessage('abc', { ...message(2, 'Hi there'), role: 'assistant' })
+    await StatePersistence.flush()
+
+    const records = await readMessageRecords()
+    expect(records).toHaveLength(2)
+    expect(records.find((r) => r.id === 2)?.message.content).toBe('Hi there')
+    expect(records.find((r) => r.id === 1)?.message.timestamp).toBeInstanceOf(Date)
+  })
+
+  it('keeps queued writes when a flush throws and writes them on the next one', async () => {
+    await StatePersistence.initialize()
+    const transaction = vi.spyOn(IDBDatabase.prototype, 'transaction')
+    transaction.mockImplementationOnce(() => {
+      throw new DOMException('The database connection is closing.', 'InvalidStateError')
+    })
+
+    StatePersistence.saveMessage('abc', message(1, 'hello'))
+    await expect(StatePersistence.flush()).resolves.toBeUndefined()
+    transaction.mockRestore()
+
+    await StatePersistence.flush()
+    expect((await readMessageRecords()).map((r) => r.message.content)).toEqual(['hello'])
+  })
+
+  it('reloads messages in their original order after a restart', async () => {
+    await StatePersistence.initialize()
+
+    StatePersistence.saveMessage('abc', message(30, 'third id, first message'))
+    StatePersistence.saveMessage('abc', message(10, 'first id, second message'))
+    StatePersistence.deleteMessage('abc', 30)
+    StatePersistence.saveMessage('abc', message(20, 'last message'))
+    await StatePersistence.disconnect()
+
+    await StatePersistence.initialize()
+    expect(StatePersistence.loadConversationMessages('abc').map((m) => m.id)).toEqual([10, 20])
+  })
+
+  it('replaces and deletes whole conversations', async () => {
+    await StatePersistence.initialize()
+
+    StatePersistence.saveMessage('abc', message(1, 'old'))
+    StatePersistence.saveConversationMessages('abc', [message(2, 'new')])
+    StatePersistence.saveMessage('xyz', message(3, 'other'))
+    await StatePersistence.flush()
+    expect((await readMessageRecords()).map((r) => r.id).sort()).toEqual([2, 3])
+
+    StatePersistence.deleteConversationMessages('abc')
+    await StatePersistence.flush()
+    expect((await readMessageRecords()).map((r) => r.id)).toEqual([3])
+    expect(StatePersistence.loadConversationMessages('abc')).toEqual([])
+  })
+
+  it('stores embeddings per context and model and deletes them with the context', async () => {
+    await StatePersistence.initialize()
+    const embeddings = (contextId: string, model: string) => ({
+      contextId,
+      model,
+      hash: 'h1',
+      chunks: [{ text: 'passage', start: 0, vector: Float32Array.from([0.5, 0.25]) }],
+    })
+
+    await StatePersistence.saveEmbeddings(embeddings('abc', 'small'))
+    await StatePersistence.saveEmbeddings(embeddings('abc', 'large'))
+    await StatePersistence.saveEmbeddings(embeddings('xyz', 'small'))
+
+    const loaded = await StatePersistence.loadEmbeddings('abc', 'small')
+    expect(Array.from(loaded?.chunks[0].vector ?? [])).toEqual([0.5, 0.25])
+
+    await StatePersistence.deleteEmbeddings('abc')
+    expect(await StatePersistence.loadEmbeddings('abc', 'small')).toBeNull()
+    expect(await StatePersistence.loadEmbeddings('abc', 'large')).toBeNull()
+    expect(await StatePersistence.loadEmbeddings('xyz', 'small')).not.toBeNull()
+  })
+
+  it('loads message embeddings per model and deletes them with the conversation', async () => {
+    await StatePersistence.initialize()
+    const embedding = (conversationId: string, messageId: number, model: string) => ({
+      conversationId,
+      messageId,
+      model,
+      hash: 'h1',
+      vector: Float32Array.from([1, 0]),
+    })
+
+    await StatePersistence.saveMessageEmbeddings([
+      embedding('abc', 1, 'small'),
+      embedding('abc', 2, 'small'),
+      embedding('abc', 1, 'large'),
+      embedding('xyz', 3, 'small'),
+    ])
+    expect((await StatePersistence.loadMessageEmbeddings('small')).map((r) => r.messageId)).toEqual(
+      [1, 2, 3],
+    )
+
+    await StatePersistence.deleteConversationEmbeddings('abc')
+    expect((await StatePersistence.loadMessageEmbeddings('small')).map((r) => r.messageId)).toEqual(
+      [3],
+    )
+    expect(await StatePersistence.loadMessageEmbeddings('large')).toEqual([])
+  })
+
+  it('opens at the latest schema version', async () => {
+    await StatePersistence.initialize()
+    await StatePersistence.disconnect()
+
+    const databases = await indexedDB.databases()
+    expect(databases).toContainEqual({ name: DB_NAME, version: DB_VERSION })
+  })
+})
+
+describe('exported state migrations', () => {
+  it('moves a 1.0.0 global message list into a conversation', () => {
+    const migrated = migrateExportedState({
+      version: '1.0.0',
+      timestamp: '2025-01-01T00:00:00.000Z',
+      messages: [message(1, 'legacy')],
+      currentModel: 'llama',
+    })
+
+    expect(migrated.version).toBe(EXPORT_VERSION)
+    expect(migrated.messages).toBeUndefined()
+    expect(migrated.conversations).toEqual([
+      expect.objectContaining({ title: 'Imported conversation', model: 'llama', messageCount: 1 }),
+    ])
+  })
+
+  it('rejects unknown versions', () => {
+    expect(() =>
+      migrateExportedState({ version: '9.9.9', timestamp: '2025-01-01T00:00:00.000Z' }),
+    ).toThrow('Unsupported state version 9.9.9')
+  })
+})
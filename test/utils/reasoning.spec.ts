@@ -0,0 +1,45 @@
+import { describe, it, expect } from 'vitest'
+import { ThinkTagSplitter, stripReasoning } from '@/utils/reasoning'
+
+// Feeds the chunks one by one and joins what came out
+const split = (...chunks: string[]) => {
+  const splitter = new ThinkTagSplitter()
+  const parts = [...chunks.map((chunk) => splitter.push(chunk)), splitter.flush()]
+  return {
+    content: parts.map((part) => part.content).join(''),
+    reasoning: parts.map((part) => part.reasoning).join(''),
+  }
+}
+
+describe('reasoning', () => {
+  it('separates a think block from the answer', () => {
+    expect(split('<think>Add them up.</think>\n\nThe sum is 4.')).toEqual({
+      content: 'The sum is 4.',
+      reasoning: 'Add them up.',
+    })
+  })
+
+  it('finds tags split across chunks at every position', () => {
+    const text = '<think>Hmm</think>Answer'
+
+    for (let at = 0; at <= text.length; at++) {
+      expect(split(text.slice(0, at), text.slice(at))).toEqual({
+        content: 'Answer',
+        reasoning: 'Hmm',
+      })
+    }
+  })
+
+  it('passes text that only looks like the start of a tag through', () => {
+    expect(split('a <thi', 'ng> b <')).toEqual({ content: 'a <thing> b <', reasoning: '' })
+  })
+
+  it('keeps reasoning that never got a closing tag', () => {
+    expect(split('<think>Still going')).toEqual({ content: '', reasoning: 'Still going' })
+  })
+
+  it('strips inline thinking from a stored reply', () => {
+    expect(stripReasoning('<think>plan</think>\nDone')).toBe('Done')
+    expect(stripReasoning('No thinking here')).toBe('No thinking here')
+  })
+})
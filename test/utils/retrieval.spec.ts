@@ -0,0 +1,94 @@
+import { describe, it, expect } from 'vitest'
+import {
+  chunkText,
+  contextHash,
+  cosineSimilarity,
+  formatRetrievedContext,
+  rankChunks,
+} from '@/utils/retrieval'
+import type { EmbeddingRecord } from '@/utils/database'
+import type { ContextItem } from '@/types/chat'
+
+const record = (contextId: string, vectors: number[][]): EmbeddingRecord => ({
+  contextId,
+  model: 'embed',
+  hash: 'h',
+  chunks: vectors.map((vector, index) => ({
+    text: `${contextId} chunk ${index}`,
+    start: index * 10,
+    vector: Float32Array.from(vector),
+  })),
+})
+
+describe('retrieval', () => {
+  it('keeps short text in one chunk', () => {
+    expect(chunkText('  A short note.\n', 100, 20)).toEqual([{ text: 'A short note.', start: 2 }])
+  })
+
+  it('cuts long text at paragraph breaks and overlaps the chunks', () => {
+    const paragraphs = Array.from({ length: 6 }, (_, index) => `Paragraph ${index} ${'word '.repeat(8)}`)
+    const text = paragraphs.join('\n\n')
+
+    const chunks = chunkText(text, 120, 30)
+
+    expect(chunks.length).toBeGreaterThan(1)
+    chunks.forEach((chunk) => {
+      expect(chunk.text.length).toBeLessThanOrEqual(120)
+      expect(text.slice(chunk.start, chunk.start + chunk.text.length)).toBe(chunk.text)
+    })
+    // Every chunk but the last ends at a paragraph
+    chunks.slice(0, -1).forEach((chunk) => {
+      expect(text.slice(chunk.start + chunk.text.length)).toMatch(/^\s*\n\n/)
+    })
+    // The next chunk starts inside the previous one
+    expect(chunks[1].start).toBeLessThan(chunks[0].start + chunks[0].text.length)
+    expect(chunks[chunks.length - 1].text).toContain('Paragraph 5')
+  })
+
+  it('still makes progress through text without any break', () => {
+    const chunks = chunkText('x'.repeat(250), 100, 20)
+
+    expect(chunks.map((chunk) => chunk.start)).toEqual([0, 80, 160])
+  })
+
+  it('changes the hash only when the title or content change', () => {
+    const context: ContextItem = { id: '1', type: 'text', title: 'Notes', content: 'alpha' }
+
+    expect(contextHash({ ...context, id: '2' })).toBe(contextHash(context))
+    expect(contextHash({ ...context, content: 'beta' })).not.toBe(contextHash(context))
+    expect(contextHash({ ...context, title: 'Other' })).not.toBe(contextHash(context))
+  })
+
+  it('measures cosine similarity and treats zero vectors as unrelated', () => {
+    expect(cosineSimilarity([1, 0], [2, 0])).toBeCloseTo(1)
+    expect(cosineSimilarity([1, 0], [0, 3])).toBeCloseTo(0)
+    expect(cosineSimilarity([1, 1], [-1, -1])).toBeCloseTo(-1)
+    expect(cosineSimilarity([0, 0], [1, 0])).toBe(0)
+  })
+
+  it('ranks chunks across contexts and drops weak matches', () => {
+    const records = [record('a', [[1, 0], [0.6, 0.8]]), record('b', [[0.8, 0.6], [0, 1]])]
+
+    const citations = rankChunks([1, 0], records, { a: 'Alpha', b: 'Beta' }, 3, 0.5)
+
+    expect(citations.map((citation) => citation.text)).toEqual([
+      'a chunk 0',
+      'b chunk 0',
+      'a chunk 1',
+    ])
+    expect(citations[1]).toMatchObject({ contextId: 'b', title: 'Beta' })
+    expect(citations[0].score).toBeCloseTo(1)
+    expect(rankChunks([1, 0], records, {}, 1, 0.5)).toHaveLength(1)
+  })
+
+  it('numbers the passages the way replies cite them', () => {
+    const content = formatRetrievedContext([
+      { contextId: 'a', title: 'Alpha', text: 'First passage', score: 0.9 },
+      { contextId: 'b', title: 'Beta', text: 'Second passage', score: 0.8 },
+    ])
+
+    expect(content).toContain('[1] Alpha\nFirst passage')
+    expect(content).toContain('[2] Beta\nSecond passage')
+    expect(content).toContain('like [1]')
+  })
+})
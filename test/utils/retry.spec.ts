@@ -0,0 +1,38 @@
+import { describe, it, expect } from 'vitest'
+import { backoffDelay, isRetryableError, parseRetryAfter, retryDelay } from '@/utils/retry'
+import { ConnectionError, ErrorFactory } from '@/errors/ApiError'
+
+describe('retry', () => {
+  it('retries connection errors, rate limits and server errors only', () => {
+    expect(isRetryableError(new ConnectionError('lmstudio'))).toBe(true)
+    expect(isRetryableError(ErrorFactory.fromHttpResponse(429, '', 'lmstudio'))).toBe(true)
+    expect(isRetryableError(ErrorFactory.fromHttpResponse(503, '', 'lmstudio'))).toBe(true)
+    expect(isRetryableError(ErrorFactory.fromHttpResponse(520, '', 'lmstudio'))).toBe(true)
+    expect(isRetryableError(ErrorFactory.fromHttpResponse(401, '', 'lmstudio'))).toBe(false)
+    expect(isRetryableError(ErrorFactory.fromHttpResponse(404, '', 'lmstudio'))).toBe(false)
+    expect(isRetryableError(new Error('boom'))).toBe(false)
+  })
+
+  it('parses Retry-After as seconds or a date', () => {
+    const now = Date.parse('2024-01-01T12:00:00Z')
+
+    expect(parseRetryAfter('5', now)).toBe(5000)
+    expect(parseRetryAfter('Mon, 01 Jan 2024 12:00:10 GMT', now)).toBe(10000)
+    expect(parseRetryAfter('Mon, 01 Jan 2024 11:00:00 GMT', now)).toBe(0)
+    expect(parseRetryAfter('soon', now)).toBeUndefined()
+    expect(parseRetryAfter(null, now)).toBeUndefined()
+  })
+
+  it('doubles the backoff with jitter up to a ceiling', () => {
+    expect(backoffDelay(0, () => 0)).toBe(250)
+    expect(backoffDelay(0, () => 1)).toBe(500)
+    expect(backoffDelay(2, () => 1)).toBe(2000)
+    expect(backoffDelay(10, () => 1)).toBe(8000)
+  })
+
+  it('gives up when the server asks for too long a wait', () => {
+    expect(retryDelay(ErrorFactory.fromHttpResponse(429, '', 'lmstudio', 3000), 0)).toBe(3000)
+    expect(retryDelay(ErrorFactory.fromHttpResponse(429, '', 'lmstudio', 120000), 0)).toBeNull()
+    expect(retryDelay(ErrorFactory.fromHttpResponse(400, '', 'lmstudio'), 0)).toBeNull()
+  })
+})
@@ -0,0 +1,107 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+import {
+  SearchIndex,
+  buildSnippet,
+  parseSearchQuery,
+  splitSnippet,
+  type SearchDocument,
+} from '@/utils/searchIndex'
+
+const message = (
+  id: number,
+  text: string,
+  overrides: Partial<SearchDocument> = {},
+): SearchDocument => ({
+  id: `message:c1:${id}`,
+  kind: 'message',
+  text,
+  role: 'user',
+  model: 'qwen2.5-7b-instruct',
+  timestamp: new Date('2025-03-10T12:00:00Z'),
+  conversationId: 'c1',
+  messageId: id,
+  ...overrides,
+})
+
+describe('searchIndex', () => {
+  let index: SearchIndex
+
+  beforeEach(() => {
+    index = new SearchIndex()
+    index.add(message(1, 'How do I handle errors in async functions?'))
+    index.add(
+      message(2, 'Wrap the await in try/catch for error handling in async code.', {
+        role: 'assistant',
+      }),
+    )
+    index.add(
+      message(3, 'Handling of errors differs in Rust.', {
+        conversationId: 'c2',
+        model: 'llama-3.1-8b',
+        timestamp: new Date('2024-11-02T08:00:00Z'),
+      }),
+    )
+    index.add({
+      id: 'context:notes',
+      kind: 'context',
+      title: 'Error handling notes',
+      text: 'Prefer Result types over exceptions.',
+      contextId: 'notes',
+    })
+  })
+
+  it('parses phrases and filters out of the query string', () => {
+    const query = parseSearchQuery('"error handling" async role:ai model:Qwen after:2025-01-01')
+
+    expect(query.phrases).toEqual([['error', 'handling']])
+    expect(query.terms).toEqual(['async'])
+    expect(query.role).toBe('assistant')
+    expect(query.model).toBe('qwen')
+    expect(query.after?.toISOString()).toBe('2025-01-01T00:00:00.000Z')
+    expect(parseSearchQuery('before:2025-01-31').before?.toISOString()).toBe(
+      '2025-01-31T23:59:59.999Z',
+    )
+    expect(parseSearchQuery('in:contexts').kind).toBe('context')
+  })
+
+  it('requires every term and matches phrases by position', () => {
+    const ids = (input: string) =>
+      index.search(parseSearchQuery(input)).map((result) => result.document.id)
+
+    expect(ids('async errors')).toEqual(['message:c1:1'])
+    expect(ids('"error handling"').sort()).toEqual(['context:notes', 'message:c1:2'])
+    expect(ids('"handling error"')).toEqual([])
+  })
+
+  it('applies role, model, date and kind filters', () => {
+    const ids = (input: string) =>
+      index
+        .search(parseSearchQuery(input))
+        .map((result) => result.document.id)
+        .sort()
+
+    expect(ids('handling role:assistant')).toEqual(['message:c1:2'])
+    expect(ids('errors model:llama')).toEqual(['message:c1:3'])
+    expect(ids('errors before:2024-12-31')).toEqual(['message:c1:3'])
+    expect(ids('handling in:contexts')).toEqual(['context:notes'])
+    expect(ids('in:contexts')).toEqual(['context:notes'])
+  })
+
+  it('forgets removed documents', () => {
+    index.removeWhere((document) => document.conversationId === 'c1')
+
+    expect(index.size).toBe(2)
+    expect(index.search(parseSearchQuery('async'))).toEqual([])
+  })
+
+  it('builds snippets with highlights on the matched words', () => {
+    const text = `${'lorem '.repeat(30)}the Error\nhandling part`
+    const snippet = buildSnippet(text, parseSearchQuery('"error handling"'), 20)
+    const matches = splitSnippet(snippet)
+      .filter((part) => part.match)
+      .map((part) => part.text)
+
+    expect(snippet.text.startsWith('…')).toBe(true)
+    expect(matches).toEqual(['Error', 'handling'])
+  })
+})
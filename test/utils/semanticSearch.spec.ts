@@ -0,0 +1,71 @@
+import { describe, it, expect } from 'vitest'
+import {
+  meanVector,
+  messageEmbeddingInput,
+  rankMessages,
+  similarConversations,
+} from '@/utils/semanticSearch'
+import type { MessageEmbeddingRecord } from '@/utils/database'
+import type { Message } from '@/types/chat'
+
+const message = (role: Message['role'], content: string): Message => ({
+  id: 1,
+  role,
+  content,
+  timestamp: new Date('2025-01-01T00:00:00Z'),
+})
+
+const record = (
+  conversationId: string,
+  messageId: number,
+  vector: number[],
+): MessageEmbeddingRecord => ({
+  conversationId,
+  messageId,
+  model: 'embed',
+  hash: 'h',
+  vector: Float32Array.from(vector),
+})
+
+describe('semantic search', () => {
+  it('embeds the visible text of user and assistant messages only', () => {
+    expect(messageEmbeddingInput(message('user', '  Why does the socket drop?  '))).toBe(
+      'Why does the socket drop?',
+    )
+    expect(
+      messageEmbeddingInput(message('assistant', '<think>Hmm</think>It reconnects too early.')),
+    ).toBe('It reconnects too early.')
+    expect(messageEmbeddingInput(message('developer', 'File: notes.md'))).toBe('')
+    expect(messageEmbeddingInput(message('user', 'x'.repeat(5000)))).toHaveLength(2000)
+  })
+
+  it('ranks messages by similarity to the query', () => {
+    const records = [record('a', 1, [0, 1]), record('a', 2, [1, 0]), record('b', 3, [1, 1])]
+
+    const matches = rankMessages([1, 0], records, 10, 0.5)
+
+    expect(matches.map((match) => match.record.messageId)).toEqual([2, 3])
+    expect(matches[0].score).toBeCloseTo(1)
+  })
+
+  it('averages vectors at unit length', () => {
+    expect(Array.from(meanVector([[2, 0], [0, 10]]))).toEqual([1, 1])
+    expect(meanVector([])).toHaveLength(0)
+  })
+
+  it('finds the conversations closest to the active one', () => {
+    const records = [
+      record('active', 1, [1, 0]),
+      record('active', 2, [0.9, 0.1]),
+      record('close', 3, [1, 0.2]),
+      record('far', 4, [0, 1]),
+      record('mixed', 5, [1, 0]),
+      record('mixed', 6, [0, 1]),
+    ]
+
+    const similar = similarConversations('active', records, 5, 0.5)
+
+    expect(similar.map((match) => match.conversationId)).toEqual(['close', 'mixed'])
+    expect(similarConversations('unknown', records)).toEqual([])
+  })
+})
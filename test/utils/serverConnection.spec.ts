@@ -0,0 +1,35 @@
+import { describe, it, expect } from 'vitest'
+import {
+  buildBaseUrl,
+  formatAddress,
+  formatHeaderLines,
+  parseHeaderLines,
+} from '@/utils/serverConnection'
+
+describe('serverConnection', () => {
+  it('adds a scheme and the provider path to a bare host:port', () => {
+    expect(buildBaseUrl('127.0.0.1:1234', '/v1')).toBe('http://127.0.0.1:1234/v1')
+    expect(buildBaseUrl('127.0.0.1:11434/v1', '')).toBe('http://127.0.0.1:11434')
+  })
+
+  it('keeps https and a custom base path', () => {
+    expect(buildBaseUrl('https://llm.example.com/api/v1/', '/v1')).toBe(
+      'https://llm.example.com/api/v1',
+    )
+    expect(buildBaseUrl('HTTPS://llm.example.com', '/v1')).toBe('HTTPS://llm.example.com/v1')
+  })
+
+  it('shows a saved URL the way it was typed', () => {
+    expect(formatAddress('http://127.0.0.1:1234/v1', '/v1')).toBe('127.0.0.1:1234')
+    expect(formatAddress('https://llm.example.com/api/v1', '/v1')).toBe(
+      'https://llm.example.com/api/v1',
+    )
+  })
+
+  it('round-trips header lines', () => {
+    const headers = parseHeaderLines('X-Api-Version: 2\nnot a header\n  CF-Access-Client-Id : abc:def ')
+
+    expect(headers).toEqual({ 'X-Api-Version': '2', 'CF-Access-Client-Id': 'abc:def' })
+    expect(formatHeaderLines(headers)).toBe('X-Api-Version: 2\nCF-Access-Client-Id: abc:def')
+  })
+})
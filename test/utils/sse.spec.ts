@@ -0,0 +1,255 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { LineSplitter, SseParser, readLines, readSseEvents, type SseEvent } from '@/utils/sse'
+import { createLMStudioService } from '@/services/lmstudio'
+
+const streamOf = (chunks: Uint8Array[]) =>
+  new ReadableStream<Uint8Array>({
+    start(controller) {
+      chunks.forEach((chunk) => controller.enqueue(chunk))
+      controller.close()
+    },
+  })
+
+// The same bytes cut into two reads at every possible position
+const everySplit = (text: string) => {
+  const bytes = new TextEncoder().encode(text)
+  return Array.from({ length: bytes.length + 1 }, (_, at) => [
+    bytes.slice(0, at),
+    bytes.slice(at),
+  ])
+}
+
+const collect = async <T>(items: AsyncGenerator<T>) => {
+  const result: T[] = []
+  for await (const item of items) result.push(item)
+  return result
+}
+
+const parseAll = (...chunks: string[]) => {
+  const parser = new SseParser()
+  return [...chunks.flatMap((chunk) => parser.push(chunk)), ...parser.flush()]
+}
+
+describe('LineSplitter', () => {
+  it('handles \\n, \\r\\n and \\r line endings, even split between reads', () => {
+    const splitter = new LineSplitter()
+
+    expect(splitter.push('one\r')).toEqual(['one'])
+    expect(splitter.push('\ntwo\rthree\n')).toEqual(['two', 'three'])
+    expect(splitter.push('\npartial')).toEqual([''])
+    expect(splitter.push(' line')).toEqual([])
+    expect(splitter.flush()).toEqual(['partial line'])
+  })
+})
+
+describe('SseParser', () => {
+  it('joins multi-line data fields with a newline', () => {
+    expect(parseAll('data: first\ndata: second\n\n')).toEqual([
+      { event: 'message', data: 'first\nsecond', id: '' },
+    ])
+  })
+
+  it('reads event types, ids and retry hints', () => {
+    const events = parseAll('event: error\nid: 7\nretry: 3000\ndata: {}\n\ndata: next\n\n')
+
+    expect(events).toEqual([
+      { event: 'error', data: '{}', id: '7', retry: 3000 },
+      { event: 'message', data: 'next', id: '7', retry: 3000 },
+    ])
+  })
+
+  it('skips comments, keepalives and events without data', () => {
+    expect(parseAll(': keepalive\n\n:\n\nevent: ping\n\nid: 1\n\n')).toEqual([])
+  })
+
+  it('strips only one space after the colon and accepts fields without a value', () => {
+    expect(parseAll('data:  indented\ndata\ndata:tight\n\n')).toEqual([
+      { event: 'message', data: ' indented\n\ntight', id: '' },
+    ])
+  })
+
+  it('dispatches an event the stream ended without a blank line after', () => {
+    expect(parseAll('data: [DONE]')).toEqual([{ event: 'message', data: '[DONE]', id: '' }])
+  })
+})
+
+describe('stream readers', () => {
+  it('reads the same SSE events wherever the bytes are split', async () => {
+    const text =
+      ': hello\r\n\r\nevent: delta\r\ndata: {"text":"héllo 👋"}\r\n\r\ndata: a\r\ndata: b\r\n\r\n'
+    const expected: SseEvent[] = [
+      { event: 'delta', data: '{"text":"héllo 👋"}', id: '' },
+      { event: 'message', data: 'a\nb', id: '' },
+    ]
+
+    for (const chunks of everySplit(text)) {
+      expect(await collect(readSseEvents(streamOf(chunks)))).toEqual(expected)
+    }
+  })
+
+  it('reads the same NDJSON lines wherever the bytes are split', async () => {
+    const text = '{"content":"日本"}\n{"content":"語"}\n{"done":true}'
+
+    for (const chunks of everySplit(text)) {
+      expect(await collect(readLines(streamOf(chunks)))).toEqual([
+        '{"content":"日本"}',
+        '{"content":"語"}',
+        '{"done":true}',
+      ])
+    }
+  })
+
+  it('reads one byte at a time', async () => {
+    const bytes = new TextEncoder().encode('data: ü\n\ndata: ✓\n\n')
+    const chunks = Array.from(bytes, (byte) => new Uint8Array([byte]))
+
+    const events = await collect(readSseEvents(streamOf(chunks)))
+
+    expect(events.map((event) => event.data)).toEqual(['ü', '✓'])
+  })
+})
+
+describe('chat completion streaming', () => {
+  beforeEach(() => {
+    vi.resetAllMocks()
+  })
+
+  it('keeps a JSON event that arrives across two network reads', async () => {
+    const body = 'data: {"choices":[{"delta":{"content":"Hello"}}]}\n\ndata: [DONE]\n\n'
+    const encoded = new TextEncoder().encode(body)
+    vi.spyOn(global, 'fetch').mockResolvedValue({
+      ok: true,
+      status: 200,
+      body: streamOf([encoded.slice(0, 20), encoded.slice(20)]),
+    } as Response)
+    const onChunk = vi.fn()
+
+    await createLMStudioService('http://127.0.0.1:1234/v1').sendMessageStream(
+      'Hi',
+      'qwen',
+      onChunk,
+    )
+
+    expect(onChunk).toHaveBeenCalledWith('Hello')
+  })
+
+  it('returns the finish reason and the usage chunk sent after it', async () => {
+    const body = [
+      '{"choices":[{"delta":{"content":"Hi"},"finish_reason":null}]}',
+      '{"choices":[{"delta":{},"finish_reason":"length"}]}',
+      '{"choices":[],"usage":{"prompt_tokens":12,"completion_tokens":2,"total_tokens":14}}',
+      '[DONE]',
+    ]
+      .map((data) => `data: ${data}\n\n`)
+      .join('')
+    const fetchSpy = vi.spyOn(global, 'fetch').mockResolvedValue({
+      ok: true,
+      status: 200,
+      body: streamOf([new TextEncoder().encode(body)]),
+    } as Response)
+
+    const result = await createLMStudioService('http://127.0.0.1:1234/v1').sendMessageStream(
+      'Hi',
+      'qwen',
+      () => {},
+    )
+
+    const [, init] = fetchSpy.mock.calls[0] as [string, RequestInit]
+    expect(JSON.parse(init.body as string).stream_options).toEqual({ include_usage: true })
+    expect(result).toEqual({
+      finishReason: 'length',
+      usage: { promptTokens: 12, completionTokens: 2 },
+    })
+  })
+
+  it('sends reasoning to onReasoning, from its own field or inline think tags', async () => {
+    const body = [
+      '{"choices":[{"delta":{"reasoning_content":"Two plus "}}]}',
+      '{"choices":[{"delta":{"reasoning_content":"two."}}]}',
+      '{"choices":[{"delta":{"content":"<thi"}}]}',
+      '{"choices":[{"delta":{"content":"nk>Sure.</think>\\n4"}}]}',
+      '[DONE]',
+    ]
+      .map((data) => `data: ${data}\n\n`)
+      .join('')
+    vi.spyOn(global, 'fetch').mockResolvedValue({
+      ok: true,
+      status: 200,
+      body: streamOf([new TextEncoder().encode(body)]),
+    } as Response)
+    let content = ''
+    let reasoning = ''
+
+    await createLMStudioService('http://127.0.0.1:1234/v1').sendMessageStream(
+      '2+2?',
+      'qwen',
+      (chunk) => (content += chunk),
+      undefined,
+      undefined,
+      undefined,
+      undefined,
+      (chunk) => (reasoning += chunk),
+    )
+
+    expect(reasoning).toBe('Two plus two.Sure.')
+    expect(content).toBe('4')
+  })
+
+  it('offers the tools and returns the tool calls streamed in pieces', async () => {
+    const body = [
+      '{"choices":[{"delta":{"tool_calls":[{"index":0,"id":"call_x","type":"function","function":{"name":"calculator","arguments":""}}]}}]}',
+      '{"choices":[{"delta":{"tool_calls":[{"index":0,"function":{"arguments":"{\\"expression\\":"}}]}}]}',
+      '{"choices":[{"delta":{"tool_calls":[{"index":0,"function":{"arguments":"\\"2*21\\"}"}}]}}]}',
+      '{"choices":[{"delta":{},"finish_reason":"tool_calls"}]}',
+      '[DONE]',
+    ]
+      .map((data) => `data: ${data}\n\n`)
+      .join('')
+    const fetchSpy = vi.spyOn(global, 'fetch').mockResolvedValue({
+      ok: true,
+      status: 200,
+      body: streamOf([new TextEncoder().encode(body)]),
+    } as Response)
+    const service = createLMStudioService('http://127.0.0.1:1234/v1')
+    const tools = [
+      {
+        type: 'function' as const,
+        function: { name: 'calculator', description: 'Math', parameters: { type: 'object' } },
+      },
+    ]
+    service.tools = tools
+
+    const result = await service.sendMessageStream('What is 2*21?', 'qwen', () => {})
+
+    const [, init] = fetchSpy.mock.calls[0] as [string, RequestInit]
+    expect(JSON.parse(init.body as string).tools).toEqual(tools)
+    expect(result.finishReason).toBe('tool_calls')
+    expect(result.toolCalls).toEqual([
+      {
+        id: 'call_x',
+        type: 'function',
+        function: { name: 'calculator', arguments: '{"expression":"2*21"}' },
+      },
+    ])
+  })
+
+  it('reports an error event from the server', async () => {
+    const body = 'event: error\ndata: {"error":{"message":"Model unloaded"}}\n\n'
+    vi.spyOn(global, 'fetch').mockResolvedValue({
+      ok: true,
+      status: 200,
+      body: streamOf([new TextEncoder().encode(body)]),
+    } as Response)
+    const onError = vi.fn()
+
+    await expect(
+      createLMStudioService('http://127.0.0.1:1234/v1').sendMessageStream(
+        'Hi',
+        'qwen',
+        () => {},
+        onError,
+      ),
+    ).rejects.toThrow()
+    expect(onError).toHaveBeenCalledWith('Model unloaded')
+  })
+})
@@ -0,0 +1,50 @@
+import { describe, it, expect, vi } from 'vitest'
+import { buildSummaryRequest, summarizeInChunks, summaryToMessage } from '@/utils/summary'
+import type { ApiMessage } from '@/types/api'
+
+const perChar = (text: string) => text.length
+
+const turns: ApiMessage[] = [
+  { role: 'user', content: 'a'.repeat(40) },
+  { role: 'assistant', content: 'b'.repeat(40) },
+  { role: 'user', content: 'c'.repeat(40) },
+]
+
+describe('summary', () => {
+  it('labels speakers and carries the previous summary', () => {
+    const [, request] = buildSummaryRequest('They met.', turns.slice(0, 2))
+
+    expect(request.content).toContain('Summary so far:\nThey met.')
+    expect(request.content).toContain(`User: ${'a'.repeat(40)}`)
+    expect(request.content).toContain(`Assistant: ${'b'.repeat(40)}`)
+  })
+
+  it('pins the summary as a system message', () => {
+    expect(summaryToMessage({ content: 'Short recap', throughId: 3 })).toEqual({
+      role: 'system',
+      content: 'Summary of the earlier conversation:\nShort recap',
+    })
+  })
+
+  it('folds messages into the summary one chunk at a time', async () => {
+    const complete = vi
+      .fn<(request: ApiMessage[]) => Promise<string>>()
+      .mockResolvedValueOnce('first')
+      .mockResolvedValueOnce('second')
+
+    const overhead = buildSummaryRequest('', []).reduce((total, m) => total + m.content.length + 4, 0)
+    const summary = await summarizeInChunks(turns, '', complete, overhead + 100, perChar)
+
+    expect(summary).toBe('second')
+    expect(complete).toHaveBeenCalledTimes(2)
+    expect(complete.mock.calls[0][0][1].content).not.toContain('c'.repeat(40))
+    expect(complete.mock.calls[1][0][1].content).toContain('Summary so far:\nfirst')
+    expect(complete.mock.calls[1][0][1].content).toContain('c'.repeat(40))
+  })
+
+  it('keeps the previous summary when the model returns nothing', async () => {
+    const complete = vi.fn().mockResolvedValue('')
+
+    expect(await summarizeInChunks(turns, 'kept', complete, 100000)).toBe('kept')
+  })
+})
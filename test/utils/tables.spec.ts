@@ -0,0 +1,51 @@
+import { describe, it, expect } from 'vitest'
+import {
+  describeTable,
+  detectDelimiter,
+  inferColumnType,
+  markdownTable,
+  parseDelimited,
+} from '@/utils/tables'
+
+describe('tables', () => {
+  it('parses quoted fields with delimiters, quotes and line breaks', () => {
+    const csv = 'name,note\r\n"Smith, Ada","said ""hi""\nthen left"\n\nBob,\n'
+
+    expect(parseDelimited(csv, ',')).toEqual([
+      ['name', 'note'],
+      ['Smith, Ada', 'said "hi"\nthen left'],
+      ['Bob', ''],
+    ])
+  })
+
+  it('detects the delimiter from the header line', () => {
+    expect(detectDelimiter('a;b;c\n1;2;3')).toBe(';')
+    expect(detectDelimiter('a,b\n1,2', 'data.tsv')).toBe('\t')
+    expect(detectDelimiter('single column')).toBe(',')
+  })
+
+  it('infers the narrowest column type', () => {
+    expect(inferColumnType(['1', '-2', ''])).toBe('integer')
+    expect(inferColumnType(['1', '2.5', '1e3'])).toBe('number')
+    expect(inferColumnType(['yes', 'No'])).toBe('boolean')
+    expect(inferColumnType(['2024-01-31', '2024-02-01T10:00'])).toBe('date')
+    expect(inferColumnType(['1', 'two'])).toBe('text')
+    expect(inferColumnType(['', ' '])).toBe('empty')
+  })
+
+  it('escapes pipes and pads short rows', () => {
+    expect(markdownTable([['a', 'b'], ['x|y']])).toBe('| a | b |\n| --- | --- |\n| x\\|y |  |')
+  })
+
+  it('describes the size and schema before a preview of the first rows', () => {
+    const rows = [['id', 'city'], ...Array.from({ length: 60 }, (_, i) => [`${i}`, `City ${i}`])]
+
+    const description = describeTable(rows)
+
+    expect(description).toContain('60 rows × 2 columns')
+    expect(description).toContain('| id | integer | 0, 1, 2 |')
+    expect(description).toContain('| 49 | City 49 |')
+    expect(description).not.toContain('| 50 | City 50 |')
+    expect(description.endsWith('…and 10 more rows')).toBe(true)
+  })
+})
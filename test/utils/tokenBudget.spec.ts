@@ -0,0 +1,77 @@
+import { describe, it, expect } from 'vitest'
+import {
+  estimateTokens,
+  fitToContextWindow,
+  replyReserve,
+  resolveContextWindow,
+  MESSAGE_TOKEN_OVERHEAD,
+} from '@/utils/tokenBudget'
+import { DEFAULT_CONTEXT_WINDOW } from '@/constants'
+import type { ApiMessage } from '@/types/api'
+
+// One token per character keeps the arithmetic in these tests readable
+const perChar = (text: string) => text.length
+
+const turn = (content: string, role: ApiMessage['role'] = 'user'): ApiMessage => ({
+  role,
+  content,
+})
+
+describe('tokenBudget', () => {
+  it('estimates roughly four characters per token', () => {
+    expect(estimateTokens('')).toBe(0)
+    expect(estimateTokens('abcdefgh')).toBe(2)
+    expect(estimateTokens('a b c d')).toBe(4)
+  })
+
+  it('resolves context windows from overrides, the model table, then the default', () => {
+    expect(resolveContextWindow('qwen2.5-7b-instruct')).toBe(32768)
+    expect(resolveContextWindow('meta-llama-3.1-8b-instruct')).toBe(131072)
+    expect(resolveContextWindow('meta-llama-3-8b-instruct')).toBe(8192)
+    expect(resolveContextWindow('some-unknown-model')).toBe(DEFAULT_CONTEXT_WINDOW)
+    expect(resolveContextWindow('qwen2.5-7b-instruct', { 'qwen2.5-7b-instruct': 4096 })).toBe(4096)
+  })
+
+  it('never reserves more than half the window for the reply', () => {
+    expect(replyReserve(4096, 2048)).toBe(2048)
+    expect(replyReserve(4096, 8000)).toBe(2048)
+    expect(replyReserve(8192)).toBe(2048)
+  })
+
+  it('fills history newest-first and always keeps pinned messages', () => {
+    const pinned = [turn('system prompt', 'system'), turn('context', 'developer')]
+    const history = [turn('old'.repeat(10)), turn('middle'), turn('newest')]
+    const overhead = MESSAGE_TOKEN_OVERHEAD
+
+    const pinnedCost = 13 + overhead + 7 + overhead
+    const promptCost = 6 + overhead
+    const contextWindow = 2 * (pinnedCost + promptCost + 6 + overhead + 6 + overhead)
+
+    const { messages, budget } = fitToContextWindow({
+      pinned,
+      history,
+      prompt: 'prompt',
+      contextWindow,
+      maxTokens: contextWindow,
+      estimate: perChar,
+    })
+
+    expect(messages.map((m) => m.content)).toEqual(['system prompt', 'context', 'middle', 'newest'])
+    expect(budget.droppedCount).toBe(1)
+    expect(budget.usedTokens).toBe(contextWindow / 2)
+  })
+
+  it('keeps pinned messages even when they alone exceed the budget', () => {
+    const { messages, budget } = fitToContextWindow({
+      pinned: [turn('x'.repeat(100), 'system')],
+      history: [turn('hi')],
+      prompt: 'hello',
+      contextWindow: 64,
+      estimate: perChar,
+    })
+
+    expect(messages).toHaveLength(1)
+    expect(budget.droppedCount).toBe(1)
+    expect(budget.usedTokens).toBeGreaterThan(budget.availableTokens)
+  })
+})
@@ -0,0 +1,139 @@
+import { describe, it, expect } from 'vitest'
+import {
+  ToolRegistry,
+  calculatorTool,
+  createContextSearchTool,
+  createCurrentTimeTool,
+  evaluateExpression,
+} from '@/utils/tools'
+import { ToolCallAccumulator } from '@/utils/toolCalls'
+import { TOOL_CONFIG } from '@/constants'
+import type { ToolCall } from '@/types/api'
+import type { ContextItem } from '@/types/chat'
+
+const callOf = (name: string, args: string): ToolCall => ({
+  id: 'call_1',
+  type: 'function',
+  function: { name, arguments: args },
+})
+
+describe('evaluateExpression', () => {
+  it('follows operator precedence, powers and functions', () => {
+    expect(evaluateExpression('2 + 3 * 4')).toBe(14)
+    expect(evaluateExpression('(2 + 3) * 4')).toBe(20)
+    expect(evaluateExpression('-2^2')).toBe(-4)
+    expect(evaluateExpression('2^3^2')).toBe(512)
+    expect(evaluateExpression('sqrt(16) + max(1, 7, 3) % 4')).toBe(7)
+    expect(evaluateExpression('1.5e3 / 3')).toBe(500)
+    expect(evaluateExpression('round(pi * 100)')).toBe(314)
+  })
+
+  it('rejects anything that is not arithmetic', () => {
+    expect(() => evaluateExpression('alert(1)')).toThrow()
+    expect(() => evaluateExpression('2 +')).toThrow()
+    expect(() => evaluateExpression('(1 + 2')).toThrow()
+    expect(() => evaluateExpression('1 2')).toThrow()
+    expect(() => evaluateExpression('constructor(1)')).toThrow('Unexpected "constructor"')
+    expect(() => evaluateExpression('toString(1)')).toThrow('Unexpected "toString"')
+    expect(() => evaluateExpression('__proto__ + 1')).toThrow()
+  })
+})
+
+describe('ToolRegistry', () => {
+  it('offers only the enabled tools it knows', () => {
+    const registry = new ToolRegistry()
+    registry.register(calculatorTool)
+
+    expect(registry.definitions(['calculator', 'missing'])).toEqual([
+      {
+        type: 'function',
+        function: {
+          name: 'calculator',
+          description: calculatorTool.description,
+          parameters: calculatorTool.parameters,
+        },
+      },
+    ])
+    expect(registry.definitions([])).toEqual([])
+  })
+
+  it('runs a call with its JSON arguments', async () => {
+    const registry = new ToolRegistry()
+    registry.register(calculatorTool)
+
+    expect(await registry.run(callOf('calculator', '{"expression":"6 * 7"}'))).toBe('42')
+  })
+
+  it('fails for unknown tools and arguments that are not a JSON object', async () => {
+    const registry = new ToolRegistry()
+    registry.register(calculatorTool)
+
+    await expect(registry.run(callOf('shell', '{}'))).rejects.toThrow('Unknown tool: shell')
+    await expect(registry.run(callOf('calculator', '{"expression":'))).rejects.toThrow()
+    await expect(registry.run(callOf('calculator', '[1]'))).rejects.toThrow('JSON object')
+  })
+
+  it('cuts long results short', async () => {
+    const registry = new ToolRegistry()
+    registry.register({
+      name: 'echo',
+      description: 'Repeats a letter',
+      parameters: { type: 'object' },
+      run: () => 'x'.repeat(TOOL_CONFIG.MAX_RESULT_CHARS + 100),
+    })
+
+    const output = await registry.run(callOf('echo', ''))
+
+    expect(output).toHaveLength(TOOL_CONFIG.MAX_RESULT_CHARS + '\n[truncated]'.length)
+    expect(output.endsWith('[truncated]')).toBe(true)
+  })
+})
+
+describe('built-in tools', () => {
+  it('tells the time in the requested zone', async () => {
+    const tool = createCurrentTimeTool(() => new Date('2024-03-01T12:00:00Z'))
+
+    const output = await tool.run({ timeZone: 'Asia/Tokyo' })
+
+    expect(output).toContain('Friday, March 1, 2024')
+    expect(output).toContain('9:00:00 PM')
+    expect(output).toContain('2024-03-01T12:00:00.000Z')
+  })
+
+  it('finds the saved contexts that best match a query', async () => {
+    const contexts: ContextItem[] = [
+      { id: '1', type: 'text', title: 'Shopping', content: 'milk and eggs' },
+      { id: '2', type: 'text', title: 'Deploy notes', content: 'run the deploy script on fridays' },
+      { id: '3', type: 'text', title: 'Recipes', content: 'pancakes need eggs' },
+    ]
+    const tool = createContextSearchTool(() => contexts)
+
+    const output = await tool.run({ query: 'deploy eggs' })
+
+    expect(output.indexOf('## Deploy notes')).toBe(0)
+    expect(output).toContain('## Shopping')
+    expect(await tool.run({ query: 'kubernetes' })).toBe('No saved contexts match the query.')
+  })
+})
+
+describe('ToolCallAccumulator', () => {
+  it('joins argument pieces per call and fills in missing ids', () => {
+    const calls = new ToolCallAccumulator()
+
+    calls.push([{ index: 0, id: 'call_a', type: 'function', function: { name: 'calculator' } }])
+    calls.push([{ index: 0, function: { arguments: '{"expr' } }])
+    calls.push([
+      { index: 0, function: { arguments: 'ession":"1+1"}' } },
+      { index: 1, function: { name: 'current_time', arguments: '{}' } },
+    ])
+
+    expect(calls.finish()).toEqual([
+      {
+        id: 'call_a',
+        type: 'function',
+        function: { name: 'calculator', arguments: '{"expression":"1+1"}' },
+      },
+      { id: 'call_1', type: 'function', function: { name: 'current_time', arguments: '{}' } },
+    ])
+  })
+})